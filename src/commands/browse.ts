@@ -0,0 +1,753 @@
+import { Command } from "commander";
+import pc from "picocolors";
+import { ConfigManager } from "../lib/config.js";
+import {
+  CouchClient,
+  type DatabaseInfo,
+  type Document,
+} from "../lib/couch-client.js";
+import { reportError } from "../lib/errors.js";
+import { type JsonLine, containerPaths, jsonLines } from "../lib/json-view.js";
+import { type Key, parseKeys } from "../lib/picker.js";
+import { getSession } from "../lib/session.js";
+import { editInEditor } from "./doc.js";
+
+export const BrowseCommand = new Command("browse")
+  .description("Browse databases and documents in a full-screen terminal UI")
+  .argument("[db]", "Open this database directly")
+  .action(async (db?: string) => {
+    try {
+      if (!process.stdin.isTTY || !process.stdout.isTTY) {
+        throw new Error("sillon browse needs an interactive terminal");
+      }
+      const client = await getClient();
+      await new Browser(client).run(db);
+    } catch (error) {
+      reportError(error);
+    }
+  });
+
+// ── helpers ───────────────────────────────────────────────────────────────────
+
+async function getClient(): Promise<CouchClient> {
+  const session = getSession();
+  if (session) return session.client;
+  const config = new ConfigManager();
+  const conn = await config.getActiveConnection();
+  return new CouchClient(conn.url, conn.options);
+}
+
+function formatBytes(bytes: number): string {
+  if (bytes === 0) return "0 B";
+  const k = 1024;
+  const sizes = ["B", "KB", "MB", "GB"];
+  const i = Math.min(Math.floor(Math.log(bytes) / Math.log(k)), 3);
+  return `${Number.parseFloat((bytes / k ** i).toFixed(2))} ${sizes[i]}`;
+}
+
+function message(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+/** Cut `text` (plain, no escapes) to `width` columns. */
+function fit(text: string, width: number): string {
+  if (width <= 0) return "";
+  return text.length <= width ? text : `${text.slice(0, width - 1)}…`;
+}
+
+/** Pad a possibly colored string to `width` visible columns. */
+function pad(styled: string, plain: number, width: number): string {
+  return styled + " ".repeat(Math.max(0, width - plain));
+}
+
+const ALT_SCREEN_ON = "\x1b[?1049h\x1b[?25l";
+const ALT_SCREEN_OFF = "\x1b[?25h\x1b[?1049l";
+const CLEAR = "\x1b[H\x1b[2J";
+const SIDE_WIDTH = 32;
+
+/** A styled line and its visible width. */
+type Line = [styled: string, plain: number];
+
+interface View {
+  title: string;
+  hint: string;
+  /** Database for the side panel, if any. */
+  db?: string;
+  load(): Promise<void>;
+  body(width: number, height: number): Line[];
+  /** Extra side-panel lines below the database stats. */
+  details(): string[];
+  handle(key: Key): Promise<boolean>;
+}
+
+/** Move a cursor through `count` items, keeping it inside `height` rows. */
+class Cursor {
+  index = 0;
+  offset = 0;
+
+  move(delta: number, count: number): void {
+    this.index = Math.max(0, Math.min(count - 1, this.index + delta));
+  }
+
+  window(height: number): [start: number, end: number] {
+    if (this.index < this.offset) this.offset = this.index;
+    if (this.index >= this.offset + height) {
+      this.offset = this.index - height + 1;
+    }
+    return [this.offset, this.offset + height];
+  }
+
+  /** Shared movement keys; returns false for anything else. */
+  handle(key: Key, count: number, page: number): boolean {
+    switch (key.name) {
+      case "up":
+      case "ctrl-p":
+        this.move(-1, count);
+        return true;
+      case "down":
+      case "ctrl-n":
+        this.move(1, count);
+        return true;
+      case "pageup":
+        this.move(-page, count);
+        return true;
+      case "pagedown":
+        this.move(page, count);
+        return true;
+      case "home":
+        this.index = 0;
+        return true;
+      case "end":
+        this.index = Math.max(0, count - 1);
+        return true;
+    }
+    if (key.name !== "text") return false;
+    const text = (key as { text: string }).text;
+    if (text === "k") this.move(-1, count);
+    else if (text === "j") this.move(1, count);
+    else return false;
+    return true;
+  }
+}
+
+function text(key: Key): string | undefined {
+  return key.name === "text" ? (key as { text: string }).text : undefined;
+}
+
+function listLines(
+  items: string[],
+  cursor: Cursor,
+  width: number,
+  height: number,
+  style: (item: string, i: number) => string = (item) => item,
+): Line[] {
+  const [start, end] = cursor.window(height);
+  return items.slice(start, end).map((item, n) => {
+    const i = start + n;
+    const label = fit(item, width - 2);
+    const selected = i === cursor.index;
+    const styled = selected
+      ? pc.inverse(pad(` ${label}`, label.length + 1, width))
+      : ` ${style(label, i)}`;
+    return [styled, selected ? width : label.length + 1];
+  });
+}
+
+// ── views ─────────────────────────────────────────────────────────────────────
+
+class DatabasesView implements View {
+  title = "Databases";
+  hint = "enter: open · j/k: move · q: quit";
+  private dbs: string[] = [];
+  private cursor = new Cursor();
+
+  constructor(private app: Browser) {}
+
+  get db(): string | undefined {
+    return this.dbs[this.cursor.index];
+  }
+
+  async load(): Promise<void> {
+    this.dbs = await this.app.client.listDatabases();
+  }
+
+  body(width: number, height: number): Line[] {
+    if (this.dbs.length === 0) return [[pc.dim(" (no databases)"), 15]];
+    return listLines(this.dbs, this.cursor, width, height);
+  }
+
+  details(): string[] {
+    return [];
+  }
+
+  async handle(key: Key): Promise<boolean> {
+    if (this.cursor.handle(key, this.dbs.length, this.app.height())) {
+      return true;
+    }
+    if ((key.name === "enter" || key.name === "right") && this.db) {
+      await this.app.open(new DocumentsView(this.app, this.db));
+      return true;
+    }
+    return false;
+  }
+}
+
+interface DocRow {
+  id: string;
+  rev: string;
+  conflicts?: number;
+}
+
+class DocumentsView implements View {
+  hint =
+    "enter: view · e: edit · d: delete · y: copy id · c: conflicts · ←/→ or p/n: page · esc: back";
+  private rows: DocRow[] = [];
+  private cursor = new Cursor();
+  /** Start keys of the pages before the current one. */
+  private previous: (string | undefined)[] = [];
+  private start: string | undefined;
+  private next: string | undefined;
+  private total = 0;
+  private conflictsOnly = false;
+
+  constructor(
+    private app: Browser,
+    public db: string,
+  ) {}
+
+  get title(): string {
+    return this.conflictsOnly ? `${this.db} › conflicts` : this.db;
+  }
+
+  private get current(): DocRow | undefined {
+    return this.rows[this.cursor.index];
+  }
+
+  async load(): Promise<void> {
+    if (this.conflictsOnly) {
+      // Same scan as `sillon repl conflicts`: the first 1000 docs
+      const result = await this.app.client.getConflicts(this.db, {
+        limit: 1000,
+      });
+      this.rows = result.rows.flatMap((row) => {
+        const conflicts = (row.doc?._conflicts as string[] | undefined) ?? [];
+        if (conflicts.length === 0) return [];
+        return [
+          { id: row.id, rev: row.value.rev, conflicts: conflicts.length },
+        ];
+      });
+      this.total = this.rows.length;
+      this.next = undefined;
+    } else {
+      // One extra row tells us where the next page starts
+      const limit = this.app.height();
+      const result = await this.app.client.getAllDocs(this.db, {
+        startkey: this.start,
+        limit: limit + 1,
+      });
+      this.rows = result.rows
+        .slice(0, limit)
+        .map((row) => ({ id: row.id, rev: row.value.rev }));
+      this.next = result.rows[limit]?.id;
+      this.total = result.total_rows;
+    }
+    this.cursor.move(0, this.rows.length);
+  }
+
+  body(width: number, height: number): Line[] {
+    if (this.rows.length === 0) {
+      const empty = this.conflictsOnly
+        ? " (no conflicts in the first 1000 documents)"
+        : " (no documents)";
+      return [[pc.dim(empty), empty.length]];
+    }
+    const labels = this.rows.map((row) =>
+      row.conflicts ? `${row.id}  ⚠ ${row.conflicts}` : row.id,
+    );
+    return listLines(labels, this.cursor, width, height, (label, i) =>
+      this.rows[i]?.conflicts ? pc.yellow(label) : label,
+    );
+  }
+
+  details(): string[] {
+    const page = this.conflictsOnly
+      ? `${this.rows.length} conflicted`
+      : `page ${this.previous.length + 1} · ${this.total} docs`;
+    const lines = [page];
+    if (this.current) {
+      lines.push(
+        "",
+        fit(this.current.id, SIDE_WIDTH),
+        `rev ${this.current.rev}`,
+      );
+    }
+    return lines;
+  }
+
+  private async page(delta: 1 | -1): Promise<void> {
+    if (this.conflictsOnly) return;
+    if (delta === 1) {
+      if (this.next === undefined) return;
+      this.previous.push(this.start);
+      this.start = this.next;
+      this.cursor.index = 0;
+    } else {
+      if (this.previous.length === 0) return;
+      this.start = this.previous.pop();
+      this.cursor.index = this.app.height() - 1;
+    }
+    await this.load();
+  }
+
+  async handle(key: Key): Promise<boolean> {
+    const doc = this.current;
+    const last = this.rows.length - 1;
+    // Moving past either end of a page turns it
+    if (
+      (key.name === "down" || text(key) === "j") &&
+      this.cursor.index === last
+    ) {
+      await this.page(1);
+      return true;
+    }
+    if ((key.name === "up" || text(key) === "k") && this.cursor.index === 0) {
+      await this.page(-1);
+      return true;
+    }
+    if (this.cursor.handle(key, this.rows.length, this.app.height())) {
+      return true;
+    }
+
+    switch (key.name === "text" ? text(key) : key.name) {
+      case "right":
+      case "n":
+        await this.page(1);
+        return true;
+      case "left":
+      case "p":
+        await this.page(-1);
+        return true;
+      case "enter":
+        if (doc)
+          await this.app.open(new DocumentView(this.app, this.db, doc.id));
+        return true;
+      case "e":
+        if (doc) await this.app.edit(this.db, doc.id);
+        await this.load();
+        return true;
+      case "d":
+        if (doc) {
+          this.app.confirm(`Delete "${doc.id}"?`, async () => {
+            await this.app.client.deleteDocument(this.db, doc.id, doc.rev);
+            this.app.flash(`Deleted "${doc.id}"`);
+            await this.load();
+          });
+        }
+        return true;
+      case "y":
+        if (doc) this.app.copy(doc.id);
+        return true;
+      case "c":
+        this.conflictsOnly = !this.conflictsOnly;
+        this.cursor = new Cursor();
+        await this.load();
+        return true;
+      case "r":
+        await this.load();
+        return true;
+    }
+    return false;
+  }
+}
+
+class DocumentView implements View {
+  hint =
+    "space: fold · ←/→: collapse/expand · z/Z: fold/unfold all · c: conflicts · e: edit · d: delete · y: copy id · esc: back";
+  private doc: Document | undefined;
+  private folded = new Set<string>();
+  private lines: JsonLine[] = [];
+  private cursor = new Cursor();
+
+  constructor(
+    private app: Browser,
+    public db: string,
+    private id: string,
+  ) {}
+
+  get title(): string {
+    return this.id;
+  }
+
+  async load(): Promise<void> {
+    this.doc = await this.app.client.getDocument(this.db, this.id, {
+      conflicts: true,
+    });
+    this.layout();
+  }
+
+  private layout(): void {
+    const at = this.lines[this.cursor.index];
+    this.lines = jsonLines(this.doc, this.folded);
+    // Keep the cursor on the same value after folding
+    if (at) {
+      const i = this.lines.findIndex(
+        (line) => line.path === at.path && !line.closing,
+      );
+      if (i >= 0) this.cursor.index = i;
+    }
+    this.cursor.move(0, this.lines.length);
+  }
+
+  body(width: number, height: number): Line[] {
+    const [start, end] = this.cursor.window(height);
+    return this.lines.slice(start, end).map((line, n) => {
+      const indent = "  ".repeat(line.depth);
+      const key = line.key === undefined ? "" : `${JSON.stringify(line.key)}: `;
+      const size = line.container?.folded
+        ? ` ${line.container.size} ${line.container.array ? "items" : "keys"}`
+        : "";
+      const comma = line.comma ? "," : "";
+      const plain = fit(` ${indent}${key}${line.text}${comma}${size}`, width);
+
+      if (start + n === this.cursor.index) {
+        return [pc.inverse(pad(plain, plain.length, width)), width];
+      }
+      // Color only when nothing was cut, so escapes never split
+      if (plain.length < ` ${indent}${key}${line.text}${comma}${size}`.length) {
+        return [plain, plain.length];
+      }
+      const value = line.container
+        ? line.container.folded
+          ? pc.dim(line.text)
+          : line.text
+        : line.text.startsWith('"')
+          ? pc.green(line.text)
+          : /^[-\d]/.test(line.text)
+            ? pc.yellow(line.text)
+            : line.closing || line.text.length <= 2
+              ? line.text
+              : pc.magenta(line.text);
+      return [
+        ` ${indent}${line.key === undefined ? "" : pc.cyan(key)}${value}${comma}${pc.dim(size)}`,
+        plain.length,
+      ];
+    });
+  }
+
+  details(): string[] {
+    if (!this.doc) return [];
+    const conflicts = (this.doc._conflicts as string[] | undefined) ?? [];
+    const attachments = Object.keys(
+      (this.doc._attachments as object | undefined) ?? {},
+    );
+    return [
+      fit(this.id, SIDE_WIDTH),
+      `rev ${this.doc._rev}`,
+      `${Object.keys(this.doc).filter((k) => !k.startsWith("_")).length} fields`,
+      attachments.length > 0 ? `${attachments.length} attachment(s)` : "",
+      conflicts.length > 0
+        ? pc.yellow(`⚠ ${conflicts.length} conflict(s)`)
+        : "",
+    ].filter(Boolean);
+  }
+
+  private toggle(fold?: boolean): void {
+    const line = this.lines[this.cursor.index];
+    if (!line?.container && !line?.closing) return;
+    const shouldFold = fold ?? !this.folded.has(line.path);
+    if (shouldFold) this.folded.add(line.path);
+    else this.folded.delete(line.path);
+    this.layout();
+  }
+
+  async handle(key: Key): Promise<boolean> {
+    if (this.cursor.handle(key, this.lines.length, this.app.height())) {
+      return true;
+    }
+    const line = this.lines[this.cursor.index];
+
+    switch (key.name === "text" ? text(key) : key.name) {
+      case " ":
+      case "enter":
+        this.toggle();
+        return true;
+      case "right":
+      case "l":
+        this.toggle(false);
+        return true;
+      case "left":
+      case "h": {
+        if (line?.container && !line.container.folded) {
+          this.toggle(true);
+          return true;
+        }
+        // On a leaf (or folded value): jump to the parent's opening line
+        const parent = line?.path.slice(0, line.path.lastIndexOf("/"));
+        const i = this.lines.findIndex((l) => l.path === parent && !l.closing);
+        if (line?.path && i >= 0) this.cursor.index = i;
+        return true;
+      }
+      case "z":
+        for (const path of containerPaths(this.doc)) this.folded.add(path);
+        this.layout();
+        return true;
+      case "Z":
+        this.folded.clear();
+        this.layout();
+        return true;
+      case "c": {
+        const i = this.lines.findIndex((l) => l.path === "/_conflicts");
+        if (i < 0) {
+          this.app.flash("No conflicts");
+        } else {
+          this.folded.delete("/_conflicts");
+          this.layout();
+          this.cursor.index = i;
+        }
+        return true;
+      }
+      case "e":
+        await this.app.edit(this.db, this.id);
+        await this.load();
+        return true;
+      case "d": {
+        const rev = this.doc?._rev;
+        if (!rev) return true;
+        this.app.confirm(`Delete "${this.id}"?`, async () => {
+          await this.app.client.deleteDocument(this.db, this.id, rev);
+          this.app.flash(`Deleted "${this.id}"`);
+          await this.app.back();
+        });
+        return true;
+      }
+      case "y":
+        this.app.copy(this.id);
+        return true;
+    }
+    return false;
+  }
+}
+
+// ── browser ───────────────────────────────────────────────────────────────────
+
+class Browser {
+  private stack: View[] = [];
+  private status: string | undefined;
+  private pending: (() => Promise<void>) | undefined;
+  private info = new Map<string, DatabaseInfo | string>();
+  private busy = Promise.resolve();
+  private quit: (() => void) | undefined;
+  private out = process.stdout;
+
+  constructor(public client: CouchClient) {}
+
+  /** Rows available to a view's body (header, rule and status lines aside). */
+  height(): number {
+    return Math.max(1, (this.out.rows || 24) - 3);
+  }
+
+  async run(db?: string): Promise<void> {
+    const stdin = process.stdin;
+    this.stack.push(new DatabasesView(this));
+    if (db) this.stack.push(new DocumentsView(this, db));
+    await this.reload();
+
+    this.out.write(ALT_SCREEN_ON);
+    stdin.setRawMode(true);
+    stdin.setEncoding("utf8");
+    stdin.resume();
+
+    const draw = () => this.draw();
+    const onData = (chunk: string) => {
+      // Handle keys one chunk at a time; requests finish before the next
+      this.busy = this.busy.then(async () => {
+        for (const key of parseKeys(chunk)) {
+          // Pasted or buffered text arrives as one key; take it per letter
+          const letters = text(key);
+          if (letters === undefined) await this.handle(key);
+          else
+            for (const letter of letters)
+              await this.handle({ name: "text", text: letter });
+        }
+        this.draw();
+      });
+    };
+
+    await new Promise<void>((resolve) => {
+      this.quit = resolve;
+      stdin.on("data", onData);
+      this.out.on("resize", draw);
+      this.draw();
+    });
+
+    stdin.off("data", onData);
+    this.out.off("resize", draw);
+    stdin.setRawMode(false);
+    stdin.pause();
+    this.out.write(ALT_SCREEN_OFF);
+  }
+
+  private get view(): View {
+    return this.stack[this.stack.length - 1] as View;
+  }
+
+  async open(view: View): Promise<void> {
+    this.stack.push(view);
+    await this.reload();
+  }
+
+  async back(): Promise<void> {
+    if (this.stack.length <= 1) {
+      this.quit?.();
+      return;
+    }
+    this.stack.pop();
+    await this.reload();
+  }
+
+  private async reload(): Promise<void> {
+    try {
+      await this.view.load();
+    } catch (error) {
+      this.flash(message(error), true);
+    }
+  }
+
+  flash(text: string, error = false): void {
+    this.status = error ? pc.red(text) : pc.green(text);
+  }
+
+  /** Ask a y/n question in the status line; `action` runs on "y". */
+  confirm(question: string, action: () => Promise<void>): void {
+    this.status = pc.yellow(`${question} (y/n)`);
+    this.pending = action;
+  }
+
+  /** Copy to the clipboard with OSC 52, which most terminals support. */
+  copy(value: string): void {
+    const encoded = Buffer.from(value).toString("base64");
+    this.out.write(`\x1b]52;c;${encoded}\x07`);
+    this.flash(`Copied "${value}"`);
+  }
+
+  /** Suspend the UI, edit the doc in $EDITOR and save it back. */
+  async edit(db: string, id: string): Promise<void> {
+    const stdin = process.stdin;
+    const doc = await this.client.getDocument(db, id);
+    const original = JSON.stringify(doc, null, 2);
+
+    stdin.pause();
+    stdin.setRawMode(false);
+    this.out.write(ALT_SCREEN_OFF);
+    let edited: string;
+    try {
+      edited = await editInEditor(original);
+    } finally {
+      this.out.write(ALT_SCREEN_ON);
+      stdin.setRawMode(true);
+      stdin.resume();
+    }
+
+    if (edited === original) {
+      this.flash("No changes made");
+      return;
+    }
+    let updated: Document;
+    try {
+      updated = JSON.parse(edited);
+    } catch {
+      throw new Error("Invalid JSON after editing — document not saved");
+    }
+    updated._id ??= doc._id;
+    updated._rev ??= doc._rev;
+    const result = await this.client.putDocument(db, updated);
+    this.flash(`Saved "${id}" (${result.rev})`);
+  }
+
+  private async handle(key: Key): Promise<void> {
+    if (this.pending) {
+      const action = this.pending;
+      this.pending = undefined;
+      this.status = undefined;
+      if (text(key) === "y" || text(key) === "Y") {
+        await action().catch((error) => this.flash(message(error), true));
+      }
+      return;
+    }
+    this.status = undefined;
+
+    try {
+      if (await this.view.handle(key)) return;
+    } catch (error) {
+      this.flash(message(error), true);
+      return;
+    }
+
+    if (text(key) === "q" || key.name === "ctrl-c") {
+      this.quit?.();
+    } else if (
+      key.name === "escape" ||
+      key.name === "backspace" ||
+      key.name === "left" ||
+      text(key) === "h"
+    ) {
+      await this.back();
+    } else if (text(key) === "r") {
+      await this.reload();
+    }
+  }
+
+  private side(db: string | undefined): string[] {
+    if (!db) return [];
+    const info = this.info.get(db);
+    if (info === undefined) {
+      this.info.set(db, "loading…");
+      this.client
+        .getDatabaseInfo(db)
+        .then(
+          (result) => this.info.set(db, result),
+          (error) => this.info.set(db, message(error)),
+        )
+        .then(() => this.draw());
+      return [pc.bold(fit(db, SIDE_WIDTH)), "loading…"];
+    }
+    if (typeof info === "string") return [pc.bold(fit(db, SIDE_WIDTH)), info];
+
+    const row = (label: string, value: string | number) =>
+      `${pc.dim(label.padEnd(10))}${value}`;
+    return [
+      pc.bold(fit(db, SIDE_WIDTH)),
+      row("docs", info.doc_count),
+      row("deleted", info.doc_del_count),
+      row("active", formatBytes(info.sizes?.active ?? 0)),
+      row("external", formatBytes(info.sizes?.external ?? 0)),
+      row("file", formatBytes(info.sizes?.file ?? 0)),
+      row("seq", fit(String(info.update_seq).split("-")[0] ?? "", 20)),
+      info.props?.partitioned ? row("type", "partitioned") : "",
+    ].filter(Boolean);
+  }
+
+  private draw(): void {
+    if (!this.quit) return;
+    const width = this.out.columns || 80;
+    const height = this.height();
+    const view = this.view;
+    const showSide = width >= SIDE_WIDTH + 30;
+    const mainWidth = showSide ? width - SIDE_WIDTH - 3 : width;
+
+    const crumbs = this.stack.map((v) => v.title).join(" › ");
+    const header = `${pc.cyan("🛋️  sillon")} ${pc.dim("›")} ${fit(crumbs, width - 14)}`;
+    const body = view.body(mainWidth, height);
+    const side = showSide ? [...this.side(view.db), "", ...view.details()] : [];
+
+    const lines = [header, pc.dim("─".repeat(width))];
+    for (let row = 0; row < height; row++) {
+      const [styled, plain] = body[row] ?? ["", 0];
+      let line = pad(styled, plain, mainWidth);
+      if (showSide) line += ` ${pc.dim("│")} ${side[row] ?? ""}`;
+      lines.push(line);
+    }
+    lines.push(this.status ?? pc.dim(fit(view.hint, width)));
+    this.out.write(CLEAR + lines.join("\r\n"));
+  }
+}
@@ -0,0 +1,517 @@
+import { Command } from "commander";
+import pc from "picocolors";
+import {
+  ChangeDispatcher,
+  execHandler,
+  postHandler,
+} from "../lib/change-dispatcher.js";
+import { CheckpointStore } from "../lib/checkpoints.js";
+import { ConfigManager, type ConnectionConfig } from "../lib/config.js";
+import {
+  type ChangeRow,
+  type ChangesOptions,
+  CouchClient,
+} from "../lib/couch-client.js";
+import { exit, reportError } from "../lib/errors.js";
+import {
+  formatStreamItem,
+  hasQuery,
+  outputFormat,
+  printStructured,
+} from "../lib/output.js";
+import { getSession, interruptSignal } from "../lib/session.js";
+
+// ── helpers ───────────────────────────────────────────────────────────────────
+
+/** Resolve the working database: explicit arg → currentDb → error. */
+async function resolveDb(arg?: string): Promise<string> {
+  if (arg) return arg;
+  const config = new ConfigManager();
+  const current = await config.getCurrentDb();
+  if (current) return current;
+  throw new Error(
+    "No database specified.\n  Pass a database name or run: sillon db use <name>",
+  );
+}
+
+async function getClient(): Promise<{
+  client: CouchClient;
+  conn: ConnectionConfig;
+}> {
+  const session = getSession();
+  if (session) return { client: session.client, conn: session.conn };
+  const config = new ConfigManager();
+  const conn = await config.getActiveConnection();
+  return { client: new CouchClient(conn.url, conn.options), conn };
+}
+
+/**
+ * Tracks the last seen seq for a named checkpoint and flushes it to disk at
+ * most once per interval, so a busy feed doesn't rewrite the file per change.
+ */
+function checkpointWriter(
+  store: CheckpointStore,
+  name: string,
+  conn: ConnectionConfig,
+  db: string,
+  intervalMs = 1000,
+) {
+  let pending: string | number | undefined;
+  let lastWrite = 0;
+
+  const flush = async () => {
+    if (pending === undefined) return;
+    const seq = pending;
+    pending = undefined;
+    lastWrite = Date.now();
+    await store.set(name, conn, db, seq);
+  };
+
+  return {
+    async record(seq: string | number) {
+      pending = seq;
+      if (Date.now() - lastWrite >= intervalMs) await flush();
+    },
+    flush,
+  };
+}
+
+/** Shorten an opaque CouchDB 2.x+ sequence for display. */
+function shortSeq(seq: string | number): string {
+  const s = String(seq);
+  return s.length > 16 ? `${s.slice(0, 16)}…` : s;
+}
+
+function printChange(change: ChangeRow, json: boolean): void {
+  if (json) {
+    console.log(formatStreamItem(change));
+    return;
+  }
+
+  const marker = change.deleted ? pc.red("✗") : pc.blue("▸");
+  const revs = change.changes.map((c) => c.rev.slice(0, 10)).join(", ");
+  const deleted = change.deleted ? pc.red(" [deleted]") : "";
+  console.log(
+    `  ${marker} ${pc.bold(change.id)}${deleted}  ${pc.dim(`rev: ${revs}  seq: ${shortSeq(change.seq)}`)}`,
+  );
+
+  const doc = change.doc;
+  if (doc && !change.deleted) {
+    const keys = Object.keys(doc).filter((k) => !k.startsWith("_"));
+    if (keys.length > 0) {
+      const preview = keys
+        .slice(0, 4)
+        .map((k) => `${k}: ${JSON.stringify(doc[k]).slice(0, 24)}`)
+        .join(", ");
+      console.log(
+        `    ${pc.dim(`{ ${preview}${keys.length > 4 ? ", …" : ""} }`)}`,
+      );
+    }
+  }
+}
+
+/**
+ * Start the feed from a stored checkpoint. An explicit --since wins over
+ * whatever was saved.
+ */
+async function resumeCheckpoint(
+  store: CheckpointStore,
+  checkpointName: string,
+  conn: ConnectionConfig,
+  db: string,
+  feedOptions: Omit<ChangesOptions, "feed">,
+  quiet: boolean,
+): Promise<void> {
+  if (feedOptions.since !== undefined) return;
+  const saved = await store.get(checkpointName, conn, db);
+  if (!saved) return;
+  feedOptions.since = saved.seq;
+  if (!quiet) {
+    console.log(
+      pc.dim(`  Resuming "${checkpointName}" from seq ${shortSeq(saved.seq)}`),
+    );
+  }
+}
+
+/** Translate CLI flags into `_changes` options shared by every feed mode. */
+function buildChangesOptions(
+  options: Record<string, unknown>,
+): Omit<ChangesOptions, "feed"> {
+  const feedOptions: Omit<ChangesOptions, "feed"> = {};
+
+  if (options.since !== undefined) feedOptions.since = options.since as string;
+  if (options.limit)
+    feedOptions.limit = Number.parseInt(options.limit as string, 10);
+  if (options.descending && !options.follow) {
+    // The checkpoint would end on the oldest change instead of the newest
+    if (options.checkpoint) {
+      throw new Error("--descending can't be combined with --checkpoint");
+    }
+    feedOptions.descending = true;
+  }
+  if (options.includeDocs) feedOptions.include_docs = true;
+  if (options.conflicts) feedOptions.conflicts = true;
+  if (options.allDocs) feedOptions.style = "all_docs";
+  if (options.filter) feedOptions.filter = options.filter as string;
+  if (options.heartbeat)
+    feedOptions.heartbeat = Number.parseInt(options.heartbeat as string, 10);
+
+  if (options.selector) {
+    try {
+      feedOptions.selector = JSON.parse(options.selector as string);
+    } catch {
+      throw new Error(`Invalid JSON for --selector: ${options.selector}`);
+    }
+  }
+
+  if (options.docIds) {
+    feedOptions.doc_ids = (options.docIds as string)
+      .split(",")
+      .map((s: string) => s.trim());
+  }
+
+  return feedOptions;
+}
+
+// ── changes ───────────────────────────────────────────────────────────────────
+
+export const ChangesCommand = new Command("changes")
+  .description("Show (or follow) the changes feed of a database")
+  .argument("[db]", "Database name (falls back to current db)")
+  .option("-f, --follow", "Keep the feed open and print changes as they arrive")
+  .option(
+    "--since <seq>",
+    'Start after this sequence ("now" to skip history). Default: 0, or "now" with --follow',
+  )
+  .option("--limit <n>", "Max number of changes")
+  .option("--descending", "Newest changes first (ignored with --follow)")
+  .option("--include-docs", "Include full document bodies")
+  .option("--conflicts", "Include _conflicts (with --include-docs)")
+  .option("--all-docs", "Report all leaf revisions (style=all_docs)")
+  .option("--filter <fn>", "Filter function (ddoc/name) or built-in filter")
+  .option("--selector <json>", "Only changes matching a Mango selector")
+  .option("--doc-ids <ids>", "Comma-separated document IDs to watch")
+  .option("--heartbeat <ms>", "Heartbeat interval for --follow", "30000")
+  .option(
+    "--checkpoint <name>",
+    "Resume from (and record) the last seen seq under this name",
+  )
+  .option("--json", "Output as NDJSON (one change per line)")
+  .action(async (db?: string, options?) => {
+    try {
+      const name = await resolveDb(db);
+      const { client, conn } = await getClient();
+      const feedOptions = buildChangesOptions(options);
+      // The feed is a stream: any machine-readable -o format follows as NDJSON,
+      // and --query runs on each change
+      const json = !!options.json || outputFormat() !== "table" || hasQuery();
+
+      const store = new CheckpointStore();
+      const checkpoint = options.checkpoint
+        ? checkpointWriter(store, options.checkpoint as string, conn, name)
+        : undefined;
+      if (options.checkpoint) {
+        await resumeCheckpoint(
+          store,
+          options.checkpoint as string,
+          conn,
+          name,
+          feedOptions,
+          json,
+        );
+      }
+
+      if (!options.follow) {
+        feedOptions.heartbeat = undefined;
+        const result = await client.changes(name, feedOptions);
+        if (checkpoint) {
+          await checkpoint.record(result.last_seq);
+          await checkpoint.flush();
+        }
+
+        if (options.json) {
+          for (const change of result.results) printChange(change, true);
+          return;
+        }
+        if (printStructured(result, {}, result.results)) return;
+
+        console.log(
+          pc.cyan(`📜 Changes in "${name}"`) +
+            pc.dim(` — ${result.results.length} change(s)`),
+        );
+        if (result.results.length === 0) {
+          console.log(pc.dim("  (no changes)"));
+        }
+        for (const change of result.results) printChange(change, false);
+        console.log(pc.dim(`\n  last_seq: ${result.last_seq}`));
+        if (result.pending)
+          console.log(pc.dim(`  pending:  ${result.pending}`));
+        return;
+      }
+
+      // ── follow mode ──
+      if (feedOptions.since === undefined) feedOptions.since = "now";
+
+      const interrupt = interruptSignal();
+      feedOptions.signal = interrupt.signal;
+
+      if (!json) {
+        console.log(
+          pc.cyan(`📡 Following changes in "${name}"`) +
+            pc.dim(" — Ctrl+C to stop"),
+        );
+      }
+
+      let count = 0;
+      try {
+        const feed = client.streamChanges(name, feedOptions);
+        let next = await feed.next();
+        for (; !next.done; next = await feed.next()) {
+          printChange(next.value, json);
+          await checkpoint?.record(next.value.seq);
+          count++;
+        }
+        // A feed the server closed ends on its last_seq, which can be past
+        // the last change (filtered out ones, a `limit`)
+        if (next.value !== undefined) await checkpoint?.record(next.value);
+      } finally {
+        interrupt.release();
+      }
+      await checkpoint?.flush();
+
+      if (!json) {
+        console.log(pc.dim(`\n  ${count} change(s) received`));
+      }
+    } catch (error) {
+      reportError(error);
+    }
+  });
+
+// ── changes exec ──────────────────────────────────────────────────────────────
+
+/** Parse repeated `--header "Name: value"` flags into a headers object. */
+function parseHeaders(values: string[] = []): Record<string, string> {
+  const headers: Record<string, string> = {};
+  for (const value of values) {
+    const idx = value.indexOf(":");
+    if (idx <= 0)
+      throw new Error(`Invalid --header (expected "Name: value"): ${value}`);
+    headers[value.slice(0, idx).trim()] = value.slice(idx + 1).trim();
+  }
+  return headers;
+}
+
+/** The words the root command was asked to parse (undocumented in typings). */
+function rootArgs(command: Command): string[] {
+  let root = command;
+  while (root.parent) root = root.parent;
+  return (root as Command & { rawArgs: string[] }).rawArgs;
+}
+
+ChangesCommand.command("exec")
+  .description(
+    "Run a command (change JSON on stdin) or POST a webhook for each change",
+  )
+  .argument("[db]", "Database name (falls back to current db)")
+  .argument("[command...]", "Command to run per change, after --")
+  .usage("[db] [options] -- <command...>  |  [db] --post <url>")
+  .option("--post <url>", "POST each change as JSON to this URL")
+  .option(
+    "--header <header>",
+    'Extra header for --post, e.g. "Authorization: Bearer …" (repeatable)',
+    (value: string, prev: string[] = []) => [...prev, value],
+  )
+  .option("--concurrency <n>", "Max handlers running at once", "1")
+  .option("--retries <n>", "Retries per change after the first failure", "3")
+  .option("--retry-delay <ms>", "Base backoff delay between retries", "1000")
+  .option(
+    "--dead-letter <file>",
+    "Append changes that still fail to this NDJSON file (without it, a failed change holds the checkpoint)",
+  )
+  .addHelpText(
+    "after",
+    "\nFeed options (--follow, --since, --filter, --selector, --checkpoint, …)\nare shared with `sillon changes`.",
+  )
+  .action(
+    async (dbArg: string | undefined, commandArg: string[], _opts, cmd) => {
+      try {
+        // Feed flags are declared on `changes` itself, which claims them
+        // wherever they appear on the command line.
+        const options = (cmd as Command).optsWithGlobals();
+
+        // `exec -- cmd` without a db: commander hands the first word of the
+        // command to [db], so split on the literal `--` ourselves. The root
+        // command's rawArgs are the words it parsed, which inside `sillon
+        // shell` are not process.argv.
+        let db = dbArg;
+        let command = commandArg;
+        const words = rootArgs(cmd as Command);
+        const dashIdx = words.indexOf("--");
+        if (dashIdx !== -1) {
+          const child = words.slice(dashIdx + 1);
+          const operands = [dbArg, ...commandArg].filter(
+            (a): a is string => a !== undefined,
+          );
+          db = operands.length > child.length ? operands[0] : undefined;
+          command = child;
+        }
+
+        if (command.length === 0 && !options.post) {
+          throw new Error(
+            "Nothing to run.\n  Usage: sillon changes exec [db] -- <command...>\n     or: sillon changes exec [db] --post <url>",
+          );
+        }
+        if (command.length > 0 && options.post) {
+          throw new Error("Use either a command or --post, not both");
+        }
+
+        const name = await resolveDb(db);
+        const { client, conn } = await getClient();
+        const feedOptions = buildChangesOptions(options);
+
+        const store = new CheckpointStore();
+        const checkpoint = options.checkpoint
+          ? checkpointWriter(store, options.checkpoint as string, conn, name)
+          : undefined;
+        if (options.checkpoint) {
+          await resumeCheckpoint(
+            store,
+            options.checkpoint as string,
+            conn,
+            name,
+            feedOptions,
+            false,
+          );
+        }
+
+        const handler = options.post
+          ? postHandler(options.post as string, parseHeaders(options.header))
+          : execHandler(command, { SILLON_DB: name });
+
+        const dispatcher = new ChangeDispatcher(handler, {
+          concurrency: Number.parseInt(options.concurrency as string, 10),
+          retries: Number.parseInt(options.retries as string, 10),
+          retryDelayMs: Number.parseInt(options.retryDelay as string, 10),
+          deadLetter: options.deadLetter as string | undefined,
+          onCommit: (seq) => checkpoint?.record(seq),
+          onFailure: (change, error, attempts) => {
+            console.error(
+              pc.red(`  ✗ ${change.id} failed after ${attempts} attempt(s): `) +
+                pc.dim(error.message),
+            );
+          },
+        });
+
+        const target = options.post
+          ? `POST ${options.post}`
+          : command.join(" ");
+        console.error(
+          pc.cyan(`⚙️  Handling changes in "${name}"`) + pc.dim(` → ${target}`),
+        );
+
+        // Where the feed ended, saved once every change before it is handled
+        let lastSeq: string | number | undefined;
+        if (options.follow) {
+          if (feedOptions.since === undefined) feedOptions.since = "now";
+          const interrupt = interruptSignal();
+          feedOptions.signal = interrupt.signal;
+          try {
+            const feed = client.streamChanges(name, feedOptions);
+            let next = await feed.next();
+            for (; !next.done; next = await feed.next()) {
+              await dispatcher.dispatch(next.value);
+            }
+            lastSeq = next.value;
+          } finally {
+            interrupt.release();
+          }
+        } else {
+          feedOptions.heartbeat = undefined;
+          const result = await client.changes(name, feedOptions);
+          for (const change of result.results) {
+            await dispatcher.dispatch(change);
+          }
+          lastSeq = result.last_seq;
+        }
+
+        await dispatcher.drain();
+        const stats = dispatcher.getStats();
+        // A failure that wasn't dead-lettered keeps the checkpoint before it
+        const lost = stats.failed > 0 && !options.deadLetter;
+        if (lastSeq !== undefined && !lost) await checkpoint?.record(lastSeq);
+        await checkpoint?.flush();
+
+        const failed =
+          stats.failed > 0 ? pc.red(`${stats.failed} failed`) : "0 failed";
+        console.error(
+          pc.dim(
+            `\n  ${stats.succeeded} handled, ${failed}${pc.dim(`, ${stats.retried} retries`)}`,
+          ),
+        );
+        if (stats.failed > 0) {
+          if (options.deadLetter) {
+            console.error(
+              pc.dim(`  Failed changes written to ${options.deadLetter}`),
+            );
+          } else if (checkpoint) {
+            console.error(
+              pc.dim(
+                "  Checkpoint kept before the first failed change; it runs again on resume",
+              ),
+            );
+          }
+          exit(1);
+        }
+      } catch (error) {
+        reportError(error);
+      }
+    },
+  );
+
+// ── changes checkpoints ───────────────────────────────────────────────────────
+
+const CheckpointsCommand = ChangesCommand.command("checkpoints")
+  .description("List saved changes-feed checkpoints")
+  .option("--json", "Output as JSON")
+  .action(async (options) => {
+    try {
+      const store = new CheckpointStore();
+      const entries = await store.list();
+
+      if (printStructured(entries, options)) return;
+
+      if (entries.length === 0) {
+        console.log(pc.yellow("No saved checkpoints"));
+        console.log(
+          pc.dim("  Run: sillon changes <db> --follow --checkpoint <name>"),
+        );
+        return;
+      }
+
+      console.log(pc.cyan("📌 Checkpoints:"));
+      for (const entry of entries) {
+        console.log(
+          `  ${pc.blue("▸")} ${pc.bold(entry.name)}  ${pc.dim(`${entry.connection} / ${entry.db}`)}`,
+        );
+        console.log(
+          pc.dim(`      seq: ${shortSeq(entry.seq)}  at ${entry.updatedAt}`),
+        );
+      }
+    } catch (error) {
+      reportError(error);
+    }
+  });
+
+CheckpointsCommand.command("remove <name> [db]")
+  .alias("rm")
+  .description("Remove a checkpoint (or only its entry for one database)")
+  .action(async (checkpointName: string, db?: string) => {
+    try {
+      const store = new CheckpointStore();
+      await store.remove(checkpointName, db);
+      const scope = db ? ` for "${db}"` : "";
+      console.log(pc.green(`✓ Removed checkpoint "${checkpointName}"${scope}`));
+    } catch (error) {
+      reportError(error);
+    }
+  });
@@ -0,0 +1,142 @@
+import { homedir } from "node:os";
+import { join } from "node:path";
+import { Argument, Command } from "commander";
+import { clientSource, complete, fileCachedSource } from "../lib/complete.js";
+import { ConfigManager } from "../lib/config.js";
+import { CouchClient } from "../lib/couch-client.js";
+import { reportError } from "../lib/errors.js";
+
+export const CompletionCommand = new Command("completion")
+  .description("Print a shell completion script")
+  .addArgument(
+    new Argument("<shell>", "Shell to complete for").choices([
+      "bash",
+      "zsh",
+      "fish",
+    ]),
+  )
+  .addHelpText(
+    "after",
+    `
+Examples:
+  source <(sillon completion bash)          # add to ~/.bashrc
+  source <(sillon completion zsh)           # add to ~/.zshrc, after compinit
+  sillon completion fish > ~/.config/fish/completions/sillon.fish`,
+  )
+  .action((shell: Shell, _options, command: Command) => {
+    try {
+      const name = (command.parent as Command).name();
+      process.stdout.write(SCRIPTS[shell](name, functionName(name)));
+    } catch (error) {
+      reportError(error);
+    }
+  });
+
+/**
+ * Hidden: `sillon __complete -- <words...>` prints one candidate per line for
+ * the last word. The scripts above call it on every Tab; it answers command
+ * and option names from the commander tree and looks up databases, doc ids
+ * and views on the active connection, cached for a minute on disk.
+ */
+export const CompleteCommand = new Command("__complete")
+  .argument("[words...]")
+  .allowUnknownOption()
+  .helpOption(false)
+  .action(async (words: string[], _options, command: Command) => {
+    try {
+      const config = new ConfigManager();
+      const settings = await config.load();
+      const scope =
+        settings.defaultConnectionName ??
+        settings.defaultConnection ??
+        process.env.COUCHDB_URL ??
+        "local";
+      const source = fileCachedSource(
+        async () => {
+          const conn = await config.getActiveConnection();
+          return clientSource(new CouchClient(conn.url, conn.options));
+        },
+        CACHE_PATH,
+        scope,
+      );
+      const candidates = await complete(
+        command.parent as Command,
+        words.length > 0 ? words : [""],
+        source,
+        settings.currentDb,
+      );
+      if (candidates.length > 0) console.log(candidates.join("\n"));
+    } catch {
+      // Never print errors into the user's command line
+    }
+  });
+
+// ── scripts ───────────────────────────────────────────────────────────────────
+
+type Shell = "bash" | "zsh" | "fish";
+
+const CACHE_PATH = join(homedir(), ".cache", "sillon", "completions.json");
+
+function functionName(program: string): string {
+  return `_${program.replace(/[^A-Za-z0-9_]/g, "_")}`;
+}
+
+// Each script hands the words typed so far to `__complete` and falls back to
+// file names when it has nothing to offer (e.g. `doc import <db> <file>`)
+
+function bashScript(program: string, fn: string): string {
+  return `# ${program} bash completion: source <(${program} completion bash)
+${fn}() {
+  local line="\${COMP_LINE:0:COMP_POINT}" cur
+  local -a words
+  read -ra words <<< "$line"
+  [[ $line =~ [[:space:]]$ ]] && words+=("")
+  cur="\${words[\${#words[@]}-1]}"
+  local IFS=$'\\n'
+  COMPREPLY=($(${program} __complete -- "\${words[@]:1}" 2>/dev/null))
+  # bash splits words on ':' (as in doc ids); only complete the part after it
+  if [[ $cur == *:* && $COMP_WORDBREAKS == *:* ]]; then
+    local prefix="\${cur%"\${cur##*:}"}"
+    COMPREPLY=("\${COMPREPLY[@]#"$prefix"}")
+  fi
+}
+complete -o default -F ${fn} ${program}
+`;
+}
+
+function zshScript(program: string, fn: string): string {
+  return `#compdef ${program}
+# ${program} zsh completion: source <(${program} completion zsh)
+${fn}() {
+  local -a candidates
+  candidates=("\${(@f)$(${program} __complete -- "\${(@)words[2,CURRENT]}" 2>/dev/null)}")
+  if [[ -n \${candidates[1]} ]]; then
+    compadd -Q -- "\${candidates[@]}"
+  else
+    _files
+  fi
+}
+compdef ${fn} ${program}
+`;
+}
+
+function fishScript(program: string, fn: string): string {
+  return `# ${program} fish completion: ${program} completion fish | source
+function ${fn}
+    set -l words (commandline -opc)[2..-1] (commandline -ct)
+    set -l candidates (${program} __complete -- $words 2>/dev/null)
+    if test (count $candidates) -gt 0
+        printf '%s\\n' $candidates
+    else
+        __fish_complete_path (commandline -ct)
+    end
+end
+complete -c ${program} -f -a '(${fn})'
+`;
+}
+
+const SCRIPTS: Record<Shell, (program: string, fn: string) => string> = {
+  bash: bashScript,
+  zsh: zshScript,
+  fish: fishScript,
+};
@@ -1,6 +1,94 @@
 import { Command } from "commander";
 import pc from "picocolors";
 import { ConfigManager } from "../lib/config.js";
+import {
+  type CouchAuth,
+  CouchClient,
+  type CouchClientOptions,
+} from "../lib/couch-client.js";
+import { CredentialStore, redactUrl } from "../lib/credentials.js";
+import { ExitCode, exit, reportError } from "../lib/errors.js";
+import { printStructured } from "../lib/output.js";
+
+function parseCount(value: string, flag: string): number {
+  const n = Number(value);
+  if (!Number.isInteger(n) || n < 0) {
+    throw new Error(`${flag} must be a non-negative integer`);
+  }
+  return n;
+}
+
+/** Read a line from stdin without echoing it (passwords, tokens). */
+async function promptSecret(question: string): Promise<string> {
+  process.stdout.write(question);
+  const stdin = process.stdin;
+  return new Promise((resolve, reject) => {
+    let input = "";
+    const finish = () => {
+      stdin.off("data", onData);
+      if (stdin.isTTY) stdin.setRawMode(false);
+      stdin.pause();
+      process.stdout.write("\n");
+    };
+    const onData = (chunk: string) => {
+      for (const ch of chunk) {
+        if (ch === "\r" || ch === "\n") {
+          finish();
+          return resolve(input);
+        }
+        if (ch === "\u0003") {
+          finish();
+          // Inside `sillon shell` exit() throws, ending only this command
+          try {
+            exit(ExitCode.Interrupted);
+          } catch (signal) {
+            reject(signal);
+          }
+          return;
+        }
+        if (ch === "\u007f" || ch === "\b") input = input.slice(0, -1);
+        else input += ch;
+      }
+    };
+    if (stdin.isTTY) stdin.setRawMode(true);
+    stdin.setEncoding("utf8");
+    stdin.resume();
+    stdin.on("data", onData);
+  });
+}
+
+/**
+ * Build an explicit auth strategy for `connect add --auth`. Credentials come
+ * from the URL userinfo (which is then dropped), env vars, or a prompt — never
+ * from a flag that would land in shell history.
+ */
+async function resolveAuth(
+  mode: string,
+  parsed: URL,
+  user?: string,
+): Promise<CouchAuth> {
+  if (mode === "jwt") {
+    const token =
+      process.env.COUCHDB_TOKEN || (await promptSecret("JWT token: "));
+    if (!token) throw new Error("A token is required for --auth jwt");
+    return { type: "jwt", token };
+  }
+  if (mode !== "basic" && mode !== "session") {
+    throw new Error(`Unknown auth mode "${mode}" (use basic, session or jwt)`);
+  }
+
+  const username = user ?? decodeURIComponent(parsed.username);
+  if (!username) throw new Error(`--auth ${mode} needs --user <name>`);
+  const password =
+    decodeURIComponent(parsed.password) ||
+    process.env.COUCHDB_PASSWORD ||
+    (await promptSecret(`Password for ${username}: `));
+  return { type: mode, username, password };
+}
+
+function describeAuth(auth: CouchAuth): string {
+  return auth.type === "jwt" ? "jwt" : `${auth.type} as ${auth.username}`;
+}
 
 export const ConnectCommand = new Command("connect")
   .description("Manage CouchDB connections")
@@ -11,7 +99,9 @@ export const ConnectCommand = new Command("connect")
       const conn = await config.getActiveConnection();
       const label = conn.name ? pc.cyan(conn.name) : pc.dim("(unnamed)");
       console.log(`${pc.green("●")} Active connection: ${label}`);
-      console.log(pc.dim(`  ${conn.url}`));
+      console.log(pc.dim(`  ${redactUrl(conn.url)}`));
+      const auth = conn.options?.auth;
+      if (auth) console.log(pc.dim(`  auth: ${describeAuth(auth)}`));
     } catch (error) {
       console.log(pc.yellow("○ No active connection"));
       console.log(pc.dim("  Run: sillon connect add <url>"));
@@ -23,31 +113,67 @@ ConnectCommand.command("add <url>")
   .description("Test and save a CouchDB connection")
   .option("-n, --name <name>", "Save as named connection")
   .option("--default", "Set as default connection")
+  .option("--timeout <ms>", "Request timeout for this connection (0 = none)")
+  .option("--retries <n>", "Retries for transient failures (0 = none)")
+  .option(
+    "--auth <mode>",
+    "Auth mode: basic, session (cookie) or jwt; password/token from the URL, $COUCHDB_PASSWORD/$COUCHDB_TOKEN or a prompt",
+  )
+  .option("-u, --user <name>", "Username for basic/session auth")
   .action(async (url: string, options) => {
     const config = new ConfigManager();
 
     console.log(pc.cyan("🔄 Testing connection..."));
 
     try {
-      const normalizedUrl = url.replace(/\/$/, "");
-      const response = await fetch(`${normalizedUrl}/`);
+      const clientOptions: CouchClientOptions = {};
+      if (options.timeout !== undefined)
+        clientOptions.timeout = parseCount(options.timeout, "--timeout");
+      if (options.retries !== undefined)
+        clientOptions.maxRetries = parseCount(options.retries, "--retries");
 
-      if (!response.ok) {
-        throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+      let normalizedUrl = url.replace(/\/$/, "");
+      if (options.auth) {
+        if (!options.name) throw new Error("--auth needs --name");
+        const parsed = new URL(normalizedUrl);
+        clientOptions.auth = await resolveAuth(
+          options.auth,
+          parsed,
+          options.user,
+        );
+        // The credentials now live in the auth settings, not the URL
+        parsed.username = "";
+        parsed.password = "";
+        normalizedUrl = parsed.toString().replace(/\/$/, "");
       }
+      const hasClientOptions = Object.keys(clientOptions).length > 0;
 
-      const info = (await response.json()) as {
-        version: string;
-        vendor?: { name: string };
-      };
+      const client = new CouchClient(normalizedUrl, clientOptions);
+      const info = await client.getServerInfo();
 
       console.log(pc.green(`✓ Connected to CouchDB ${info.version}`));
       console.log(pc.dim(`  Vendor: ${info.vendor?.name ?? "Apache"}`));
 
+      if (clientOptions.auth) {
+        const session = await client.getSession();
+        if (!session.userCtx.name) {
+          throw new Error("Credentials were not accepted (still anonymous)");
+        }
+        console.log(pc.dim(`  Authenticated as ${session.userCtx.name}`));
+      }
+
       // Save named connection
       if (options.name) {
-        await config.saveConnection(options.name, normalizedUrl);
+        await config.saveConnection(
+          options.name,
+          normalizedUrl,
+          hasClientOptions ? clientOptions : undefined,
+        );
         console.log(pc.dim(`  Saved as "${options.name}"`));
+      } else if (hasClientOptions) {
+        console.log(
+          pc.yellow("  --timeout/--retries are only saved with --name"),
+        );
       }
 
       // Set default: explicitly requested, OR no name given (raw URL default)
@@ -64,12 +190,7 @@ ConnectCommand.command("add <url>")
         console.log(pc.dim("  Set as default connection"));
       }
     } catch (error) {
-      console.error(
-        pc.red(
-          `✗ Connection failed: ${error instanceof Error ? error.message : String(error)}`,
-        ),
-      );
-      process.exit(1);
+      reportError(error, { label: "✗ Connection failed" });
     }
   });
 
@@ -82,10 +203,11 @@ ConnectCommand.command("list")
     try {
       const connections = await config.listConnections();
 
-      if (options.json) {
-        console.log(JSON.stringify(connections, null, 2));
-        return;
-      }
+      const redacted = connections.map((c) => ({
+        ...c,
+        url: redactUrl(c.url),
+      }));
+      if (printStructured(redacted, options)) return;
 
       if (connections.length === 0) {
         console.log(pc.yellow("No saved connections"));
@@ -98,15 +220,10 @@ ConnectCommand.command("list")
         const marker = conn.isDefault ? pc.green("●") : pc.dim("○");
         const defaultTag = conn.isDefault ? pc.dim(" (default)") : "";
         console.log(`  ${marker} ${pc.bold(conn.name!)}${defaultTag}`);
-        console.log(pc.dim(`      ${conn.url}`));
+        console.log(pc.dim(`      ${redactUrl(conn.url)}`));
       }
     } catch (error) {
-      console.error(
-        pc.red(
-          `Error: ${error instanceof Error ? error.message : String(error)}`,
-        ),
-      );
-      process.exit(1);
+      reportError(error);
     }
   });
 
@@ -119,14 +236,9 @@ ConnectCommand.command("use <name>")
       await config.setDefaultByName(name);
       const conn = await config.getConnection(name);
       console.log(pc.green(`✓ Default connection set to "${name}"`));
-      console.log(pc.dim(`  ${conn?.url}`));
+      console.log(pc.dim(`  ${redactUrl(conn?.url ?? "")}`));
     } catch (error) {
-      console.error(
-        pc.red(
-          `Error: ${error instanceof Error ? error.message : String(error)}`,
-        ),
-      );
-      process.exit(1);
+      reportError(error);
     }
   });
 
@@ -140,11 +252,50 @@ ConnectCommand.command("remove <name>")
       await config.removeConnection(name);
       console.log(pc.green(`✓ Removed connection "${name}"`));
     } catch (error) {
-      console.error(
-        pc.red(
-          `Error: ${error instanceof Error ? error.message : String(error)}`,
-        ),
-      );
-      process.exit(1);
+      reportError(error);
+    }
+  });
+
+ConnectCommand.command("encrypt")
+  .description("Encrypt stored credentials with a passphrase")
+  .action(async () => {
+    try {
+      // An already-encrypted file is unlocked with $SILLON_PASSPHRASE
+      const store = new CredentialStore();
+      let passphrase = process.env.SILLON_PASSPHRASE;
+      if (process.stdin.isTTY) {
+        passphrase = await promptSecret("New passphrase: ");
+        const repeated = await promptSecret("Repeat passphrase: ");
+        if (passphrase !== repeated) throw new Error("Passphrases differ");
+      }
+      if (!passphrase) {
+        throw new Error("A passphrase is required (or set SILLON_PASSPHRASE)");
+      }
+
+      await store.encrypt(passphrase);
+      console.log(pc.green("✓ Credentials encrypted"));
+      console.log(pc.dim(`  ${store.getPath()}`));
+      console.log(pc.dim("  Set SILLON_PASSPHRASE to unlock them"));
+    } catch (error) {
+      reportError(error);
+    }
+  });
+
+ConnectCommand.command("decrypt")
+  .description("Store credentials unencrypted again (file stays 0600)")
+  .action(async () => {
+    try {
+      if (!(await new CredentialStore().isEncrypted())) {
+        console.log(pc.yellow("Credentials are not encrypted"));
+        return;
+      }
+      const passphrase =
+        process.env.SILLON_PASSPHRASE || (await promptSecret("Passphrase: "));
+      const store = new CredentialStore(undefined, { passphrase });
+      await store.decrypt();
+      console.log(pc.green("✓ Credentials decrypted"));
+      console.log(pc.dim(`  ${store.getPath()}`));
+    } catch (error) {
+      reportError(error);
     }
   });
@@ -1,7 +1,12 @@
 import { Command } from "commander";
 import pc from "picocolors";
 import { ConfigManager } from "../lib/config.js";
-import { CouchClient } from "../lib/couch-client.js";
+import { CouchClient, CouchError } from "../lib/couch-client.js";
+import { createDump, loadDump, readDump } from "../lib/dump.js";
+import { exit, reportError } from "../lib/errors.js";
+import { isInteractive, printStructured } from "../lib/output.js";
+import { pick } from "../lib/picker.js";
+import { getSession } from "../lib/session.js";
 
 export const DbCommand = new Command("db").description("Database operations");
 
@@ -34,38 +39,59 @@ async function getClient(): Promise<{
   client: CouchClient;
   config: ConfigManager;
 }> {
+  const session = getSession();
+  if (session) return { client: session.client, config: new ConfigManager() };
   const config = new ConfigManager();
   const conn = await config.getActiveConnection();
-  return { client: new CouchClient(conn.url), config };
+  return { client: new CouchClient(conn.url, conn.options), config };
 }
 
 // ── list ──────────────────────────────────────────────────────────────────────
 
+/** Plain-text summary of a database for the picker's preview pane. */
+async function dbPreview(client: CouchClient, name: string): Promise<string> {
+  const info = await client.getDatabaseInfo(name);
+  return [
+    name,
+    "",
+    `Documents:     ${info.doc_count}`,
+    `Deleted:       ${info.doc_del_count}`,
+    `Size (active): ${formatBytes(info.sizes?.active ?? 0)}`,
+    `Update seq:    ${String(info.update_seq).split("-")[0]}`,
+    info.props?.partitioned ? "Type:          partitioned" : "",
+  ].join("\n");
+}
+
 DbCommand.command("list")
-  .description("List all databases")
+  .description("List all databases (on a terminal, pick one to use)")
   .option("--json", "Output as JSON")
+  .option("--no-interactive", "Print the list instead of opening the picker")
   .action(async (options) => {
     try {
-      const { client } = await getClient();
+      const { client, config } = await getClient();
       const dbs = await client.listDatabases();
 
-      if (options.json) {
-        console.log(JSON.stringify(dbs, null, 2));
+      if (options.interactive && isInteractive(options)) {
+        const picked = await pick(dbs, {
+          prompt: "db",
+          preview: (db) => dbPreview(client, db),
+          hint: "enter: use database · esc: cancel",
+        });
+        if (!picked) return;
+        await config.setCurrentDb(picked.item);
+        console.log(pc.green(`✓ Current database set to "${picked.item}"`));
         return;
       }
 
+      if (printStructured(dbs, options)) return;
+
       console.log(pc.cyan("📁 Databases:"));
       for (const db of dbs) {
         console.log(`  ${pc.blue("▸")} ${db}`);
       }
       console.log(pc.dim(`\nTotal: ${dbs.length} databases`));
     } catch (error) {
-      console.error(
-        pc.red(
-          `Error: ${error instanceof Error ? error.message : String(error)}`,
-        ),
-      );
-      process.exit(1);
+      reportError(error);
     }
   });
 
@@ -77,18 +103,17 @@ DbCommand.command("create <name>")
   .action(async (name: string, options) => {
     try {
       const { client } = await getClient();
-      await client.createDatabase(name, { partitioned: options.partitioned });
+      const result = await client.createDatabase(name, {
+        partitioned: options.partitioned,
+      });
+      if (printStructured(result)) return;
+
       console.log(pc.green(`✓ Created database "${name}"`));
       if (options.partitioned) {
         console.log(pc.dim("  (partitioned)"));
       }
     } catch (error) {
-      console.error(
-        pc.red(
-          `Error: ${error instanceof Error ? error.message : String(error)}`,
-        ),
-      );
-      process.exit(1);
+      reportError(error);
     }
   });
 
@@ -114,15 +139,11 @@ DbCommand.command("delete <name>")
 
     try {
       const { client } = await getClient();
-      await client.deleteDatabase(name);
+      const result = await client.deleteDatabase(name);
+      if (printStructured(result)) return;
       console.log(pc.green(`✓ Deleted database "${name}"`));
     } catch (error) {
-      console.error(
-        pc.red(
-          `Error: ${error instanceof Error ? error.message : String(error)}`,
-        ),
-      );
-      process.exit(1);
+      reportError(error);
     }
   });
 
@@ -147,11 +168,7 @@ DbCommand.command("info [name]")
     try {
       const { client } = await getClient();
       const info = await client.getDatabaseInfo(name);
-
-      if (options?.json) {
-        console.log(JSON.stringify(info, null, 2));
-        return;
-      }
+      if (printStructured(info, options)) return;
 
       console.log(pc.cyan(`📊 Database: ${pc.bold(name)}`));
       console.log(`  ${pc.dim("Documents:")}       ${info.doc_count}`);
@@ -168,12 +185,7 @@ DbCommand.command("info [name]")
         console.log(`  ${pc.dim("Type:")}            partitioned`);
       }
     } catch (error) {
-      console.error(
-        pc.red(
-          `Error: ${error instanceof Error ? error.message : String(error)}`,
-        ),
-      );
-      process.exit(1);
+      reportError(error);
     }
   });
 
@@ -187,6 +199,7 @@ DbCommand.command("use [name]")
     if (!name) {
       // Show current
       const current = await config.getCurrentDb();
+      if (printStructured({ currentDb: current ?? null })) return;
       if (current) {
         console.log(`${pc.green("●")} Current database: ${pc.cyan(current)}`);
       } else {
@@ -201,14 +214,10 @@ DbCommand.command("use [name]")
       const { client } = await getClient();
       await client.getDatabaseInfo(name);
       await config.setCurrentDb(name);
+      if (printStructured({ currentDb: name })) return;
       console.log(pc.green(`✓ Current database set to "${name}"`));
     } catch (error) {
-      console.error(
-        pc.red(
-          `Error: ${error instanceof Error ? error.message : String(error)}`,
-        ),
-      );
-      process.exit(1);
+      reportError(error);
     }
   });
 
@@ -223,26 +232,24 @@ DbCommand.command("compact <name>")
     try {
       const { client } = await getClient();
 
+      const result = options.ddoc
+        ? await client.compactView(name, options.ddoc)
+        : await client.compact(name);
+      if (printStructured(result)) return;
+
       if (options.ddoc) {
-        await client.compactView(name, options.ddoc);
         console.log(
           pc.green(
             `✓ View compaction started for "${name}/_design/${options.ddoc}"`,
           ),
         );
       } else {
-        await client.compact(name);
         console.log(pc.green(`✓ Compaction started for "${name}"`));
       }
 
       console.log(pc.dim("  Compaction runs in the background."));
     } catch (error) {
-      console.error(
-        pc.red(
-          `Error: ${error instanceof Error ? error.message : String(error)}`,
-        ),
-      );
-      process.exit(1);
+      reportError(error);
     }
   });
 
@@ -253,15 +260,170 @@ DbCommand.command("view-cleanup <name>")
   .action(async (name: string) => {
     try {
       const { client } = await getClient();
-      await client.viewCleanup(name);
+      const result = await client.viewCleanup(name);
+      if (printStructured(result)) return;
       console.log(pc.green(`✓ View cleanup started for "${name}"`));
       console.log(pc.dim("  Cleanup runs in the background."));
     } catch (error) {
-      console.error(
-        pc.red(
-          `Error: ${error instanceof Error ? error.message : String(error)}`,
-        ),
-      );
-      process.exit(1);
+      reportError(error);
+    }
+  });
+
+// ── dump ──────────────────────────────────────────────────────────────────────
+
+DbCommand.command("dump <name>")
+  .description("Back up a database (docs, design docs, _security) to NDJSON")
+  .option(
+    "--file <path>",
+    "Archive path, or - for stdout (default: <name>-<date>.ndjson.gz)",
+  )
+  .addHelpText(
+    "after",
+    "\nThe archive path used to be -o/--output, which is now the global output\nformat flag: pass the path as --file.",
+  )
+  .option("--attachments", "Include attachment bodies (base64, larger dump)")
+  .option("--no-gzip", "Write plain NDJSON instead of gzip")
+  .option("--page-size <n>", "Documents per _all_docs request", "1000")
+  .option("-q, --quiet", "Don't report progress")
+  .action(async (name: string, options) => {
+    const toStdout = options.file === "-";
+    const ext = options.gzip ? "ndjson.gz" : "ndjson";
+    const date = new Date().toISOString().slice(0, 10);
+    const output: string =
+      options.file ?? `${name.replace(/\//g, "_")}-${date}.${ext}`;
+    // Keep stdout clean for the archive itself
+    const log = toStdout ? console.error : console.log;
+    const showProgress = !options.quiet && process.stderr.isTTY;
+
+    try {
+      const { client } = await getClient();
+      let dumped = 0;
+      const archive = await createDump(client, name, {
+        pageSize: Number.parseInt(options.pageSize, 10),
+        attachments: options.attachments ?? false,
+        gzip: options.gzip,
+        onProgress: ({ docs, total }) => {
+          dumped = docs;
+          if (!showProgress) return;
+          const pct =
+            total > 0 ? Math.min(100, Math.round((docs / total) * 100)) : 100;
+          process.stderr.write(
+            `\r${pc.dim("  dumping")} ${docs}/${total} docs (${pct}%)`,
+          );
+        },
+      });
+
+      const body = new Response(archive);
+      const bytes = toStdout
+        ? await Bun.write(Bun.stdout, body)
+        : await Bun.write(output, body);
+      if (showProgress) process.stderr.write("\n");
+
+      if (options.quiet) return;
+      const summary = { db: name, docs: dumped, file: output, bytes };
+      if (!toStdout && printStructured(summary)) return;
+
+      log(pc.green(`✓ Dumped ${dumped} documents from "${name}"`));
+      if (!toStdout) log(pc.dim(`  ${output} (${formatBytes(bytes)})`));
+    } catch (error) {
+      reportError(error);
+    }
+  });
+
+// ── load ──────────────────────────────────────────────────────────────────────
+
+DbCommand.command("load <name> <file>")
+  .description(
+    "Load documents from NDJSON (e.g. a db dump, gzipped or not) or a JSON array; - reads stdin",
+  )
+  .option("--batch-size <n>", "Documents per _bulk_docs request", "500")
+  .option("--concurrency <n>", "Parallel _bulk_docs requests", "2")
+  .option(
+    "--new-edits <bool>",
+    "false keeps each document's _rev (default: false for a db dump made with --attachments, else true)",
+  )
+  .option("--create", "Create the database if it does not exist")
+  .option("--no-security", "Don't restore _security from a dump header")
+  .option("--errors <file>", "Write failed documents to this NDJSON report")
+  .option("-q, --quiet", "Don't report progress")
+  .action(async (name: string, file: string, options) => {
+    const showProgress = !options.quiet && process.stderr.isTTY;
+    const newEdits =
+      options.newEdits === undefined ? undefined : options.newEdits !== "false";
+
+    try {
+      const { client } = await getClient();
+
+      if (options.create) {
+        try {
+          await client.getDatabaseInfo(name);
+        } catch (error) {
+          if (!(error instanceof CouchError && error.status === 404))
+            throw error;
+          await client.createDatabase(name);
+          if (!options.quiet)
+            console.log(pc.dim(`  Created database "${name}"`));
+        }
+      }
+
+      const input = file === "-" ? Bun.stdin.stream() : Bun.file(file).stream();
+      const report = options.errors
+        ? Bun.file(options.errors).writer()
+        : undefined;
+      let conflicts = 0;
+
+      const result = await loadDump(client, name, readDump(input), {
+        batchSize: Number.parseInt(options.batchSize, 10),
+        concurrency: Number.parseInt(options.concurrency, 10),
+        newEdits,
+        onProgress: ({ read, written, failed }) => {
+          if (!showProgress) return;
+          process.stderr.write(
+            `\r${pc.dim("  loading")} ${written}/${read} docs, ${failed} failed`,
+          );
+        },
+        onFailure: (failure) => {
+          if (failure.error === "conflict") conflicts++;
+          report?.write(`${JSON.stringify(failure)}\n`);
+        },
+      });
+      await report?.end();
+      if (showProgress) process.stderr.write("\n");
+
+      if (result.header?.security && options.security) {
+        await client.putSecurity(name, result.header.security);
+      }
+
+      const { header: _header, ...counts } = result;
+      if (!options.quiet && !printStructured({ db: name, ...counts })) {
+        const color = result.failed > 0 ? pc.yellow : pc.green;
+        console.log(
+          color(
+            `✓ Loaded ${result.written} of ${result.read} documents into "${name}"`,
+          ),
+        );
+        if (result.header?.security && options.security) {
+          console.log(pc.dim("  Restored _security"));
+        }
+        if (result.failed > 0) {
+          console.log(pc.yellow(`  ${result.failed} failed`));
+          if (options.errors)
+            console.log(pc.dim(`  Report: ${options.errors}`));
+          else
+            console.log(
+              pc.dim("  Use --errors <file> for a per-document report"),
+            );
+        }
+        if (conflicts > 0 && newEdits === true && result.header) {
+          console.log(
+            pc.dim(
+              "  Conflicts? --new-edits=false keeps the revisions from a dump",
+            ),
+          );
+        }
+      }
+      if (result.failed > 0) exit(1);
+    } catch (error) {
+      reportError(error);
     }
   });
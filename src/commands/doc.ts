@@ -1,8 +1,45 @@
+import { basename } from "node:path";
 import { Command } from "commander";
 import { unlink } from "fs/promises";
 import pc from "picocolors";
 import { ConfigManager } from "../lib/config.js";
-import { CouchClient, type Document } from "../lib/couch-client.js";
+import {
+  type AllDocsRow,
+  CouchClient,
+  CouchError,
+  type Document,
+} from "../lib/couch-client.js";
+import { parseColumns, writeTable } from "../lib/csv.js";
+import { diffJson, diffLines } from "../lib/diff.js";
+import { exit, reportError } from "../lib/errors.js";
+import {
+  FIELD_TYPES,
+  type FieldType,
+  type ImportFormat,
+  detectFormat,
+  importDocuments,
+  parsePairs,
+  readRecords,
+  toDocuments,
+  withExistingRevs,
+} from "../lib/import.js";
+import {
+  type Column,
+  type OutputOptions,
+  exportDelimiter,
+  isInteractive,
+  preview,
+  printStructured,
+  printTable,
+} from "../lib/output.js";
+import { type Picked, pick } from "../lib/picker.js";
+import {
+  REVISION_FIELDS,
+  getLeaves,
+  getRevisionHistory,
+  lastLiveRevision,
+} from "../lib/revisions.js";
+import { getSession } from "../lib/session.js";
 
 export const DocCommand = new Command("doc").description("Document operations");
 
@@ -20,9 +57,11 @@ async function resolveDb(arg?: string): Promise<string> {
 }
 
 async function getClient(): Promise<CouchClient> {
+  const session = getSession();
+  if (session) return session.client;
   const config = new ConfigManager();
   const conn = await config.getActiveConnection();
-  return new CouchClient(conn.url);
+  return new CouchClient(conn.url, conn.options);
 }
 
 /** Read all stdin as a string. Errors if stdin is a TTY (nothing piped). */
@@ -55,7 +94,7 @@ async function confirm(question: string): Promise<boolean> {
 }
 
 /** Open content in $EDITOR via a temp file. Returns the edited string. */
-async function editInEditor(content: string): Promise<string> {
+export async function editInEditor(content: string): Promise<string> {
   const tmpPath = `/tmp/sillon-edit-${Date.now()}.json`;
   await Bun.write(tmpPath, content);
 
@@ -82,20 +121,146 @@ async function editInEditor(content: string): Promise<string> {
   return edited.trim();
 }
 
+/** Pick a document id from `db` with the fuzzy finder, previewing bodies. */
+function pickDocument(
+  client: CouchClient,
+  db: string,
+  range: { limit?: number; skip?: number; descending?: boolean } = {},
+  accept: string[] = [],
+  hint?: string,
+): Promise<Picked<string> | undefined> {
+  // Ids stream in page by page while the user types
+  const ids = async function* () {
+    for await (const page of client.paginateAllDocs(db, range)) {
+      yield page.map((row) => row.id);
+    }
+  };
+  return pick(ids(), {
+    prompt: db,
+    preview: async (id) =>
+      JSON.stringify(await client.getDocument(db, id), null, 2),
+    accept,
+    hint,
+  });
+}
+
+async function showDocument(
+  client: CouchClient,
+  db: string,
+  id: string,
+  options: OutputOptions = {},
+): Promise<void> {
+  const doc = await client.getDocument(db, id);
+  if (printStructured(doc, options)) return;
+  // Pretty JSON is also the human view: it's the canonical format for a doc
+  console.log(JSON.stringify(doc, null, 2));
+}
+
+async function editDocument(
+  client: CouchClient,
+  db: string,
+  id: string,
+): Promise<void> {
+  // Fetch current document
+  const doc = await client.getDocument(db, id);
+  const original = JSON.stringify(doc, null, 2);
+
+  // Launch editor
+  const edited = await editInEditor(original);
+
+  if (edited === original) {
+    console.log(pc.dim("No changes made."));
+    return;
+  }
+
+  let updatedDoc: Record<string, unknown>;
+  try {
+    updatedDoc = JSON.parse(edited);
+  } catch {
+    throw new Error("Invalid JSON after editing — document not saved");
+  }
+
+  // Preserve _id / _rev from original if not present in edited version
+  if (!updatedDoc._id) updatedDoc._id = doc._id;
+  if (!updatedDoc._rev) updatedDoc._rev = doc._rev;
+
+  const result = await client.putDocument(db, updatedDoc as Document);
+  if (printStructured(result)) return;
+  console.log(pc.green(`✓ Document updated`));
+  console.log(`  ${pc.dim("id:")}  ${result.id}`);
+  console.log(`  ${pc.dim("rev:")} ${result.rev}`);
+}
+
 // ── list ──────────────────────────────────────────────────────────────────────
 
 DocCommand.command("list [db]")
-  .description("List documents in a database")
+  .description("List documents in a database (on a terminal, pick one)")
   .option("--limit <n>", "Max number of results")
   .option("--skip <n>", "Documents to skip")
   .option("--descending", "Reverse order")
   .option("--include-docs", "Include full document bodies")
   .option("--json", "Output as JSON")
+  .option(
+    "--format <format>",
+    "Export every document as csv or tsv (pages through _all_docs)",
+  )
+  .option(
+    "--columns <columns>",
+    "Comma-separated columns for --format, e.g. _id,address.city",
+  )
+  .option("--no-interactive", "Print the list instead of opening the picker")
   .action(async (db?: string, options?) => {
     try {
+      const delimiter = exportDelimiter(options);
       const name = await resolveDb(db);
       const client = await getClient();
 
+      if (delimiter) {
+        const pages = client.paginateAllDocs(name, {
+          limit: options.limit ? Number.parseInt(options.limit, 10) : undefined,
+          skip: options.skip ? Number.parseInt(options.skip, 10) : undefined,
+          descending: !!options.descending,
+          include_docs: !!options.includeDocs,
+        });
+        // Without bodies each row is just the id and current rev
+        const records = async function* () {
+          for await (const page of pages) {
+            yield page.map(
+              (row) => row.doc ?? { _id: row.id, _rev: row.value.rev },
+            );
+          }
+        };
+        await writeTable(records(), {
+          delimiter,
+          columns: options.columns ? parseColumns(options.columns) : undefined,
+          write: (chunk) => process.stdout.write(chunk),
+        });
+        return;
+      }
+
+      if (options.interactive && isInteractive(options)) {
+        const picked = await pickDocument(
+          client,
+          name,
+          {
+            limit: options.limit
+              ? Number.parseInt(options.limit, 10)
+              : undefined,
+            skip: options.skip ? Number.parseInt(options.skip, 10) : undefined,
+            descending: !!options.descending,
+          },
+          ["ctrl-e"],
+          "enter: show · ctrl-e: edit in $EDITOR · esc: cancel",
+        );
+        if (!picked) return;
+        if (picked.key === "ctrl-e") {
+          await editDocument(client, name, picked.item);
+        } else {
+          await showDocument(client, name, picked.item, options);
+        }
+        return;
+      }
+
       const result = await client.getAllDocs(name, {
         limit: options.limit ? Number.parseInt(options.limit, 10) : undefined,
         skip: options.skip ? Number.parseInt(options.skip, 10) : undefined,
@@ -103,10 +268,7 @@ DocCommand.command("list [db]")
         include_docs: !!options.includeDocs,
       });
 
-      if (options.json) {
-        console.log(JSON.stringify(result, null, 2));
-        return;
-      }
+      if (printStructured(result, options, result.rows)) return;
 
       const rows = result.rows.filter((r) => !r.value.deleted);
       console.log(
@@ -118,25 +280,23 @@ DocCommand.command("list [db]")
         return;
       }
 
-      for (const row of rows) {
-        const rev = pc.dim(`rev: ${row.value.rev.slice(0, 10)}…`);
-        console.log(`  ${pc.blue("▸")} ${row.id}  ${rev}`);
-        if (options.includeDocs && row.doc) {
-          const keys = Object.keys(row.doc).filter((k) => !k.startsWith("_"));
-          if (keys.length > 0) {
-            const preview = keys
-              .slice(0, 4)
-              .map(
-                (k) =>
-                  `${k}: ${JSON.stringify(row.doc![k as keyof typeof row.doc]).slice(0, 20)}`,
-              )
-              .join(", ");
-            console.log(
-              `    ${pc.dim("{ " + preview + (keys.length > 4 ? ", …" : "") + " }")}`,
-            );
-          }
-        }
+      const columns: Column<AllDocsRow>[] = [
+        { header: "ID", value: (row) => row.id },
+        {
+          header: "REV",
+          value: (row) => row.value.rev,
+          max: 12,
+          color: pc.dim,
+        },
+      ];
+      if (options.includeDocs) {
+        columns.push({
+          header: "DOC",
+          value: (row) => (row.doc ? preview(row.doc) : ""),
+          color: pc.dim,
+        });
       }
+      printTable(rows, columns);
 
       if (result.rows.length < result.total_rows) {
         const shown = result.rows.length;
@@ -147,34 +307,34 @@ DocCommand.command("list [db]")
         );
       }
     } catch (error) {
-      console.error(
-        pc.red(
-          `Error: ${error instanceof Error ? error.message : String(error)}`,
-        ),
-      );
-      process.exit(1);
+      reportError(error);
     }
   });
 
 // ── get ───────────────────────────────────────────────────────────────────────
 
-DocCommand.command("get <id> [db]")
-  .description("Get a document by ID")
+DocCommand.command("get [id] [db]")
+  .description("Get a document by ID (on a terminal, pick one if omitted)")
   .option("--json", "Output as JSON (default)")
-  .action(async (id: string, db?: string, _options?) => {
+  .action(async (id?: string, db?: string, options?) => {
     try {
       const name = await resolveDb(db);
       const client = await getClient();
-      const doc = await client.getDocument(name, id);
-      // Always pretty-print JSON — it's the canonical format for a doc
-      console.log(JSON.stringify(doc, null, 2));
+
+      let docId = id;
+      if (!docId) {
+        if (!isInteractive(options)) {
+          throw new Error(
+            "No document ID given.\n  Pass one, or run on a terminal to pick it",
+          );
+        }
+        const picked = await pickDocument(client, name);
+        if (!picked) return;
+        docId = picked.item;
+      }
+      await showDocument(client, name, docId, options);
     } catch (error) {
-      console.error(
-        pc.red(
-          `Error: ${error instanceof Error ? error.message : String(error)}`,
-        ),
-      );
-      process.exit(1);
+      reportError(error);
     }
   });
 
@@ -216,21 +376,13 @@ DocCommand.command("put [db]")
         result = await client.createDocument(name, doc);
       }
 
-      if (options.json) {
-        console.log(JSON.stringify(result, null, 2));
-        return;
-      }
+      if (printStructured(result, options)) return;
 
       console.log(pc.green(`✓ Document saved`));
       console.log(`  ${pc.dim("id:")}  ${result.id}`);
       console.log(`  ${pc.dim("rev:")} ${result.rev}`);
     } catch (error) {
-      console.error(
-        pc.red(
-          `Error: ${error instanceof Error ? error.message : String(error)}`,
-        ),
-      );
-      process.exit(1);
+      reportError(error);
     }
   });
 
@@ -242,41 +394,9 @@ DocCommand.command("edit <id> [db]")
     try {
       const name = await resolveDb(db);
       const client = await getClient();
-
-      // Fetch current document
-      const doc = await client.getDocument(name, id);
-      const original = JSON.stringify(doc, null, 2);
-
-      // Launch editor
-      const edited = await editInEditor(original);
-
-      if (edited === original) {
-        console.log(pc.dim("No changes made."));
-        return;
-      }
-
-      let updatedDoc: Record<string, unknown>;
-      try {
-        updatedDoc = JSON.parse(edited);
-      } catch {
-        throw new Error("Invalid JSON after editing — document not saved");
-      }
-
-      // Preserve _id / _rev from original if not present in edited version
-      if (!updatedDoc._id) updatedDoc._id = doc._id;
-      if (!updatedDoc._rev) updatedDoc._rev = doc._rev;
-
-      const result = await client.putDocument(name, updatedDoc as Document);
-      console.log(pc.green(`✓ Document updated`));
-      console.log(`  ${pc.dim("id:")}  ${result.id}`);
-      console.log(`  ${pc.dim("rev:")} ${result.rev}`);
+      await editDocument(client, name, id);
     } catch (error) {
-      console.error(
-        pc.red(
-          `Error: ${error instanceof Error ? error.message : String(error)}`,
-        ),
-      );
-      process.exit(1);
+      reportError(error);
     }
   });
 
@@ -304,15 +424,11 @@ DocCommand.command("delete <id> [db]")
         }
       }
 
-      await client.deleteDocument(name, id, doc._rev!);
+      const result = await client.deleteDocument(name, id, doc._rev!);
+      if (printStructured(result)) return;
       console.log(pc.green(`✓ Deleted "${id}"`));
     } catch (error) {
-      console.error(
-        pc.red(
-          `Error: ${error instanceof Error ? error.message : String(error)}`,
-        ),
-      );
-      process.exit(1);
+      reportError(error);
     }
   });
 
@@ -343,13 +459,11 @@ DocCommand.command("purge <id> [db]")
         revs = [doc._rev];
       }
 
-      console.log(pc.yellow(`⚠️  Purge permanently removes revision history.`));
+      console.error(
+        pc.yellow(`⚠️  Purge permanently removes revision history.`),
+      );
       const result = await client.purge(name, { [id]: revs });
-
-      if (options.json) {
-        console.log(JSON.stringify(result, null, 2));
-        return;
-      }
+      if (printStructured(result, options)) return;
 
       const purgedRevs = result.purged?.[id] ?? [];
       if (purgedRevs.length > 0) {
@@ -363,12 +477,253 @@ DocCommand.command("purge <id> [db]")
         console.log(pc.dim(`No revisions purged for "${id}"`));
       }
     } catch (error) {
-      console.error(
-        pc.red(
-          `Error: ${error instanceof Error ? error.message : String(error)}`,
-        ),
+      reportError(error);
+    }
+  });
+
+// ── history ───────────────────────────────────────────────────────────────────
+
+DocCommand.command("history <id> [db]")
+  .description(
+    "List every known revision of a document (deleted docs and conflict branches too)",
+  )
+  .action(async (id: string, db?: string) => {
+    try {
+      const name = await resolveDb(db);
+      const client = await getClient();
+
+      const history = await getRevisionHistory(client, name, id);
+      if (printStructured(history)) return;
+
+      console.log(
+        pc.cyan(`📜 "${id}" in "${name}" (${history.length} revisions)`),
       );
-      process.exit(1);
+      printTable(history, [
+        { header: "REV", value: (entry) => entry.rev },
+        {
+          header: "STATUS",
+          value: (entry) => entry.status,
+          // Cells arrive padded to the column width
+          color: (text) =>
+            text.startsWith("available")
+              ? pc.green(text)
+              : text.startsWith("deleted")
+                ? pc.red(text)
+                : pc.dim(text),
+        },
+        {
+          header: "",
+          value: (entry) =>
+            entry.winner ? "winner" : entry.leaf ? "conflict" : "",
+          color: pc.yellow,
+        },
+      ]);
+
+      if (history.some((entry) => entry.status === "missing")) {
+        console.log(
+          pc.dim(
+            "\n  Missing revisions were removed by compaction; only their ids remain.",
+          ),
+        );
+      }
+    } catch (error) {
+      reportError(error);
+    }
+  });
+
+// ── diff ──────────────────────────────────────────────────────────────────────
+
+interface DiffSide {
+  client: CouchClient;
+  db: string;
+  rev?: string;
+  connection?: string;
+}
+
+/** Fetch one side of a diff, explaining a compacted revision. */
+async function fetchSide(side: DiffSide, id: string): Promise<Document> {
+  try {
+    return await side.client.getDocument(side.db, id, { rev: side.rev });
+  } catch (error) {
+    if (side.rev && error instanceof CouchError && error.status === 404) {
+      throw new Error(
+        `Revision ${side.rev} of "${id}" is not available in "${side.db}" (compacted, or never existed)\n  See: sillon doc history ${id} ${side.db}`,
+      );
+    }
+    throw error;
+  }
+}
+
+function sideLabel(side: DiffSide, id: string, doc: Document): string {
+  const where = side.connection ? `${side.connection}:${side.db}` : side.db;
+  return `${where}/${id} @ ${doc._rev}`;
+}
+
+DocCommand.command("diff <id> [revA] [revB]")
+  .description(
+    "Show a structural diff of a document between two revisions, databases or connections",
+  )
+  .option("--db <db>", "Database to read from (default: current)")
+  .option("--to <db>", "Compare with the same id in this database")
+  .option(
+    "--to-conn <name>",
+    "Compare with the same id on this saved connection (same db unless --to)",
+  )
+  .addHelpText(
+    "after",
+    `
+Without revisions the current ones are compared; revB defaults to the
+current revision when only revA is given.
+
+Examples:
+  sillon doc diff user:1 3-a1f 5-c09          # two revisions
+  sillon doc diff user:1 3-a1f                # revision 3 → current
+  sillon doc diff user:1 --to users_archive   # across databases
+  sillon doc diff user:1 --to-conn prod       # across connections`,
+  )
+  .action(async (id: string, revA?: string, revB?: string, options?) => {
+    try {
+      const name = await resolveDb(options.db);
+      const client = await getClient();
+      const across = !!(options.to || options.toConn);
+      if (!across && !revA) {
+        throw new Error(
+          "Nothing to compare.\n  Pass <revA> [revB], or --to / --to-conn to compare across databases",
+        );
+      }
+
+      let other = client;
+      if (options.toConn) {
+        const conn = await new ConfigManager().getConnection(options.toConn);
+        if (!conn) throw new Error(`No connection named "${options.toConn}"`);
+        other = new CouchClient(conn.url, conn.options);
+      }
+      const left: DiffSide = { client, db: name, rev: revA };
+      const right: DiffSide = {
+        client: other,
+        db: options.to ?? name,
+        rev: revB,
+        connection: options.toConn,
+      };
+
+      const [before, after] = await Promise.all([
+        fetchSide(left, id),
+        fetchSide(right, id),
+      ]);
+      // The revs are in the header; leave them out of the body
+      const { _rev: _a, ...a } = before;
+      const { _rev: _b, ...b } = after;
+      const changes = diffJson(a, b);
+
+      if (
+        printStructured({
+          from: { ...left, client: undefined, rev: before._rev },
+          to: { ...right, client: undefined, rev: after._rev },
+          changes,
+        })
+      ) {
+        return;
+      }
+
+      console.log(pc.red(`--- ${sideLabel(left, id, before)}`));
+      console.log(pc.green(`+++ ${sideLabel(right, id, after)}`));
+      if (changes.length === 0) {
+        console.log(pc.green("✓ No differences"));
+        return;
+      }
+
+      for (const line of diffLines(a, b)) {
+        const key =
+          line.key === undefined ? "" : `${JSON.stringify(line.key)}: `;
+        const text = `${"  ".repeat(line.depth)}${key}${line.text}${line.comma ? "," : ""}`;
+        if (line.sign === "-") console.log(pc.red(`- ${text}`));
+        else if (line.sign === "+") console.log(pc.green(`+ ${text}`));
+        else if (/[…]/.test(line.text)) console.log(pc.dim(`  ${text}`));
+        else console.log(`  ${text}`);
+      }
+      console.log(pc.dim(`\n  ${changes.length} change(s)`));
+    } catch (error) {
+      reportError(error);
+    }
+  });
+
+// ── restore ───────────────────────────────────────────────────────────────────
+
+DocCommand.command("restore <id> [db]")
+  .alias("undelete")
+  .description(
+    "Write an old revision back as the newest one, or undelete a deleted document",
+  )
+  .option(
+    "--rev <rev>",
+    "Revision to restore (default for deleted docs: the last one before deletion)",
+  )
+  .addHelpText(
+    "after",
+    `
+The old body is saved as a new revision on top of the current one, so the
+history stays intact. Revisions removed by compaction can't be restored:
+see which are still available with "sillon doc history <id>".
+
+Examples:
+  sillon doc restore user:1 --rev 3-a1f     # undo a bad edit
+  sillon doc restore user:1                 # bring back a deleted doc`,
+  )
+  .action(async (id: string, db?: string, options?) => {
+    try {
+      const name = await resolveDb(db);
+      const client = await getClient();
+
+      const [current] = await getLeaves(client, name, id);
+      const deleted = !!current?._deleted;
+
+      let source: Document | undefined;
+      if (options.rev) {
+        source = await fetchSide({ client, db: name, rev: options.rev }, id);
+        if (source._deleted) {
+          throw new Error(
+            `Revision ${options.rev} is a deletion; pick an earlier one`,
+          );
+        }
+      } else if (deleted) {
+        source = await lastLiveRevision(client, name, id);
+        if (!source) {
+          throw new Error(
+            `No revision of "${id}" before its deletion is still available (compacted)`,
+          );
+        }
+      } else {
+        throw new Error(
+          `"${id}" is not deleted: pass --rev <rev> to restore an older revision\n  See: sillon doc history ${id} ${name}`,
+        );
+      }
+      if (source._rev === current?._rev) {
+        throw new Error(`${source._rev} is already the current revision`);
+      }
+
+      // Re-read with inline attachments: stubs would point at the wrong rev
+      if (source._attachments) {
+        source = await client.getDocument(name, id, {
+          rev: source._rev,
+          attachments: true,
+        });
+      }
+      const restoredFrom = source._rev as string;
+      const body: Document = { ...source, _id: id };
+      for (const field of REVISION_FIELDS) delete body[field];
+      // Continue from the current leaf, tombstone included
+      if (current?._rev) body._rev = current._rev;
+
+      const result = await client.putDocument(name, body);
+      if (printStructured({ ...result, restored_from: restoredFrom })) return;
+
+      const verb = deleted ? "Undeleted" : "Restored";
+      console.log(
+        pc.green(`✓ ${verb} "${id}" from ${restoredFrom}`) +
+          pc.dim(` (new rev: ${result.rev})`),
+      );
+    } catch (error) {
+      reportError(error);
     }
   });
 
@@ -404,45 +759,380 @@ DocCommand.command("bulk-get [db]")
         include_docs: !!options.includeDocs,
       });
 
-      if (options.json) {
-        console.log(JSON.stringify(result, null, 2));
-        return;
-      }
+      if (printStructured(result, options, result.rows)) return;
 
       console.log(
         pc.cyan(`📦 Bulk fetch "${name}"`) +
           pc.dim(` — ${result.rows.length} row(s)`),
       );
 
-      for (const row of result.rows) {
-        if ("error" in row.value) {
-          console.log(`  ${pc.red("✗")} ${row.id} — ${pc.dim("not found")}`);
-        } else {
-          const rev = pc.dim(`rev: ${row.value.rev.slice(0, 10)}…`);
-          console.log(`  ${pc.blue("▸")} ${row.id}  ${rev}`);
-          if (options.includeDocs && row.doc) {
-            const keys = Object.keys(row.doc).filter((k) => !k.startsWith("_"));
-            if (keys.length > 0) {
-              const preview = keys
-                .slice(0, 4)
-                .map(
-                  (k) =>
-                    `${k}: ${JSON.stringify((row.doc as Record<string, unknown>)[k]).slice(0, 20)}`,
-                )
-                .join(", ");
-              console.log(
-                `    ${pc.dim("{ " + preview + (keys.length > 4 ? ", …" : "") + " }")}`,
-              );
-            }
-          }
+      // Unknown ids come back as { key, error: "not_found" } with no value
+      const columns: Column<AllDocsRow>[] = [
+        { header: "ID", value: (row) => row.id ?? row.key },
+        {
+          header: "REV",
+          value: (row) => row.value?.rev ?? "not found",
+          max: 12,
+          color: pc.dim,
+        },
+      ];
+      if (options.includeDocs) {
+        columns.push({
+          header: "DOC",
+          value: (row) => (row.doc ? preview(row.doc) : ""),
+          color: pc.dim,
+        });
+      }
+      printTable(result.rows, columns);
+    } catch (error) {
+      reportError(error);
+    }
+  });
+
+// ── import ────────────────────────────────────────────────────────────────────
+
+const collect = (value: string, previous: string[] = []) => [
+  ...previous,
+  value,
+];
+
+DocCommand.command("import <db> <file>")
+  .description(
+    "Import documents from CSV, TSV, JSONL or a JSON array; - reads stdin",
+  )
+  .option(
+    "--format <format>",
+    "csv, tsv, jsonl or json (default: from extension)",
+  )
+  .option("--delimiter <char>", "CSV field delimiter")
+  .option("--id <template>", 'Build _id from fields, e.g. "user:{email}"')
+  .option(
+    "--map <column:field>",
+    "Rename a column; dotted fields nest, an empty field drops it (repeatable)",
+    collect,
+  )
+  .option(
+    "--type <field:type>",
+    `Coerce a field: ${FIELD_TYPES.join(", ")} (repeatable)`,
+    collect,
+  )
+  .option(
+    "--infer",
+    "Turn number- and boolean-looking values into numbers and booleans",
+  )
+  .option("--upsert", "Update existing documents instead of conflicting")
+  .option("--dry-run", "Preview the converted documents without writing")
+  .option("--preview <n>", "Documents to show with --dry-run", "5")
+  .option("--batch-size <n>", "Documents per _bulk_docs request", "500")
+  .option("--concurrency <n>", "Parallel _bulk_docs requests", "2")
+  .option("--errors <file>", "Write failed documents to this NDJSON report")
+  .option("-q, --quiet", "Don't report progress")
+  .action(async (db: string, file: string, options) => {
+    const showProgress = !options.quiet && process.stderr.isTTY;
+
+    try {
+      const format = (options.format ?? detectFormat(file)) as
+        | ImportFormat
+        | undefined;
+      if (!format) {
+        throw new Error(
+          `Can't tell the format of "${file}": pass --format csv|tsv|jsonl|json`,
+        );
+      }
+      if (!["csv", "tsv", "jsonl", "json"].includes(format)) {
+        throw new Error(
+          `Unknown format "${format}": use csv, tsv, jsonl or json`,
+        );
+      }
+
+      const types = parsePairs(options.type ?? [], "--type");
+      for (const [field, type] of Object.entries(types)) {
+        if (!FIELD_TYPES.includes(type as FieldType)) {
+          throw new Error(
+            `Unknown type "${type}" for ${field}: use ${FIELD_TYPES.join(", ")}`,
+          );
         }
       }
+      const spec = {
+        idTemplate: options.id,
+        mapping: parsePairs(options.map ?? [], "--map"),
+        types: types as Record<string, FieldType>,
+        infer: !!options.infer,
+      };
+      const batchSize = Number.parseInt(options.batchSize, 10);
+
+      const input = file === "-" ? Bun.stdin.stream() : Bun.file(file).stream();
+      let docs = toDocuments(
+        readRecords(input, format, options.delimiter),
+        spec,
+      );
+
+      // Dry runs without --upsert never touch the server
+      const client =
+        options.upsert || !options.dryRun ? await getClient() : undefined;
+      if (client && options.upsert) {
+        docs = withExistingRevs(client, db, docs, batchSize);
+      }
+
+      if (options.dryRun || !client) {
+        const limit = Number.parseInt(options.preview, 10);
+        const shown: Document[] = [];
+        let total = 0;
+        let updates = 0;
+        for await (const doc of docs) {
+          total++;
+          if (doc._rev) updates++;
+          if (total <= limit) shown.push(doc);
+        }
+        if (printStructured({ total, updates, preview: shown }, {}, shown))
+          return;
+
+        console.log(pc.cyan(`🔍 Dry run: import into "${db}"`));
+        for (const [i, doc] of shown.entries()) {
+          console.log(pc.dim(`  ── record ${i + 1}`));
+          console.log(JSON.stringify(doc, null, 2));
+        }
+        const detail = options.upsert ? ` (${updates} update(s))` : "";
+        console.log(pc.dim(`  ${total} document(s) would be written${detail}`));
+        return;
+      }
+
+      const report = options.errors
+        ? Bun.file(options.errors).writer()
+        : undefined;
+      let conflicts = 0;
+
+      const result = await importDocuments(client, db, docs, {
+        batchSize,
+        concurrency: Number.parseInt(options.concurrency, 10),
+        onProgress: ({ read, written, failed }) => {
+          if (!showProgress) return;
+          process.stderr.write(
+            `\r${pc.dim("  importing")} ${written}/${read} docs, ${failed} failed`,
+          );
+        },
+        onFailure: (failure) => {
+          if (failure.error === "conflict") conflicts++;
+          report?.write(`${JSON.stringify(failure)}\n`);
+        },
+      });
+      await report?.end();
+      if (showProgress) process.stderr.write("\n");
+
+      const { header: _header, ...counts } = result;
+      if (!options.quiet && !printStructured({ db, ...counts })) {
+        const color = result.failed > 0 ? pc.yellow : pc.green;
+        console.log(
+          color(
+            `✓ Imported ${result.written} of ${result.read} documents into "${db}"`,
+          ),
+        );
+        if (result.failed > 0) {
+          console.log(pc.yellow(`  ${result.failed} failed`));
+          if (options.errors)
+            console.log(pc.dim(`  Report: ${options.errors}`));
+          else
+            console.log(
+              pc.dim("  Use --errors <file> for a per-document report"),
+            );
+        }
+        if (conflicts > 0 && !options.upsert) {
+          console.log(
+            pc.dim(
+              "  Conflicts? --upsert updates documents that already exist",
+            ),
+          );
+        }
+      }
+      if (result.failed > 0) exit(1);
     } catch (error) {
+      reportError(error);
+    }
+  });
+
+// ── attach ────────────────────────────────────────────────────────────────────
+
+const AttachCommand = DocCommand.command("attach").description(
+  "Manage document attachments",
+);
+
+function formatBytes(bytes: number): string {
+  if (bytes === 0) return "0 B";
+  const k = 1024;
+  const sizes = ["B", "KB", "MB", "GB"];
+  const i = Math.floor(Math.log(bytes) / Math.log(k));
+  return `${Number.parseFloat((bytes / k ** i).toFixed(2))} ${sizes[i]}`;
+}
+
+/** Current _rev of a document, or undefined if it doesn't exist yet. */
+async function currentRev(
+  client: CouchClient,
+  db: string,
+  id: string,
+): Promise<string | undefined> {
+  try {
+    const doc = await client.getDocument(db, id);
+    return doc._rev;
+  } catch (error) {
+    if (error instanceof CouchError && error.status === 404) return undefined;
+    throw error;
+  }
+}
+
+// attach ls
+
+AttachCommand.command("ls <id> [db]")
+  .alias("list")
+  .description("List attachments on a document")
+  .option("--json", "Output as JSON")
+  .action(async (id: string, db?: string, options?) => {
+    try {
+      const name = await resolveDb(db);
+      const client = await getClient();
+      const attachments = await client.listAttachments(name, id);
+      if (printStructured(attachments, options)) return;
+
+      console.log(
+        pc.cyan(`📎 Attachments on "${id}"`) +
+          pc.dim(` — ${attachments.length} file(s)`),
+      );
+
+      if (attachments.length === 0) {
+        console.log(pc.dim("  (no attachments)"));
+        return;
+      }
+
+      printTable(attachments, [
+        { header: "NAME", value: (att) => att.name },
+        { header: "TYPE", value: (att) => att.content_type, color: pc.dim },
+        {
+          header: "SIZE",
+          value: (att) => formatBytes(att.length),
+          align: "right",
+        },
+      ]);
+    } catch (error) {
+      reportError(error);
+    }
+  });
+
+// attach put
+
+AttachCommand.command("put <id> <file> [db]")
+  .description("Upload a file as an attachment (creates the doc if missing)")
+  .option("--name <name>", "Attachment name (defaults to the file name)")
+  .option(
+    "--content-type <type>",
+    "Content type (inferred from the file extension by default)",
+  )
+  .option("--rev <rev>", "Document revision (defaults to the current _rev)")
+  .option("--json", "Output response as JSON")
+  .action(async (id: string, file: string, db?: string, options?) => {
+    try {
+      const name = await resolveDb(db);
+      const client = await getClient();
+
+      const source = Bun.file(file);
+      if (!(await source.exists())) {
+        throw new Error(`File not found: ${file}`);
+      }
+
+      const attName = (options.name as string | undefined) ?? basename(file);
+      const contentType =
+        (options.contentType as string | undefined) ??
+        (source.type || "application/octet-stream");
+      const rev =
+        (options.rev as string | undefined) ??
+        (await currentRev(client, name, id));
+
+      // Bun.file() bodies are streamed from disk by fetch
+      const result = await client.putAttachment(
+        name,
+        id,
+        attName,
+        source,
+        contentType,
+        rev,
+      );
+
+      if (printStructured(result, options)) return;
+
+      console.log(pc.green(`✓ Attached "${attName}" to "${result.id}"`));
+      console.log(
+        `  ${pc.dim("type:")} ${contentType}, ${formatBytes(source.size)}`,
+      );
+      console.log(`  ${pc.dim("rev:")}  ${result.rev}`);
+    } catch (error) {
+      reportError(error);
+    }
+  });
+
+// attach get
+
+AttachCommand.command("get <id> <name> [db]")
+  .description("Download an attachment to a file or stdout")
+  .option("--file <path>", "Write to a file instead of stdout")
+  .option("--rev <rev>", "Fetch the attachment from a specific revision")
+  .addHelpText(
+    "after",
+    "\nThe file path used to be -o/--output, which is now the global output\nformat flag: pass the path as --file.",
+  )
+  .action(async (id: string, attName: string, db?: string, options?) => {
+    try {
+      const name = await resolveDb(db);
+      const client = await getClient();
+      const response = await client.getAttachment(name, id, attName, {
+        rev: options.rev as string | undefined,
+      });
+
+      // Bun.write streams the response body, so large files never sit in
+      // memory, and waits on a slow pipe rather than buffering ahead of it
+      if (!options.file) {
+        await Bun.write(Bun.stdout, response);
+        return;
+      }
+      const bytes = await Bun.write(options.file as string, response);
       console.error(
-        pc.red(
-          `Error: ${error instanceof Error ? error.message : String(error)}`,
-        ),
+        pc.green(`✓ Saved "${attName}" to ${options.file}`) +
+          pc.dim(` (${formatBytes(bytes)})`),
+      );
+    } catch (error) {
+      reportError(error);
+    }
+  });
+
+// attach rm
+
+AttachCommand.command("rm <id> <name> [db]")
+  .alias("delete")
+  .description("Delete an attachment")
+  .option("-f, --force", "Skip confirmation")
+  .action(async (id: string, attName: string, db?: string, options?) => {
+    try {
+      const name = await resolveDb(db);
+      const client = await getClient();
+      const doc = await client.getDocument(name, id);
+
+      if (!options.force) {
+        const ok = await confirm(
+          pc.yellow(`Delete attachment "${attName}" from "${id}"? [y/N] `),
+        );
+        if (!ok) {
+          console.log(pc.dim("Aborted."));
+          return;
+        }
+      }
+
+      const result = await client.deleteAttachment(
+        name,
+        id,
+        attName,
+        doc._rev as string,
       );
-      process.exit(1);
+      if (printStructured(result)) return;
+      console.log(pc.green(`✓ Deleted attachment "${attName}"`));
+      console.log(`  ${pc.dim("rev:")} ${result.rev}`);
+    } catch (error) {
+      reportError(error);
     }
   });
@@ -2,6 +2,15 @@ import { Command } from "commander";
 import pc from "picocolors";
 import { ConfigManager } from "../lib/config.js";
 import { CouchClient, type MangoQuery } from "../lib/couch-client.js";
+import { parseColumns, writeTable } from "../lib/csv.js";
+import { reportError } from "../lib/errors.js";
+import {
+  exportDelimiter,
+  preview,
+  printStructured,
+  printTable,
+} from "../lib/output.js";
+import { getSession } from "../lib/session.js";
 
 // ── shared helpers ────────────────────────────────────────────────────────────
 
@@ -16,9 +25,11 @@ async function resolveDb(arg?: string): Promise<string> {
 }
 
 async function getClient(): Promise<CouchClient> {
+  const session = getSession();
+  if (session) return session.client;
   const config = new ConfigManager();
   const conn = await config.getActiveConnection();
-  return new CouchClient(conn.url);
+  return new CouchClient(conn.url, conn.options);
 }
 
 /** Read all stdin as a string. Errors if stdin is a TTY. */
@@ -48,8 +59,20 @@ export const FindCommand = new Command("find")
   .option("--bookmark <token>", "Pagination bookmark from a previous response")
   .option("--stats", "Include execution statistics")
   .option("--json", "Output as JSON")
+  .option(
+    "--format <format>",
+    "Export every matching doc as csv or tsv (follows bookmarks)",
+  )
+  .option(
+    "--columns <columns>",
+    "Comma-separated columns for --format, e.g. _id,address.city",
+  )
   .action(async (db?: string, options?) => {
     try {
+      const delimiter = exportDelimiter(options);
+      const columns = options.columns
+        ? parseColumns(options.columns as string)
+        : undefined;
       const name = await resolveDb(db);
       const client = await getClient();
 
@@ -109,13 +132,21 @@ export const FindCommand = new Command("find")
         query.use_index = options.index as string;
       }
 
-      const result = await client.mangoQuery(name, query);
-
-      if (options.json) {
-        console.log(JSON.stringify(result, null, 2));
+      if (delimiter) {
+        // Only fetch the fields that end up in the table
+        if (columns && !query.fields) query.fields = columns;
+        await writeTable(client.paginateMango(name, query), {
+          delimiter,
+          columns,
+          write: (chunk) => process.stdout.write(chunk),
+        });
         return;
       }
 
+      const result = await client.mangoQuery(name, query);
+
+      if (printStructured(result, options, result.docs)) return;
+
       console.log(
         pc.cyan(`🔎 "${name}"`) + pc.dim(` — ${result.docs.length} result(s)`),
       );
@@ -127,24 +158,11 @@ export const FindCommand = new Command("find")
       if (result.docs.length === 0) {
         console.log(pc.dim("  (no results)"));
       } else {
-        for (const doc of result.docs) {
-          const id = doc._id;
-          const rev = doc._rev
-            ? pc.dim(` rev: ${String(doc._rev).slice(0, 10)}…`)
-            : "";
-          console.log(`  ${pc.blue("▸")} ${id}${rev}`);
-
-          const keys = Object.keys(doc).filter((k) => !k.startsWith("_"));
-          if (keys.length > 0) {
-            const preview = keys
-              .slice(0, 4)
-              .map((k) => `${k}: ${JSON.stringify(doc[k]).slice(0, 24)}`)
-              .join(", ");
-            console.log(
-              `    ${pc.dim("{ " + preview + (keys.length > 4 ? ", …" : "") + " }")}`,
-            );
-          }
-        }
+        printTable(result.docs, [
+          { header: "ID", value: (doc) => doc._id },
+          { header: "REV", value: (doc) => doc._rev, max: 12, color: pc.dim },
+          { header: "DOC", value: (doc) => preview(doc), color: pc.dim },
+        ]);
       }
 
       if (result.bookmark) {
@@ -162,12 +180,7 @@ export const FindCommand = new Command("find")
         );
       }
     } catch (error) {
-      console.error(
-        pc.red(
-          `Error: ${error instanceof Error ? error.message : String(error)}`,
-        ),
-      );
-      process.exit(1);
+      reportError(error);
     }
   });
 
@@ -187,37 +200,28 @@ IndexCommand.command("list [db]")
       const name = await resolveDb(db);
       const client = await getClient();
       const result = await client.listIndexes(name);
-
-      if (options.json) {
-        console.log(JSON.stringify(result, null, 2));
-        return;
-      }
+      if (printStructured(result, options, result.indexes)) return;
 
       console.log(pc.cyan(`📇 Indexes in "${name}"`));
       console.log(pc.dim(`  Total: ${result.total_rows}`));
 
-      for (const idx of result.indexes) {
-        const ddocLabel = idx.ddoc
-          ? pc.dim(` (${idx.ddoc})`)
-          : pc.dim(" (special)");
-        const fields = idx.def.fields
-          .map((f) => {
-            const entries = Object.entries(f);
-            return entries.map(([k, dir]) => `${k}:${dir}`).join(", ");
-          })
-          .join(", ");
-
-        console.log(`\n  ${pc.blue("▸")} ${pc.bold(idx.name)}${ddocLabel}`);
-        console.log(`    ${pc.dim("type:")}   ${idx.type}`);
-        console.log(`    ${pc.dim("fields:")} ${fields || "(none)"}`);
-      }
+      printTable(result.indexes, [
+        { header: "NAME", value: (idx) => idx.name, color: pc.bold },
+        { header: "DDOC", value: (idx) => idx.ddoc ?? "(special)" },
+        { header: "TYPE", value: (idx) => idx.type },
+        {
+          header: "FIELDS",
+          value: (idx) =>
+            idx.def.fields
+              .flatMap((f) =>
+                Object.entries(f).map(([k, dir]) => `${k}:${dir}`),
+              )
+              .join(", ") || "(none)",
+          color: pc.dim,
+        },
+      ]);
     } catch (error) {
-      console.error(
-        pc.red(
-          `Error: ${error instanceof Error ? error.message : String(error)}`,
-        ),
-      );
-      process.exit(1);
+      reportError(error);
     }
   });
 
@@ -269,11 +273,7 @@ IndexCommand.command("create [db]")
       }
 
       const result = await client.createIndex(name, indexPayload);
-
-      if (options.json) {
-        console.log(JSON.stringify(result, null, 2));
-        return;
-      }
+      if (printStructured(result, options)) return;
 
       const status =
         result.result === "created"
@@ -282,12 +282,7 @@ IndexCommand.command("create [db]")
       console.log(`${status} index "${result.name}"`);
       console.log(`  ${pc.dim("ddoc:")} ${result.id}`);
     } catch (error) {
-      console.error(
-        pc.red(
-          `Error: ${error instanceof Error ? error.message : String(error)}`,
-        ),
-      );
-      process.exit(1);
+      reportError(error);
     }
   });
 
@@ -302,14 +297,10 @@ IndexCommand.command("delete <ddoc> <name> [db]")
       const client = await getClient();
       // Accept both `_design/foo` and bare `foo`
       const ddocId = ddoc.startsWith("_design/") ? ddoc : `_design/${ddoc}`;
-      await client.deleteIndex(dbName, ddocId, indexName);
+      const result = await client.deleteIndex(dbName, ddocId, indexName);
+      if (printStructured(result)) return;
       console.log(pc.green(`✓ Deleted index "${indexName}" from ${ddocId}`));
     } catch (error) {
-      console.error(
-        pc.red(
-          `Error: ${error instanceof Error ? error.message : String(error)}`,
-        ),
-      );
-      process.exit(1);
+      reportError(error);
     }
   });
@@ -1,7 +1,10 @@
 import { Command } from "commander";
 import pc from "picocolors";
 import { ConfigManager } from "../lib/config.js";
+import { redactUrl } from "../lib/credentials.js";
+import { reportError } from "../lib/errors.js";
 import { LocalRuntime } from "../lib/local-runtime.js";
+import { printStructured } from "../lib/output.js";
 
 export const LocalCommand = new Command("local")
   .description("Manage local CouchDB instance")
@@ -27,7 +30,7 @@ LocalCommand.command("up")
     try {
       const url = await runtime.start();
       console.log(pc.green(`✓ CouchDB ${parentOpts.version} running`));
-      console.log(pc.dim(`  URL:   ${url}`));
+      console.log(pc.dim(`  URL:   ${redactUrl(url)}`));
       console.log(
         pc.dim(`  Admin: ${parentOpts.admin} / ${parentOpts.password}`),
       );
@@ -39,12 +42,7 @@ LocalCommand.command("up")
         console.log(pc.dim("  Saved as default connection"));
       }
     } catch (error) {
-      console.error(
-        pc.red(
-          `Failed to start: ${error instanceof Error ? error.message : String(error)}`,
-        ),
-      );
-      process.exit(1);
+      reportError(error, { label: "Failed to start" });
     }
   });
 
@@ -58,12 +56,7 @@ LocalCommand.command("down")
       await runtime.stop();
       console.log(pc.green("✓ CouchDB stopped"));
     } catch (error) {
-      console.error(
-        pc.red(
-          `Failed to stop: ${error instanceof Error ? error.message : String(error)}`,
-        ),
-      );
-      process.exit(1);
+      reportError(error, { label: "Failed to stop" });
     }
   });
 
@@ -74,14 +67,12 @@ LocalCommand.command("status")
     const runtime = new LocalRuntime();
     const status = await runtime.status();
 
-    if (options.json) {
-      console.log(JSON.stringify(status, null, 2));
-      return;
-    }
+    const url = status.url ? redactUrl(status.url) : status.url;
+    if (printStructured({ ...status, url }, options)) return;
 
     if (status.running) {
       console.log(pc.green("✓ CouchDB is running"));
-      console.log(pc.dim(`  URL:     ${status.url}`));
+      console.log(pc.dim(`  URL:     ${redactUrl(status.url ?? "")}`));
       console.log(pc.dim(`  PID:     ${status.pid}`));
       console.log(pc.dim(`  Version: ${status.version}`));
       console.log(pc.dim(`  Runtime: ${status.runtime}`));
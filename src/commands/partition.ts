@@ -1,7 +1,19 @@
 import { Command } from "commander";
 import pc from "picocolors";
 import { ConfigManager } from "../lib/config.js";
-import { CouchClient, type MangoQuery } from "../lib/couch-client.js";
+import {
+  type AllDocsRow,
+  CouchClient,
+  type MangoQuery,
+} from "../lib/couch-client.js";
+import { reportError } from "../lib/errors.js";
+import {
+  type Column,
+  preview,
+  printStructured,
+  printTable,
+} from "../lib/output.js";
+import { getSession } from "../lib/session.js";
 
 export const PartitionCommand = new Command("partition").description(
   "Partitioned database operations (CouchDB 3.x)",
@@ -20,9 +32,11 @@ async function resolveDb(arg?: string): Promise<string> {
 }
 
 async function getClient(): Promise<CouchClient> {
+  const session = getSession();
+  if (session) return session.client;
   const config = new ConfigManager();
   const conn = await config.getActiveConnection();
-  return new CouchClient(conn.url);
+  return new CouchClient(conn.url, conn.options);
 }
 
 async function readStdin(): Promise<string> {
@@ -55,10 +69,7 @@ PartitionCommand.command("info <partition> [db]")
       const client = await getClient();
       const info = await client.getPartitionInfo(name, partition);
 
-      if (options.json) {
-        console.log(JSON.stringify(info, null, 2));
-        return;
-      }
+      if (printStructured(info, options)) return;
 
       console.log(pc.cyan(`🗂️  Partition: ${pc.bold(partition)} in "${name}"`));
       console.log(`  ${pc.dim("Documents:")}      ${info.doc_count}`);
@@ -70,12 +81,7 @@ PartitionCommand.command("info <partition> [db]")
         `  ${pc.dim("Size (ext):")}     ${formatBytes(info.sizes?.external ?? 0)}`,
       );
     } catch (error) {
-      console.error(
-        pc.red(
-          `Error: ${error instanceof Error ? error.message : String(error)}`,
-        ),
-      );
-      process.exit(1);
+      reportError(error);
     }
   });
 
@@ -104,10 +110,7 @@ PartitionCommand.command("list <partition> [db]")
         include_docs: !!options.includeDocs,
       });
 
-      if (options.json) {
-        console.log(JSON.stringify(result, null, 2));
-        return;
-      }
+      if (printStructured(result, options, result.rows)) return;
 
       const rows = result.rows.filter((r) => !r.value.deleted);
       console.log(
@@ -120,25 +123,23 @@ PartitionCommand.command("list <partition> [db]")
         return;
       }
 
-      for (const row of rows) {
-        const rev = pc.dim(`rev: ${row.value.rev.slice(0, 10)}…`);
-        console.log(`  ${pc.blue("▸")} ${row.id}  ${rev}`);
-        if (options.includeDocs && row.doc) {
-          const keys = Object.keys(row.doc).filter((k) => !k.startsWith("_"));
-          if (keys.length > 0) {
-            const preview = keys
-              .slice(0, 4)
-              .map(
-                (k) =>
-                  `${k}: ${JSON.stringify((row.doc as Record<string, unknown>)[k]).slice(0, 20)}`,
-              )
-              .join(", ");
-            console.log(
-              `    ${pc.dim("{ " + preview + (keys.length > 4 ? ", …" : "") + " }")}`,
-            );
-          }
-        }
+      const columns: Column<AllDocsRow>[] = [
+        { header: "ID", value: (row) => row.id },
+        {
+          header: "REV",
+          value: (row) => row.value.rev,
+          max: 12,
+          color: pc.dim,
+        },
+      ];
+      if (options.includeDocs) {
+        columns.push({
+          header: "DOC",
+          value: (row) => (row.doc ? preview(row.doc) : ""),
+          color: pc.dim,
+        });
       }
+      printTable(rows, columns);
 
       if (result.rows.length < result.total_rows) {
         console.log(
@@ -148,12 +149,7 @@ PartitionCommand.command("list <partition> [db]")
         );
       }
     } catch (error) {
-      console.error(
-        pc.red(
-          `Error: ${error instanceof Error ? error.message : String(error)}`,
-        ),
-      );
-      process.exit(1);
+      reportError(error);
     }
   });
 
@@ -220,10 +216,7 @@ PartitionCommand.command("find <partition> [db]")
 
       const result = await client.partitionFind(name, partition, query);
 
-      if (options.json) {
-        console.log(JSON.stringify(result, null, 2));
-        return;
-      }
+      if (printStructured(result, options, result.docs)) return;
 
       console.log(
         pc.cyan(`🔎 "${name}:${partition}"`) +
@@ -235,34 +228,18 @@ PartitionCommand.command("find <partition> [db]")
       if (result.docs.length === 0) {
         console.log(pc.dim("  (no results)"));
       } else {
-        for (const doc of result.docs) {
-          const rev = doc._rev
-            ? pc.dim(` rev: ${String(doc._rev).slice(0, 10)}…`)
-            : "";
-          console.log(`  ${pc.blue("▸")} ${doc._id}${rev}`);
-          const keys = Object.keys(doc).filter((k) => !k.startsWith("_"));
-          if (keys.length > 0) {
-            const preview = keys
-              .slice(0, 4)
-              .map((k) => `${k}: ${JSON.stringify(doc[k]).slice(0, 24)}`)
-              .join(", ");
-            console.log(
-              `    ${pc.dim("{ " + preview + (keys.length > 4 ? ", …" : "") + " }")}`,
-            );
-          }
-        }
+        printTable(result.docs, [
+          { header: "ID", value: (doc) => doc._id },
+          { header: "REV", value: (doc) => doc._rev, max: 12, color: pc.dim },
+          { header: "DOC", value: (doc) => preview(doc), color: pc.dim },
+        ]);
       }
 
       if (result.bookmark) {
         console.log(pc.dim(`\n  Next page: --bookmark ${result.bookmark}`));
       }
     } catch (error) {
-      console.error(
-        pc.red(
-          `Error: ${error instanceof Error ? error.message : String(error)}`,
-        ),
-      );
-      process.exit(1);
+      reportError(error);
     }
   });
 
@@ -337,10 +314,7 @@ PartitionCommand.command("view <ddoc> <view> <partition> [db]")
           },
         );
 
-        if (options.json) {
-          console.log(JSON.stringify(result, null, 2));
-          return;
-        }
+        if (printStructured(result, options, result.rows)) return;
 
         const total =
           result.total_rows !== undefined
@@ -357,18 +331,13 @@ PartitionCommand.command("view <ddoc> <view> <partition> [db]")
           return;
         }
 
-        for (const row of result.rows) {
-          console.log(
-            `  ${pc.blue("▸")} ${pc.bold(JSON.stringify(row.key))}  ${pc.dim("→")}  ${JSON.stringify(row.value)}`,
-          );
-        }
+        printTable(result.rows, [
+          { header: "KEY", value: (row) => row.key, color: pc.bold },
+          { header: "VALUE", value: (row) => row.value },
+          { header: "ID", value: (row) => row.id, color: pc.dim },
+        ]);
       } catch (error) {
-        console.error(
-          pc.red(
-            `Error: ${error instanceof Error ? error.message : String(error)}`,
-          ),
-        );
-        process.exit(1);
+        reportError(error);
       }
     },
   );
@@ -1,37 +1,122 @@
+import { createInterface } from "node:readline";
 import { Command } from "commander";
 import pc from "picocolors";
 import { ConfigManager } from "../lib/config.js";
-import { CouchClient, type ReplicationJobDoc } from "../lib/couch-client.js";
+import {
+  type ConflictedDoc,
+  type Resolver,
+  SCAN_MODES,
+  STRATEGIES,
+  type ScanProgress,
+  conflictedDocs,
+  documentBody,
+  getConflictRevisions,
+  inlineAttachments,
+  resolutionDocs,
+  resolverFor,
+} from "../lib/conflicts.js";
+import {
+  CouchClient,
+  type Document,
+  type ReplicationJobDoc,
+} from "../lib/couch-client.js";
+import { redactUrl } from "../lib/credentials.js";
+import {
+  type FieldDifference,
+  deepEqual,
+  diffJson,
+  divergentFields,
+} from "../lib/diff.js";
+import { redactEndpoint, resolveEndpoint } from "../lib/endpoints.js";
+import { reportError } from "../lib/errors.js";
+import {
+  formatStreamItem,
+  hasQuery,
+  outputFormat,
+  printStructured,
+  printTable,
+  renderTable,
+} from "../lib/output.js";
+import {
+  ALERT_STATES,
+  type ReplicationStatus,
+  ThroughputTracker,
+  getReplicationStatus,
+} from "../lib/replication-status.js";
+import { getSession, interruptSignal } from "../lib/session.js";
+import { editInEditor } from "./doc.js";
 
 // ── helpers ───────────────────────────────────────────────────────────────────
 
 async function getClient(): Promise<CouchClient> {
+  const session = getSession();
+  if (session) return session.client;
   const config = new ConfigManager();
   const conn = await config.getActiveConnection();
-  return new CouchClient(conn.url);
+  return new CouchClient(conn.url, conn.options);
 }
 
-function sourceUrl(job: ReplicationJobDoc): string {
-  return typeof job.source === "string" ? job.source : job.source.url;
+/** "url" or "url (basic auth as admin)", never showing a secret. */
+function describeEndpoint(endpoint: ReplicationJobDoc["source"]): string {
+  if (typeof endpoint === "string") return redactUrl(endpoint);
+  const how = endpoint.auth?.basic
+    ? `basic auth as ${endpoint.auth.basic.username}`
+    : endpoint.headers
+      ? `${Object.keys(endpoint.headers).join(", ")} header`
+      : undefined;
+  return how
+    ? `${redactUrl(endpoint.url)} ${pc.dim(`(${how})`)}`
+    : redactUrl(endpoint.url);
 }
 
-function targetUrl(job: ReplicationJobDoc): string {
-  return typeof job.target === "string" ? job.target : job.target.url;
+/**
+ * A conflict scan's progress on stderr, redrawn in place. `clear` wipes the
+ * line before other output; nothing is drawn when stderr isn't a TTY.
+ */
+function scanProgress(db: string, enabled: boolean) {
+  let drawn = false;
+  return {
+    onProgress({ scanned, total, found }: ScanProgress) {
+      if (!enabled) return;
+      // Nothing is known yet while a view index builds
+      const done =
+        total > 0
+          ? `${scanned}/${total} (${Math.min(100, Math.round((scanned / total) * 100))}%)`
+          : "…";
+      process.stderr.write(
+        `\r\x1b[K${pc.dim(`  scanning "${db}"`)} ${done} · ${found} conflicted`,
+      );
+      drawn = true;
+    },
+    clear() {
+      if (drawn) process.stderr.write("\r\x1b[K");
+      drawn = false;
+    },
+  };
 }
 
-function stateColor(state: string | undefined): string {
+function stateStyle(state: string | undefined): (text: string) => string {
   switch (state) {
     case "completed":
-      return pc.green(state);
     case "triggered":
-      return pc.cyan(state);
+      return pc.cyan;
+    case "running":
+      return pc.green;
+    case "pending":
+      return pc.yellow;
     case "error":
-      return pc.red(state);
+    case "crashing":
+    case "failed":
+      return pc.red;
     default:
-      return pc.dim(state ?? "unknown");
+      return pc.dim;
   }
 }
 
+function stateColor(state: string | undefined): string {
+  return stateStyle(state)(state ?? "unknown");
+}
+
 // ── root command ──────────────────────────────────────────────────────────────
 
 export const ReplCommand = new Command("repl").description(
@@ -40,6 +125,12 @@ export const ReplCommand = new Command("repl").description(
 
 // ── repl setup ────────────────────────────────────────────────────────────────
 
+const ENDPOINT_HELP = `
+Source and target are URLs, or conn:db references to a saved connection
+(sillon connect add). References expand to {url, auth} objects, so the
+password never ends up in a URL:
+  sillon repl setup prod:orders local:orders`;
+
 ReplCommand.command("setup <source> <target>")
   .description("Trigger a one-time (or continuous) replication via /_replicate")
   .option("-c, --continuous", "Continuous replication")
@@ -47,11 +138,15 @@ ReplCommand.command("setup <source> <target>")
   .option("--filter <fn>", "Filter function (ddoc/name)")
   .option("--doc-ids <ids>", "Comma-separated document IDs to replicate")
   .option("--json", "Output response as JSON")
+  .addHelpText("after", ENDPOINT_HELP)
   .action(async (source: string, target: string, options) => {
     try {
       const client = await getClient();
+      const config = new ConfigManager();
+      const from = await resolveEndpoint(config, source);
+      const to = await resolveEndpoint(config, target);
 
-      const result = await client.replicate(source, target, {
+      const result = await client.replicate(from, to, {
         continuous: options.continuous ?? false,
         create_target: options.createTarget ?? false,
         filter: options.filter as string | undefined,
@@ -60,14 +155,11 @@ ReplCommand.command("setup <source> <target>")
           : undefined,
       });
 
-      if (options.json) {
-        console.log(JSON.stringify(result, null, 2));
-        return;
-      }
+      if (printStructured(result, options)) return;
 
       console.log(pc.green("✓ Replication started"));
-      console.log(`  ${pc.dim("source:")}     ${source}`);
-      console.log(`  ${pc.dim("target:")}     ${target}`);
+      console.log(`  ${pc.dim("source:")}     ${describeEndpoint(from)}`);
+      console.log(`  ${pc.dim("target:")}     ${describeEndpoint(to)}`);
       if (options.continuous)
         console.log(`  ${pc.dim("mode:")}       continuous`);
       if (result.session_id)
@@ -75,12 +167,7 @@ ReplCommand.command("setup <source> <target>")
       if (result.source_last_seq !== undefined)
         console.log(`  ${pc.dim("last_seq:")}   ${result.source_last_seq}`);
     } catch (error) {
-      console.error(
-        pc.red(
-          `Error: ${error instanceof Error ? error.message : String(error)}`,
-        ),
-      );
-      process.exit(1);
+      reportError(error);
     }
   });
 
@@ -99,16 +186,15 @@ ReplCommand.command("jobs")
         (r) => !r.id.startsWith("_design/") && r.doc,
       );
 
-      if (options.json) {
-        console.log(
-          JSON.stringify(
-            jobs.map((r) => r.doc),
-            null,
-            2,
-          ),
-        );
-        return;
-      }
+      const redacted = jobs.map((r) => {
+        const job = r.doc as unknown as ReplicationJobDoc;
+        return {
+          ...job,
+          source: redactEndpoint(job.source),
+          target: redactEndpoint(job.target),
+        };
+      });
+      if (printStructured(redacted, options)) return;
 
       console.log(pc.cyan(`🔁 Replication jobs (${jobs.length})`));
 
@@ -122,19 +208,14 @@ ReplCommand.command("jobs")
         const state = job._replication_state;
         const continuous = job.continuous ? pc.dim(" [continuous]") : "";
         console.log(`\n  ${pc.blue("▸")} ${pc.bold(job._id)}${continuous}`);
-        console.log(`    ${pc.dim("source:")} ${sourceUrl(job)}`);
-        console.log(`    ${pc.dim("target:")} ${targetUrl(job)}`);
+        console.log(`    ${pc.dim("source:")} ${describeEndpoint(job.source)}`);
+        console.log(`    ${pc.dim("target:")} ${describeEndpoint(job.target)}`);
         if (state) console.log(`    ${pc.dim("state:")}  ${stateColor(state)}`);
         if (job._replication_id)
           console.log(`    ${pc.dim("rep id:")} ${job._replication_id}`);
       }
     } catch (error) {
-      console.error(
-        pc.red(
-          `Error: ${error instanceof Error ? error.message : String(error)}`,
-        ),
-      );
-      process.exit(1);
+      reportError(error);
     }
   });
 
@@ -148,19 +229,23 @@ ReplCommand.command("add <source> <target>")
   .option("--filter <fn>", "Filter function (ddoc/name)")
   .option("--doc-ids <ids>", "Comma-separated document IDs to replicate")
   .option("--json", "Output response as JSON")
+  .addHelpText("after", ENDPOINT_HELP)
   .action(async (source: string, target: string, options) => {
     try {
       const client = await getClient();
+      const config = new ConfigManager();
 
-      // Generate an ID if not provided
+      // Generate an ID if not provided (never from the credentials in a URL)
+      const slug = (endpoint: string) =>
+        endpoint.replace(/\/\/[^@/]*@/, "//").replace(/[^a-z0-9]/gi, "_");
       const id =
         (options.id as string | undefined) ??
-        `rep-${source.replace(/[^a-z0-9]/gi, "_")}-to-${target.replace(/[^a-z0-9]/gi, "_")}-${Date.now()}`;
+        `rep-${slug(source)}-to-${slug(target)}-${Date.now()}`;
 
       const job: Omit<ReplicationJobDoc, "_rev"> = {
         _id: id,
-        source,
-        target,
+        source: await resolveEndpoint(config, source),
+        target: await resolveEndpoint(config, target),
       };
 
       if (options.continuous) job.continuous = true;
@@ -174,22 +259,14 @@ ReplCommand.command("add <source> <target>")
 
       const result = await client.createReplicationJob(job);
 
-      if (options.json) {
-        console.log(JSON.stringify(result, null, 2));
-        return;
-      }
+      if (printStructured(result, options)) return;
 
       console.log(pc.green(`✓ Replication job "${result.id}" created`));
-      console.log(`  ${pc.dim("source:")} ${source}`);
-      console.log(`  ${pc.dim("target:")} ${target}`);
+      console.log(`  ${pc.dim("source:")} ${describeEndpoint(job.source)}`);
+      console.log(`  ${pc.dim("target:")} ${describeEndpoint(job.target)}`);
       if (options.continuous) console.log(`  ${pc.dim("mode:")}   continuous`);
     } catch (error) {
-      console.error(
-        pc.red(
-          `Error: ${error instanceof Error ? error.message : String(error)}`,
-        ),
-      );
-      process.exit(1);
+      reportError(error);
     }
   });
 
@@ -211,99 +288,203 @@ ReplCommand.command("cancel <id>")
       await client.deleteReplicationJob(id, job._rev);
       console.log(pc.green(`✓ Replication job "${id}" cancelled`));
     } catch (error) {
-      console.error(
-        pc.red(
-          `Error: ${error instanceof Error ? error.message : String(error)}`,
-        ),
-      );
-      process.exit(1);
+      reportError(error);
     }
   });
 
 // ── repl status ───────────────────────────────────────────────────────────────
 
 ReplCommand.command("status")
-  .description("Show active replication tasks from /_active_tasks")
-  .option("--json", "Output as JSON")
+  .description(
+    "Show replications: progress, throughput, pending changes and errors",
+  )
+  .option("-w, --watch", "Redraw in place until Ctrl+C")
+  .option("--interval <seconds>", "Refresh interval for --watch", "2")
+  .option("--json", "Output as JSON (one array per refresh with --watch)")
+  .addHelpText(
+    "after",
+    `
+Rows merge /_scheduler/docs, /_scheduler/jobs and /_active_tasks. Progress
+compares checkpointed_source_seq with source_seq; DOCS/S needs two samples,
+so it appears from the second --watch refresh on.`,
+  )
   .action(async (options) => {
     try {
       const client = await getClient();
-      const tasks = await client.getReplicationTasks();
+      const human = outputFormat(options) === "table" && !hasQuery();
+      const tracker = new ThroughputTracker();
 
-      if (options.json) {
-        console.log(JSON.stringify(tasks, null, 2));
+      if (!options.watch) {
+        const rows = await getReplicationStatus(client);
+        if (printStructured(rows, options)) return;
+        for (const line of dashboard(rows)) console.log(line);
         return;
       }
 
-      console.log(pc.cyan(`⚡ Active replication tasks (${tasks.length})`));
-
-      if (tasks.length === 0) {
-        console.log(pc.dim("  (none)"));
-        return;
-      }
-
-      for (const task of tasks) {
-        const src = String(task["source"] ?? "?");
-        const tgt = String(task["target"] ?? "?");
-        const progress =
-          task["progress"] !== undefined ? `${task["progress"]}%` : "";
-        const written =
-          task["docs_written"] !== undefined
-            ? ` written: ${task["docs_written"]}`
-            : "";
-        const read =
-          task["docs_read"] !== undefined ? ` read: ${task["docs_read"]}` : "";
-
-        console.log(`\n  ${pc.blue("▸")} ${pc.dim("source:")} ${src}`);
-        console.log(`    ${pc.dim("target:")} ${tgt}`);
-        if (progress) console.log(`    ${pc.dim("progress:")} ${progress}`);
-        if (written || read)
-          console.log(`    ${pc.dim("docs:")}    ${read}${written}`);
-        if (task["continuous"])
-          console.log(`    ${pc.dim("mode:")}    continuous`);
-        if (task["replication_id"])
-          console.log(`    ${pc.dim("rep id:")}  ${task["replication_id"]}`);
+      const interval =
+        Math.max(0.5, Number.parseFloat(options.interval as string) || 2) *
+        1000;
+      const { signal, release } = interruptSignal();
+      if (human) process.stdout.write(`${HIDE_CURSOR}${CLEAR}`);
+
+      try {
+        while (!signal.aborted) {
+          const rows = await getReplicationStatus(client).catch((error) => {
+            // Inside the shell, Ctrl-C cancels the request itself
+            if (signal.aborted) return undefined;
+            throw error;
+          });
+          if (!rows) break;
+          tracker.update(rows);
+          if (human) {
+            const lines = [
+              ...dashboard(rows),
+              "",
+              pc.dim(
+                `  Refreshing every ${interval / 1000}s · ${new Date().toLocaleTimeString()} · Ctrl+C to stop`,
+              ),
+            ];
+            // Overwrite in place rather than clearing, so nothing flickers
+            process.stdout.write(
+              `\x1b[H${lines.map((l) => `${l}\x1b[K`).join("\n")}\n\x1b[J`,
+            );
+          } else {
+            console.log(formatStreamItem(rows, options));
+          }
+          await sleep(interval, signal);
+        }
+      } finally {
+        release();
+        if (human) process.stdout.write(SHOW_CURSOR);
       }
     } catch (error) {
-      console.error(
-        pc.red(
-          `Error: ${error instanceof Error ? error.message : String(error)}`,
-        ),
-      );
-      process.exit(1);
+      reportError(error);
     }
   });
 
+const CLEAR = "\x1b[H\x1b[2J";
+const HIDE_CURSOR = "\x1b[?25l";
+const SHOW_CURSOR = "\x1b[?25h";
+
+function sleep(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    const timer = setTimeout(resolve, ms);
+    signal.addEventListener(
+      "abort",
+      () => {
+        clearTimeout(timer);
+        resolve();
+      },
+      { once: true },
+    );
+  });
+}
+
+/** The status table, then one alert line per crashing or failed job. */
+function dashboard(rows: ReplicationStatus[]): string[] {
+  const lines = [pc.cyan(`⚡ Replications (${rows.length})`)];
+  if (rows.length === 0) return [...lines, pc.dim("  (none)")];
+
+  lines.push(
+    ...renderTable(rows, [
+      { header: "ID", value: (r) => r.doc_id ?? r.id, max: 24 },
+      { header: "SOURCE", value: (r) => r.source, max: 32 },
+      { header: "TARGET", value: (r) => r.target, max: 32 },
+      {
+        header: "PROGRESS",
+        value: (r) =>
+          r.progress === undefined ? "—" : progressBar(r.progress),
+        color: (text) =>
+          text
+            .replace(/█+/, (s) => pc.green(s))
+            .replace(/░+/, (s) => pc.dim(s)),
+      },
+      {
+        header: "DOCS/S",
+        value: (r) => (r.rate === undefined ? "—" : r.rate.toFixed(1)),
+        align: "right",
+      },
+      {
+        header: "PENDING",
+        value: (r) => r.pending ?? "—",
+        align: "right",
+      },
+      {
+        header: "STATE",
+        value: (r) => (r.continuous ? `${r.state} ∞` : r.state),
+        color: (text) => stateStyle(text.trim().split(" ")[0])(text),
+      },
+      {
+        header: "ERRORS",
+        value: (r) => r.error_count,
+        align: "right",
+        color: (text) => (text.trim() === "0" ? pc.dim(text) : pc.red(text)),
+      },
+    ]),
+  );
+
+  for (const r of rows.filter((row) => ALERT_STATES.includes(row.state))) {
+    lines.push(
+      pc.red(
+        `  ⚠ ${r.doc_id ?? r.id} is ${r.state}${r.error ? `: ${r.error}` : ""}`,
+      ),
+    );
+  }
+  return lines;
+}
+
+function progressBar(pct: number): string {
+  const filled = Math.round(pct / 10);
+  return `${"█".repeat(filled)}${"░".repeat(10 - filled)} ${String(pct).padStart(3)}%`;
+}
+
 // ── repl conflicts ────────────────────────────────────────────────────────────
 
+const SCAN_HELP = `
+Scan modes:
+  all-docs   read every document with _all_docs?conflicts=true (default)
+  view       write _design/sillon-conflicts to the database, whose view only
+             has rows for conflicted docs, and delete it when the scan ends
+             (--keep-view leaves it, so later scans skip the index build)
+  mango      _find with {"_conflicts": {"$exists": true}}; the server still
+             reads each doc, but only conflicted ones are sent back`;
+
 ReplCommand.command("conflicts <db>")
   .description("List documents with conflicts in a database")
-  .option("--limit <n>", "Max documents to check", "100")
+  .option("--limit <n>", "Stop after this many conflicted documents")
+  .option(
+    "--scan <mode>",
+    `How to find them: ${SCAN_MODES.join(", ")} (see below)`,
+    "all-docs",
+  )
+  .option("--keep-view", "Leave the --scan view design doc in place")
+  .option("-q, --quiet", "Don't report progress")
   .option("--json", "Output as JSON")
+  .addHelpText("after", SCAN_HELP)
   .action(async (db: string, options) => {
     try {
       const client = await getClient();
-      const limit = Number.parseInt(options.limit as string, 10);
-
-      const result = await client.getConflicts(db, { limit });
+      const limit = options.limit
+        ? Number.parseInt(options.limit as string, 10)
+        : Number.POSITIVE_INFINITY;
+      const progress = scanProgress(
+        db,
+        !options.quiet && !!process.stderr.isTTY,
+      );
 
-      // Filter to only docs that actually have conflicts
-      type DocWithConflicts = {
-        _id: string;
-        _rev: string;
-        _conflicts?: string[];
-      };
-      const conflicted = result.rows
-        .filter(
-          (r) =>
-            r.doc && (r.doc as unknown as DocWithConflicts)._conflicts?.length,
-        )
-        .map((r) => r.doc as unknown as DocWithConflicts);
-
-      if (options.json) {
-        console.log(JSON.stringify(conflicted, null, 2));
-        return;
+      const conflicted: ConflictedDoc[] = [];
+      const scan = conflictedDocs(client, db, {
+        mode: options.scan,
+        onProgress: progress.onProgress,
+        keepView: options.keepView,
+      });
+      for await (const doc of scan) {
+        if (conflicted.length >= limit) break;
+        conflicted.push(doc);
       }
+      progress.clear();
+
+      if (printStructured(conflicted, options)) return;
 
       console.log(
         pc.cyan(`⚠️  Conflicts in "${db}" (${conflicted.length} documents)`),
@@ -317,24 +498,425 @@ ReplCommand.command("conflicts <db>")
       for (const doc of conflicted) {
         console.log(`\n  ${pc.red("▸")} ${pc.bold(doc._id)}`);
         console.log(`    ${pc.dim("winning rev:")} ${doc._rev}`);
-        const conflicts = doc._conflicts ?? [];
-        console.log(`    ${pc.dim("conflict revs:")} ${conflicts.length}`);
-        for (const rev of conflicts) {
+        console.log(`    ${pc.dim("conflict revs:")} ${doc._conflicts.length}`);
+        for (const rev of doc._conflicts) {
           console.log(`      ${pc.dim("–")} ${rev}`);
         }
       }
 
       console.log(
-        pc.dim(
-          `\n  Tip: use "sillon doc get <db> <id>" to inspect a conflicted document`,
-        ),
+        pc.dim(`\n  Tip: use "sillon repl resolve <db> [id]" to settle them`),
       );
     } catch (error) {
-      console.error(
-        pc.red(
-          `Error: ${error instanceof Error ? error.message : String(error)}`,
-        ),
+      reportError(error);
+    }
+  });
+
+// ── repl resolve ──────────────────────────────────────────────────────────────
+
+ReplCommand.command("resolve <db> [id]")
+  .description(
+    "Walk through conflicted documents: keep one revision or merge in $EDITOR",
+  )
+  .option(
+    "--strategy <name>",
+    `Resolve without asking: ${STRATEGIES.join(", ")}, or a resolver module`,
+  )
+  .option(
+    "--field <name>",
+    "Timestamp field for latest (and --prefer latest)",
+    "updated_at",
+  )
+  .option("--prefer <side>", "Who wins a merge: winner or latest", "winner")
+  .option("--dry-run", "Print what --strategy would do without writing")
+  .option(
+    "--scan <mode>",
+    `How to find conflicts: ${SCAN_MODES.join(", ")}`,
+    "all-docs",
+  )
+  .option("--keep-view", "Leave the --scan view design doc in place")
+  .option("-q, --quiet", "Don't report progress (with --strategy)")
+  .option("--json", "Output as JSON (with --strategy)")
+  .addHelpText(
+    "after",
+    `
+For each document, the winner and its conflicts are shown side by side,
+field by field. The result is written on top of the winner and the other
+revisions are deleted, all in one _bulk_docs request.
+
+Strategies:
+  latest       keep the revision with the newest --field timestamp
+  generation   keep the revision with the longest history
+  merge        keep every field of every revision; on disagreement the
+               --prefer side wins (the CouchDB winner, or the newest)
+  <file>       a .js/.ts module exporting, as default or "resolve":
+                 (revisions, { db, id }) => body | undefined
+               revisions come winner first; undefined leaves the doc alone
+
+Examples:
+  sillon repl resolve users                              # every conflicted doc
+  sillon repl resolve users user:42                      # just one
+  sillon repl resolve users --strategy latest --dry-run
+  sillon repl resolve users --strategy merge --prefer latest --field mtime
+  sillon repl resolve users --strategy ./resolve-users.ts
+${SCAN_HELP}`,
+  )
+  .action(async (db: string, id: string | undefined, options) => {
+    try {
+      const client = await getClient();
+      if (options.dryRun && !options.strategy) {
+        throw new Error("--dry-run needs a --strategy");
+      }
+      if (options.prefer !== "winner" && options.prefer !== "latest") {
+        throw new Error(
+          `Unknown --prefer "${options.prefer}": use winner or latest`,
+        );
+      }
+      const resolver = options.strategy
+        ? await resolverFor(options.strategy as string, {
+            field: options.field as string,
+            prefer: options.prefer,
+          })
+        : undefined;
+      // Progress would garble the prompts, so only batch runs report it
+      const progress = scanProgress(
+        db,
+        !!resolver && !options.quiet && !!process.stderr.isTTY,
+      );
+      const docs = id
+        ? singleConflict(client, db, id)
+        : conflictedDocs(client, db, {
+            mode: options.scan,
+            onProgress: progress.onProgress,
+            keepView: options.keepView,
+          });
+
+      if (resolver) {
+        await resolveWithStrategy(client, db, docs, resolver, {
+          ...options,
+          progress,
+        });
+        return;
+      }
+
+      const tally = { resolved: 0, skipped: 0 };
+      let seen = 0;
+      for await (const doc of docs) {
+        seen++;
+        const outcome = await resolveInteractively(client, db, doc, seen);
+        if (outcome === "quit") break;
+        tally[outcome]++;
+      }
+
+      if (seen === 0) {
+        console.log(
+          pc.green(`✓ No conflicts in ${id ? `"${id}"` : `"${db}"`}`),
+        );
+        return;
+      }
+      console.log(
+        `\n${pc.cyan("Done:")} ${tally.resolved} resolved, ${tally.skipped} skipped`,
       );
-      process.exit(1);
+    } catch (error) {
+      reportError(error);
+    }
+  });
+
+/** What --strategy did (or would do) to one document. */
+interface Resolution {
+  id: string;
+  /** The revision whose body was kept, or "merge" for a new body. */
+  kept?: string;
+  deleted: string[];
+  /** The document's rev after the write. */
+  rev?: string;
+  /** Changed fields, relative to the winner, for a new body. */
+  changes?: string[];
+  skipped?: boolean;
+  error?: string;
+}
+
+/** Conflicts are written back in batches of roughly this many revisions. */
+const BATCH_SIZE = 100;
+
+/**
+ * Apply `resolver` to every doc in `docs`, writing each batch of resolutions
+ * with one `_bulk_docs` call (nothing is written with --dry-run).
+ */
+async function resolveWithStrategy(
+  client: CouchClient,
+  db: string,
+  docs: AsyncIterable<ConflictedDoc>,
+  resolver: Resolver,
+  options: {
+    dryRun?: boolean;
+    json?: boolean;
+    progress: ReturnType<typeof scanProgress>;
+  },
+): Promise<void> {
+  const human = outputFormat(options) === "table";
+  const results: Resolution[] = [];
+  let batch: Array<{ resolution: Resolution; payload: Document[] }> = [];
+
+  const report = (resolution: Resolution) => {
+    results.push(resolution);
+    if (!human) return;
+    options.progress.clear();
+    console.log(describeResolution(resolution, options.dryRun));
+  };
+
+  const flush = async () => {
+    const pending = batch;
+    batch = [];
+    if (pending.length === 0) return;
+    const written = await client.bulkDocs(
+      db,
+      pending.flatMap((p) => p.payload),
+    );
+    let offset = 0;
+    for (const { resolution, payload } of pending) {
+      const rows = written.slice(offset, offset + payload.length);
+      offset += payload.length;
+      const failed = rows.find((r) => r.error);
+      if (failed) {
+        resolution.error = `${failed.error}: ${failed.reason}`;
+      } else if (!payload[0]?._deleted) {
+        resolution.rev = rows[0]?.rev;
+      }
+      report(resolution);
+    }
+  };
+
+  for await (const doc of docs) {
+    const revisions = await getConflictRevisions(client, db, doc);
+    const bodies = revisions.map(documentBody);
+    const chosen = await resolver(revisions, { db, id: doc._id });
+    if (!chosen) {
+      report({ id: doc._id, deleted: [], skipped: true });
+      continue;
+    }
+
+    const body = { ...documentBody(chosen), _id: doc._id };
+    const index = bodies.findIndex((b) => deepEqual(b, body));
+    const resolution: Resolution = {
+      id: doc._id,
+      kept: index >= 0 ? (revisions[index]?._rev as string) : "merge",
+      deleted: doc._conflicts,
+      rev: doc._rev,
+    };
+    if (index !== 0) {
+      resolution.changes = diffJson(bodies[0], body).map((c) => c.path);
+    }
+    if (options.dryRun) {
+      report(resolution);
+      continue;
+    }
+    const payload = resolutionDocs(
+      doc._id,
+      doc._rev,
+      doc._conflicts,
+      index === 0
+        ? undefined
+        : await inlineAttachments(client, db, revisions, body),
+    );
+    batch.push({ resolution, payload });
+    if (batch.reduce((n, p) => n + p.payload.length, 0) >= BATCH_SIZE) {
+      await flush();
+    }
+  }
+  if (!options.dryRun) await flush();
+  options.progress.clear();
+
+  if (printStructured(results, options)) return;
+  if (results.length === 0) {
+    console.log(pc.green(`✓ No conflicts in "${db}"`));
+    return;
+  }
+  const skipped = results.filter((r) => r.skipped).length;
+  const failed = results.filter((r) => r.error).length;
+  const resolved = results.length - skipped - failed;
+  console.log(
+    `\n${pc.cyan(options.dryRun ? "Dry run:" : "Done:")} ${resolved} ${options.dryRun ? "would be resolved" : "resolved"}, ${skipped} skipped${failed ? pc.red(`, ${failed} failed`) : ""}`,
+  );
+}
+
+function describeResolution(r: Resolution, dryRun?: boolean): string {
+  if (r.skipped) return `  ${pc.dim("–")} ${r.id} ${pc.dim("left as is")}`;
+  if (r.error) return `  ${pc.red("✗")} ${r.id} ${pc.red(r.error)}`;
+  const kept = r.kept === "merge" ? "a merge" : shortRev(r.kept as string);
+  const changes = r.changes?.length
+    ? ` ${pc.dim(`(${r.changes.map(fieldName).join(", ")})`)}`
+    : "";
+  const deleted = `${r.deleted.length} revision(s)`;
+  if (dryRun) {
+    return `  ${pc.yellow("•")} ${r.id} would keep ${kept}${changes}, delete ${deleted}`;
+  }
+  return `  ${pc.green("✓")} ${r.id} kept ${kept}${changes}, deleted ${deleted} ${pc.dim(`(rev: ${r.rev})`)}`;
+}
+
+type Outcome = "resolved" | "skipped" | "quit";
+
+async function* singleConflict(
+  client: CouchClient,
+  db: string,
+  id: string,
+): AsyncGenerator<ConflictedDoc> {
+  const doc = await client.getDocument(db, id, { conflicts: true });
+  if ((doc._conflicts as string[] | undefined)?.length) {
+    yield doc as ConflictedDoc;
+  }
+}
+
+/** Show one conflicted doc and apply whatever the user picks. */
+async function resolveInteractively(
+  client: CouchClient,
+  db: string,
+  doc: ConflictedDoc,
+  position: number,
+): Promise<Outcome> {
+  const revisions = await getConflictRevisions(client, db, doc);
+  const revs = revisions.map((r) => r._rev as string);
+  const bodies = revisions.map(documentBody);
+  const fields = divergentFields(bodies);
+
+  console.log(
+    `\n${pc.red("▸")} ${pc.bold(doc._id)} ${pc.dim(`#${position} · ${revs.length} revisions`)}`,
+  );
+  const missing = doc._conflicts.length + 1 - revs.length;
+  if (missing > 0) {
+    console.log(pc.dim(`  ${missing} conflicting revision(s) were compacted`));
+  }
+  if (fields.length === 0) {
+    console.log(pc.dim("  The revisions have identical content"));
+  } else {
+    printTable(fields, [
+      { header: "FIELD", value: (f) => fieldName(f.path) },
+      ...revs.map((rev, i) => ({
+        header: `[${i + 1}] ${shortRev(rev)}${i === 0 ? " (winner)" : ""}`,
+        value: (f: FieldDifference) => showValue(f.values[i]),
+        max: 32,
+      })),
+    ]);
+  }
+
+  const choices = revs.map((_, i) => `${i + 1}`).join("/");
+  while (true) {
+    const answer = (
+      await ask(`Keep [${choices}], [e]dit a merge, [s]kip or [q]uit? `)
+    ).toLowerCase();
+    if (answer === "q") return "quit";
+    if (answer === "s") return "skipped";
+
+    let body: Record<string, unknown> | undefined;
+    let kept: string;
+    if (answer === "e") {
+      try {
+        body = await mergeInEditor(doc._id, revs, bodies, fields);
+      } catch (error) {
+        console.log(pc.red(`  ${(error as Error).message}`));
+        continue;
+      }
+      if (!body) {
+        console.log(pc.dim("  Merge cancelled"));
+        continue;
+      }
+      kept = "the merge";
+    } else {
+      const choice = Number.parseInt(answer, 10);
+      if (!(choice >= 1 && choice <= revs.length)) continue;
+      body = bodies[choice - 1];
+      kept = shortRev(revs[choice - 1] as string);
     }
+
+    // Keeping the winner as is only needs the losers deleted
+    if (body && deepEqual(body, bodies[0])) body = undefined;
+    if (body) body = await inlineAttachments(client, db, revisions, body);
+    const payload = resolutionDocs(doc._id, doc._rev, doc._conflicts, body);
+    const results = await client.bulkDocs(db, payload);
+    const failed = results.flatMap((r, i) =>
+      r.error ? [`${payload[i]?._rev}: ${r.error} (${r.reason})`] : [],
+    );
+    if (failed.length > 0) {
+      for (const line of failed) console.log(pc.red(`  ✗ ${line}`));
+      return "skipped";
+    }
+
+    const rev = body ? results[0]?.rev : doc._rev;
+    console.log(
+      `  ${pc.green("✓")} Kept ${kept}, deleted ${doc._conflicts.length} revision(s) ${pc.dim(`(rev: ${rev})`)}`,
+    );
+    return "resolved";
+  }
+}
+
+/**
+ * Open the winner in $EDITOR with every differing field listed in comments
+ * above it. Undefined when the user empties the file.
+ */
+async function mergeInEditor(
+  id: string,
+  revs: string[],
+  bodies: Record<string, unknown>[],
+  fields: FieldDifference[],
+): Promise<Record<string, unknown> | undefined> {
+  const notes = fields.flatMap((f) => [
+    `//   ${fieldName(f.path)}`,
+    ...revs.map(
+      (rev, i) =>
+        `//     [${i + 1}] ${shortRev(rev)}: ${showValue(f.values[i])}`,
+    ),
+  ]);
+  const template = [
+    `// Merge "${id}": edit the document below, save and quit.`,
+    "// Lines starting with // are ignored; empty the file to cancel.",
+    ...(notes.length > 0 ? ["// Fields that differ:", ...notes] : []),
+    JSON.stringify(bodies[0], null, 2),
+  ].join("\n");
+
+  const edited = (await editInEditor(template))
+    .split("\n")
+    .filter((line) => !line.trimStart().startsWith("//"))
+    .join("\n")
+    .trim();
+  if (!edited) return undefined;
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(edited);
+  } catch (error) {
+    throw new Error(`Invalid JSON: ${(error as Error).message}`);
+  }
+  if (typeof parsed !== "object" || parsed === null || Array.isArray(parsed)) {
+    throw new Error("The merged document must be a JSON object");
+  }
+  return { ...documentBody(parsed as Record<string, unknown>), _id: id };
+}
+
+/** Read one line from stdin; end of input counts as quitting. */
+function ask(question: string): Promise<string> {
+  const rl = createInterface({ input: process.stdin, output: process.stdout });
+  return new Promise<string>((resolve) => {
+    rl.once("close", () => resolve("q"));
+    rl.question(question, (answer) => {
+      resolve(answer.trim());
+      rl.close();
+    });
   });
+}
+
+/** "address/city" for the pointer "/address/city" */
+function fieldName(path: string): string {
+  return path
+    .slice(1)
+    .split("/")
+    .map((key) => key.replaceAll("~1", "/").replaceAll("~0", "~"))
+    .join(".");
+}
+
+function shortRev(rev: string): string {
+  return rev.slice(0, rev.indexOf("-") + 8);
+}
+
+function showValue(value: unknown): string {
+  return value === undefined ? "—" : JSON.stringify(value);
+}
@@ -1,7 +1,10 @@
 import { Command } from "commander";
 import pc from "picocolors";
 import { ConfigManager } from "../lib/config.js";
-import { CouchClient } from "../lib/couch-client.js";
+import { CouchClient, CouchError } from "../lib/couch-client.js";
+import { reportError } from "../lib/errors.js";
+import { printStructured } from "../lib/output.js";
+import { getSession } from "../lib/session.js";
 
 export const SearchCommand = new Command("search").description(
   "Full-text search using Nouveau (CouchDB 3.x Lucene-based search)",
@@ -20,9 +23,11 @@ async function resolveDb(arg?: string): Promise<string> {
 }
 
 async function getClient(): Promise<CouchClient> {
+  const session = getSession();
+  if (session) return session.client;
   const config = new ConfigManager();
   const conn = await config.getActiveConnection();
-  return new CouchClient(conn.url);
+  return new CouchClient(conn.url, conn.options);
 }
 
 // ── query ─────────────────────────────────────────────────────────────────────
@@ -101,10 +106,7 @@ SearchCommand.command("query <ddoc> <index> <query> [db]")
           searchOptions,
         );
 
-        if (options.json) {
-          console.log(JSON.stringify(result, null, 2));
-          return;
-        }
+        if (printStructured(result, options, result.hits)) return;
 
         console.log(
           pc.cyan(`🔍 Search "${name}/${ddocName}/${index}"`) +
@@ -134,26 +136,20 @@ SearchCommand.command("query <ddoc> <index> <query> [db]")
           console.log(pc.dim(`\n  Next page: --bookmark ${result.bookmark}`));
         }
       } catch (error) {
-        // Provide a helpful message if Nouveau is not enabled
-        const msg = error instanceof Error ? error.message : String(error);
-        if (
-          msg.includes("not_found") ||
-          msg.includes("nouveau") ||
-          msg.includes("search")
-        ) {
-          console.error(pc.red(`Error: ${msg}`));
-          console.error(
-            pc.dim(
-              "  Nouveau search requires CouchDB 3.2+ with search enabled.",
-            ),
-          );
-          console.error(
-            pc.dim("  Check if your CouchDB instance has Nouveau configured."),
-          );
-        } else {
-          console.error(pc.red(`Error: ${msg}`));
-        }
-        process.exit(1);
+        // A missing index (or Nouveau disabled entirely) is the common case
+        const nouveauMissing =
+          error instanceof CouchError &&
+          ((error.status === 404 &&
+            error.reason !== "Database does not exist.") ||
+            !!error.error?.includes("nouveau"));
+        reportError(error, {
+          hints: nouveauMissing
+            ? [
+                "Nouveau search requires CouchDB 3.2+ with search enabled.",
+                "Check if your CouchDB instance has Nouveau configured.",
+              ]
+            : [],
+        });
       }
     },
   );
@@ -2,6 +2,9 @@ import { Command } from "commander";
 import pc from "picocolors";
 import { ConfigManager } from "../lib/config.js";
 import { CouchClient } from "../lib/couch-client.js";
+import { reportError } from "../lib/errors.js";
+import { printStructured } from "../lib/output.js";
+import { getSession } from "../lib/session.js";
 
 export const ServerCommand = new Command("server").description(
   "Server information and cluster management",
@@ -10,9 +13,11 @@ export const ServerCommand = new Command("server").description(
 // ── helpers ───────────────────────────────────────────────────────────────────
 
 async function getClient(): Promise<CouchClient> {
+  const session = getSession();
+  if (session) return session.client;
   const config = new ConfigManager();
   const conn = await config.getActiveConnection();
-  return new CouchClient(conn.url);
+  return new CouchClient(conn.url, conn.options);
 }
 
 // ── info ──────────────────────────────────────────────────────────────────────
@@ -25,10 +30,7 @@ ServerCommand.command("info")
       const client = await getClient();
       const info = await client.getServerInfo();
 
-      if (options.json) {
-        console.log(JSON.stringify(info, null, 2));
-        return;
-      }
+      if (printStructured(info, options)) return;
 
       console.log(pc.cyan("🛋️  CouchDB Server"));
       console.log(`  ${pc.dim("status:")}  ${info.couchdb}`);
@@ -39,12 +41,7 @@ ServerCommand.command("info")
         );
       }
     } catch (error) {
-      console.error(
-        pc.red(
-          `Error: ${error instanceof Error ? error.message : String(error)}`,
-        ),
-      );
-      process.exit(1);
+      reportError(error);
     }
   });
 
@@ -58,10 +55,7 @@ ServerCommand.command("membership")
       const client = await getClient();
       const membership = await client.getMembership();
 
-      if (options.json) {
-        console.log(JSON.stringify(membership, null, 2));
-        return;
-      }
+      if (printStructured(membership, options)) return;
 
       console.log(pc.cyan("🌐 Cluster Membership"));
 
@@ -86,12 +80,7 @@ ServerCommand.command("membership")
         }
       }
     } catch (error) {
-      console.error(
-        pc.red(
-          `Error: ${error instanceof Error ? error.message : String(error)}`,
-        ),
-      );
-      process.exit(1);
+      reportError(error);
     }
   });
 
@@ -112,10 +101,7 @@ ServerCommand.command("tasks")
         tasks = tasks.filter((t) => t["type"] === options.type);
       }
 
-      if (options.json) {
-        console.log(JSON.stringify(tasks, null, 2));
-        return;
-      }
+      if (printStructured(tasks, options)) return;
 
       const typeFilter = options.type ? ` [${options.type}]` : "";
       console.log(pc.cyan(`⚡ Active Tasks${typeFilter} (${tasks.length})`));
@@ -154,12 +140,7 @@ ServerCommand.command("tasks")
           console.log(`    ${pc.dim("written:")}   ${task["docs_written"]}`);
       }
     } catch (error) {
-      console.error(
-        pc.red(
-          `Error: ${error instanceof Error ? error.message : String(error)}`,
-        ),
-      );
-      process.exit(1);
+      reportError(error);
     }
   });
 
@@ -180,10 +161,7 @@ ServerCommand.command("scheduler")
       if (options.docs) {
         const result = await client.getSchedulerDocs({ limit });
 
-        if (options.json) {
-          console.log(JSON.stringify(result, null, 2));
-          return;
-        }
+        if (printStructured(result, options, result.docs)) return;
 
         console.log(pc.cyan(`📋 Scheduler Docs (${result.total_rows} total)`));
 
@@ -194,7 +172,7 @@ ServerCommand.command("scheduler")
 
         for (const doc of result.docs) {
           const stateColor = scheduleStateColor(doc.state);
-          console.log(`\n  ${pc.blue("▸")} ${pc.bold(doc.id)}`);
+          console.log(`\n  ${pc.blue("▸")} ${pc.bold(doc.id ?? doc.doc_id)}`);
           console.log(`    ${pc.dim("state:")}    ${stateColor}`);
           console.log(`    ${pc.dim("source:")}   ${doc.source}`);
           console.log(`    ${pc.dim("target:")}   ${doc.target}`);
@@ -208,10 +186,7 @@ ServerCommand.command("scheduler")
       } else {
         const result = await client.getSchedulerJobs({ limit });
 
-        if (options.json) {
-          console.log(JSON.stringify(result, null, 2));
-          return;
-        }
+        if (printStructured(result, options, result.jobs)) return;
 
         console.log(
           pc.cyan(
@@ -241,12 +216,7 @@ ServerCommand.command("scheduler")
         }
       }
     } catch (error) {
-      console.error(
-        pc.red(
-          `Error: ${error instanceof Error ? error.message : String(error)}`,
-        ),
-      );
-      process.exit(1);
+      reportError(error);
     }
   });
 
@@ -262,10 +232,7 @@ ServerCommand.command("stats")
       const node = (options.node as string | undefined) ?? "_local";
       const stats = await client.getNodeStats(node);
 
-      if (options.json) {
-        console.log(JSON.stringify(stats, null, 2));
-        return;
-      }
+      if (printStructured(stats, options)) return;
 
       console.log(pc.cyan(`📈 Node Stats: ${node}`));
 
@@ -313,12 +280,7 @@ ServerCommand.command("stats")
 
       console.log(pc.dim("\n  Tip: use --json for full stats"));
     } catch (error) {
-      console.error(
-        pc.red(
-          `Error: ${error instanceof Error ? error.message : String(error)}`,
-        ),
-      );
-      process.exit(1);
+      reportError(error);
     }
   });
 
@@ -0,0 +1,293 @@
+import { appendFile, mkdir, readFile } from "node:fs/promises";
+import { homedir } from "node:os";
+import { dirname, join } from "node:path";
+import { type Interface, createInterface } from "node:readline";
+import { inspect } from "node:util";
+import { Command, CommanderError } from "commander";
+import pc from "picocolors";
+import {
+  type CompletionSource,
+  cachedSource,
+  clientSource,
+  complete,
+  splitWords,
+} from "../lib/complete.js";
+import { ConfigManager } from "../lib/config.js";
+import { CouchClient } from "../lib/couch-client.js";
+import { redactUrl } from "../lib/credentials.js";
+import { ExitSignal, reportError } from "../lib/errors.js";
+import { type Session, getSession, setSession } from "../lib/session.js";
+
+export const ShellCommand = new Command("shell")
+  .description(
+    "Start an interactive shell that keeps one connection open (run `help` inside)",
+  )
+  .action(async (_options, command: Command) => {
+    try {
+      if (getSession()) throw new Error("Already inside sillon shell");
+      await runShell(command.parent as Command);
+    } catch (error) {
+      reportError(error);
+    }
+  });
+
+// ── helpers ───────────────────────────────────────────────────────────────────
+
+const HISTORY_PATH = join(homedir(), ".local", "share", "sillon", "history");
+const HISTORY_SIZE = 1000;
+
+const BUILTINS = ["help", "use", "js", "exit", "quit"];
+
+const SHELL_HELP = `${pc.cyan("Shell commands")}
+  ${pc.bold("<command> [args]")}  Any sillon command, without the "sillon" prefix
+  ${pc.bold("use [db]")}          Set (or show) the current database
+  ${pc.bold("js <code>")}         Evaluate JavaScript with ${pc.bold("client")}, ${pc.bold("db")} and ${pc.bold("_")} (last result); await works
+  ${pc.bold("help")}              Show this help and the command list
+  ${pc.bold("exit")}              Leave the shell (or press Ctrl-D)
+
+${pc.dim("Tab completes commands, options, databases, doc ids, ddocs and views.")}`;
+
+/** Open the active connection and make it the shell's session. */
+async function connectSession(): Promise<void> {
+  const conn = await new ConfigManager().getActiveConnection();
+  setSession({ client: new CouchClient(conn.url, conn.options), conn });
+}
+
+async function loadHistory(): Promise<string[]> {
+  try {
+    const lines = (await readFile(HISTORY_PATH, "utf8")).split("\n");
+    // readline wants the newest entry first
+    return lines.filter(Boolean).slice(-HISTORY_SIZE).reverse();
+  } catch {
+    return [];
+  }
+}
+
+async function saveHistory(line: string): Promise<void> {
+  try {
+    await mkdir(dirname(HISTORY_PATH), { recursive: true });
+    await appendFile(HISTORY_PATH, `${line}\n`, { mode: 0o600 });
+  } catch {
+    // History is a convenience; a read-only home shouldn't stop the shell
+  }
+}
+
+const AsyncFunction = Object.getPrototypeOf(async () => {}).constructor as new (
+  ...args: string[]
+) => (...values: unknown[]) => Promise<unknown>;
+
+/** Run `code` as an expression if it parses as one, else as a function body. */
+async function evaluate(
+  code: string,
+  scope: Record<string, unknown>,
+): Promise<unknown> {
+  const names = Object.keys(scope);
+  let fn: (...values: unknown[]) => Promise<unknown>;
+  try {
+    fn = new AsyncFunction(...names, `return (${code}\n);`);
+  } catch {
+    fn = new AsyncFunction(...names, code);
+  }
+  return fn(...Object.values(scope));
+}
+
+/** Errors were already printed by commander or the command's reportError. */
+function settle(error: unknown): void {
+  if (error instanceof CommanderError || error instanceof ExitSignal) return;
+  try {
+    reportError(error);
+  } catch {
+    // reportError throws an ExitSignal while the session is open
+  }
+}
+
+/** Let commander throw instead of exiting, all the way down the tree. */
+function keepAlive(command: Command): void {
+  command.exitOverride();
+  for (const sub of command.commands) keepAlive(sub);
+}
+
+/**
+ * Run one command line. Ctrl-C aborts it (its requests, feeds and watches)
+ * and brings back the prompt instead of ending the shell.
+ */
+async function runCommand(program: Command, words: string[]): Promise<void> {
+  const session = getSession() as Session;
+  const controller = new AbortController();
+  const interrupt = () => controller.abort();
+  process.on("SIGINT", interrupt);
+  session.signal = controller.signal;
+  session.client.setSignal(controller.signal);
+  try {
+    await program.parseAsync(words, { from: "user" });
+  } finally {
+    process.off("SIGINT", interrupt);
+    session.signal = undefined;
+    session.client.setSignal(undefined);
+  }
+}
+
+// ── shell ─────────────────────────────────────────────────────────────────────
+
+async function runShell(program: Command): Promise<void> {
+  await connectSession();
+  keepAlive(program);
+
+  const stdin = process.stdin;
+  const interactive = !!stdin.isTTY;
+  const history = interactive ? await loadHistory() : [];
+  let source: CompletionSource = cachedSource(
+    clientSource(getSession()?.client as CouchClient),
+  );
+  let last: unknown;
+
+  const currentDb = async () =>
+    (await new ConfigManager().getCurrentDb()) ?? "";
+
+  const completer = (
+    line: string,
+    callback: (error: null, result: [string[], string]) => void,
+  ) => {
+    const run = async (): Promise<[string[], string]> => {
+      let words: string[];
+      try {
+        words = splitWords(line);
+      } catch {
+        return [[], line];
+      }
+      if (words.length === 0 || /\s$/.test(line)) words.push("");
+      const partial = words[words.length - 1] as string;
+      if (words[0] === "sillon") words.shift();
+
+      if (words.length === 1) {
+        const commands = await complete(program, words, source);
+        const builtins = BUILTINS.filter((b) => b.startsWith(partial));
+        return [[...builtins, ...commands], partial];
+      }
+      // `use` takes the same argument as `db use`
+      if (words[0] === "use") words.splice(0, 1, "db", "use");
+      const db = (await currentDb()) || undefined;
+      return [await complete(program, words, source, db), partial];
+    };
+    // A trailing space moves on to the next word, as in bash
+    run()
+      .catch((): [string[], string] => [[], line])
+      .then(([hits, partial]) => {
+        try {
+          callback(null, [hits.map((hit) => `${hit} `), partial]);
+        } catch {
+          // Enter was pressed before the server answered; the prompt is gone
+        }
+      });
+  };
+
+  // Piped input is read through one interface; a terminal gets a fresh one
+  // per prompt so pickers and editors can have stdin to themselves
+  const piped: Interface | undefined = interactive
+    ? undefined
+    : createInterface({ input: stdin, terminal: false });
+  const pipedLines = piped?.[Symbol.asyncIterator]();
+
+  const prompt = async (): Promise<string | undefined> => {
+    if (pipedLines) {
+      const next = await pipedLines.next();
+      return next.done ? undefined : next.value;
+    }
+    const conn = getSession()?.conn;
+    const name = conn?.name ?? redactUrl(conn?.url ?? "");
+    const db = await currentDb();
+    const label = `${pc.cyan(name)}${db ? pc.dim(`/${db}`) : ""}> `;
+
+    const rl = createInterface({
+      input: stdin,
+      output: process.stdout,
+      completer,
+      history: [...history],
+      historySize: HISTORY_SIZE,
+      removeHistoryDuplicates: true,
+    });
+    return new Promise((resolve) => {
+      rl.on("SIGINT", () => {
+        // Ctrl-C drops the line, like a login shell
+        process.stdout.write("\n");
+        resolve("");
+        rl.close();
+      });
+      // Ctrl-D; a no-op once the line was resolved above
+      rl.on("close", () => resolve(undefined));
+      rl.question(label, (answer) => {
+        resolve(answer);
+        rl.close();
+      });
+    });
+  };
+
+  if (interactive) {
+    console.log(
+      pc.dim(
+        "🛋️  sillon shell: type help for commands, Tab to complete, Ctrl-D to exit",
+      ),
+    );
+  }
+
+  for (;;) {
+    const line = await prompt();
+    if (line === undefined) {
+      if (interactive) process.stdout.write("\n");
+      break;
+    }
+    const input = line.trim();
+    if (!input) continue;
+    if (interactive && input !== history[0]) {
+      history.unshift(input);
+      history.length = Math.min(history.length, HISTORY_SIZE);
+      await saveHistory(input);
+    }
+
+    try {
+      const [first = "", ...rest] = input.startsWith("js ")
+        ? ["js"]
+        : splitWords(input);
+      if (first === "exit" || first === "quit") break;
+
+      if (first === "help") {
+        console.log(SHELL_HELP);
+        console.log();
+        program.outputHelp();
+        continue;
+      }
+
+      if (first === "js") {
+        const db = (await currentDb()) || undefined;
+        last = await evaluate(input.slice(2).trim(), {
+          client: getSession()?.client,
+          db,
+          _: last,
+        });
+        if (last !== undefined) {
+          console.log(
+            inspect(last, { colors: !!process.stdout.isTTY, depth: 6 }),
+          );
+        }
+        continue;
+      }
+
+      const words = first === "sillon" ? rest : [first, ...rest];
+      if (words[0] === "use") words.splice(0, 1, "db", "use");
+      await runCommand(program, words);
+
+      // Follow `connect use/add/remove` to the new active connection
+      if (words[0] === "connect") {
+        await connectSession();
+        source = cachedSource(
+          clientSource(getSession()?.client as CouchClient),
+        );
+      }
+    } catch (error) {
+      settle(error);
+    }
+  }
+
+  piped?.close();
+  setSession(undefined);
+}
@@ -4,8 +4,22 @@ import { ConfigManager } from "../lib/config.js";
 import {
   CouchClient,
   type Document,
+  type ViewQueryOptions,
   type ViewResult,
+  type ViewRow,
 } from "../lib/couch-client.js";
+import { parseColumns, writeTable } from "../lib/csv.js";
+import { reportError } from "../lib/errors.js";
+import {
+  type Column,
+  exportDelimiter,
+  isInteractive,
+  preview,
+  printStructured,
+  printTable,
+} from "../lib/output.js";
+import { pick } from "../lib/picker.js";
+import { getSession } from "../lib/session.js";
 
 export const ViewCommand = new Command("view").description(
   "Design document & view operations",
@@ -24,9 +38,11 @@ async function resolveDb(arg?: string): Promise<string> {
 }
 
 async function getClient(): Promise<CouchClient> {
+  const session = getSession();
+  if (session) return session.client;
   const config = new ConfigManager();
   const conn = await config.getActiveConnection();
-  return new CouchClient(conn.url);
+  return new CouchClient(conn.url, conn.options);
 }
 
 /** Strip the `_design/` prefix for display purposes. */
@@ -34,6 +50,46 @@ function ddocName(id: string): string {
   return id.replace(/^_design\//, "");
 }
 
+interface ViewRef {
+  ddoc: string;
+  view: string;
+  map: string;
+  reduce?: string;
+}
+
+/** Pick a view (optionally within one design doc), previewing its source. */
+async function pickView(
+  client: CouchClient,
+  db: string,
+  ddoc?: string,
+): Promise<ViewRef | undefined> {
+  const result = await client.getDesignDocs(db, true);
+  const views: ViewRef[] = [];
+  for (const row of result.rows) {
+    if (ddoc && ddocName(row.id) !== ddocName(ddoc)) continue;
+    const doc = row.doc as
+      | (Document & {
+          views?: Record<string, { map: string; reduce?: string }>;
+        })
+      | undefined;
+    for (const [view, def] of Object.entries(doc?.views ?? {})) {
+      views.push({ ddoc: ddocName(row.id), view, ...def });
+    }
+  }
+  if (views.length === 0) {
+    throw new Error(`No views in "${db}"${ddoc ? ` under ${ddoc}` : ""}`);
+  }
+
+  const picked = await pick(views, {
+    prompt: db,
+    label: (v) => `${v.ddoc}/${v.view}`,
+    preview: (v) =>
+      v.reduce ? `map:\n${v.map}\n\nreduce:\n${v.reduce}` : `map:\n${v.map}`,
+    hint: "enter: query view · esc: cancel",
+  });
+  return picked?.item;
+}
+
 // ── list ──────────────────────────────────────────────────────────────────────
 
 ViewCommand.command("list [db]")
@@ -45,11 +101,7 @@ ViewCommand.command("list [db]")
       const client = await getClient();
 
       const result = await client.getDesignDocs(name, true);
-
-      if (options.json) {
-        console.log(JSON.stringify(result, null, 2));
-        return;
-      }
+      if (printStructured(result, options, result.rows)) return;
 
       const ddocs = result.rows.filter((r) => r.doc && !r.value.deleted);
 
@@ -100,12 +152,7 @@ ViewCommand.command("list [db]")
 
       console.log(pc.dim(`\nTotal: ${ddocs.length} design document(s)`));
     } catch (error) {
-      console.error(
-        pc.red(
-          `Error: ${error instanceof Error ? error.message : String(error)}`,
-        ),
-      );
-      process.exit(1);
+      reportError(error);
     }
   });
 
@@ -114,28 +161,24 @@ ViewCommand.command("list [db]")
 ViewCommand.command("get <ddoc> [db]")
   .description("Show a design document")
   .option("--json", "Output as JSON (default)")
-  .action(async (ddoc: string, db?: string, _options?) => {
+  .action(async (ddoc: string, db?: string, options?) => {
     try {
       const name = await resolveDb(db);
       const client = await getClient();
       // Accept both `ddoc` and `_design/ddoc` forms
       const docId = ddoc.startsWith("_design/") ? ddoc : `_design/${ddoc}`;
       const doc = await client.getDocument(name, docId);
+      if (printStructured(doc, options)) return;
       console.log(JSON.stringify(doc, null, 2));
     } catch (error) {
-      console.error(
-        pc.red(
-          `Error: ${error instanceof Error ? error.message : String(error)}`,
-        ),
-      );
-      process.exit(1);
+      reportError(error);
     }
   });
 
 // ── query ─────────────────────────────────────────────────────────────────────
 
-ViewCommand.command("query <ddoc> <view> [db]")
-  .description("Query a view")
+ViewCommand.command("query [ddoc] [view] [db]")
+  .description("Query a view (on a terminal, pick one if omitted)")
   .option("--key <json>", "Exact key to match (JSON value)")
   .option("--startkey <json>", "Start of key range (JSON value)")
   .option("--endkey <json>", "End of key range (JSON value)")
@@ -148,11 +191,30 @@ ViewCommand.command("query <ddoc> <view> [db]")
   .option("--group", "Group results by key (enable reduce grouping)")
   .option("--group-level <n>", "Group results up to array depth N")
   .option("--json", "Output as JSON")
-  .action(async (ddoc: string, view: string, db?: string, options?) => {
+  .option("--format <format>", "Export every row as csv or tsv (pages by key)")
+  .option(
+    "--columns <columns>",
+    "Comma-separated columns for --format, e.g. key,value,doc.name",
+  )
+  .action(async (ddocArg?: string, viewArg?: string, db?: string, options?) => {
     try {
+      const delimiter = exportDelimiter(options);
       const name = await resolveDb(db);
       const client = await getClient();
 
+      let ddoc = ddocArg;
+      let view = viewArg;
+      if (!ddoc || !view) {
+        if (!isInteractive(options)) {
+          throw new Error(
+            "No view given.\n  Pass <ddoc> <view>, or run on a terminal to pick one",
+          );
+        }
+        const picked = await pickView(client, name, ddoc);
+        if (!picked) return;
+        ({ ddoc, view } = picked);
+      }
+
       // Parse JSON key values safely
       const parseJsonOpt = (val: string | undefined, flag: string): unknown => {
         if (val === undefined) return undefined;
@@ -172,40 +234,48 @@ ViewCommand.command("query <ddoc> <view> [db]")
       }
       // if neither, leave as undefined (server default)
 
+      const ddocId = ddoc.startsWith("_design/") ? ddocName(ddoc) : ddoc;
+      const query: ViewQueryOptions = {
+        key: parseJsonOpt(options.key as string | undefined, "--key"),
+        startkey: parseJsonOpt(
+          options.startkey as string | undefined,
+          "--startkey",
+        ),
+        endkey: parseJsonOpt(options.endkey as string | undefined, "--endkey"),
+        limit: options.limit
+          ? Number.parseInt(options.limit as string, 10)
+          : undefined,
+        skip: options.skip
+          ? Number.parseInt(options.skip as string, 10)
+          : undefined,
+        descending: !!options.descending,
+        include_docs: !!options.includeDocs,
+        reduce: reduceOpt,
+        group: !!options.group,
+        group_level: options.groupLevel
+          ? Number.parseInt(options.groupLevel as string, 10)
+          : undefined,
+      };
+
+      if (delimiter) {
+        await writeTable(client.paginateView(name, ddocId, view, query), {
+          delimiter,
+          columns: options.columns
+            ? parseColumns(options.columns as string)
+            : undefined,
+          write: (chunk) => process.stdout.write(chunk),
+        });
+        return;
+      }
+
       const result: ViewResult = await client.queryView(
         name,
-        ddoc.startsWith("_design/") ? ddocName(ddoc) : ddoc,
+        ddocId,
         view,
-        {
-          key: parseJsonOpt(options.key as string | undefined, "--key"),
-          startkey: parseJsonOpt(
-            options.startkey as string | undefined,
-            "--startkey",
-          ),
-          endkey: parseJsonOpt(
-            options.endkey as string | undefined,
-            "--endkey",
-          ),
-          limit: options.limit
-            ? Number.parseInt(options.limit as string, 10)
-            : undefined,
-          skip: options.skip
-            ? Number.parseInt(options.skip as string, 10)
-            : undefined,
-          descending: !!options.descending,
-          include_docs: !!options.includeDocs,
-          reduce: reduceOpt,
-          group: !!options.group,
-          group_level: options.groupLevel
-            ? Number.parseInt(options.groupLevel as string, 10)
-            : undefined,
-        },
+        query,
       );
 
-      if (options.json) {
-        console.log(JSON.stringify(result, null, 2));
-        return;
-      }
+      if (printStructured(result, options, result.rows)) return;
 
       const total =
         result.total_rows !== undefined ? ` — ${result.total_rows} total` : "";
@@ -217,28 +287,19 @@ ViewCommand.command("query <ddoc> <view> [db]")
         return;
       }
 
-      for (const row of result.rows) {
-        const keyStr = JSON.stringify(row.key);
-        const valStr = JSON.stringify(row.value);
-        console.log(
-          `  ${pc.blue("▸")} ${pc.bold(keyStr)}  ${pc.dim("→")}  ${valStr}`,
-        );
-        if (row.doc) {
-          const keys = Object.keys(row.doc).filter((k) => !k.startsWith("_"));
-          if (keys.length > 0) {
-            const preview = keys
-              .slice(0, 4)
-              .map(
-                (k) =>
-                  `${k}: ${JSON.stringify((row.doc as Document)[k]).slice(0, 24)}`,
-              )
-              .join(", ");
-            console.log(
-              `    ${pc.dim("{ " + preview + (keys.length > 4 ? ", …" : "") + " }")}`,
-            );
-          }
-        }
+      const columns: Column<ViewRow>[] = [
+        { header: "KEY", value: (row) => row.key, color: pc.bold },
+        { header: "VALUE", value: (row) => row.value },
+        { header: "ID", value: (row) => row.id, color: pc.dim },
+      ];
+      if (result.rows.some((row) => row.doc)) {
+        columns.push({
+          header: "DOC",
+          value: (row) => (row.doc ? preview(row.doc) : ""),
+          color: pc.dim,
+        });
       }
+      printTable(result.rows, columns);
 
       if (
         result.total_rows !== undefined &&
@@ -247,11 +308,6 @@ ViewCommand.command("query <ddoc> <view> [db]")
         console.log(pc.dim(`\n  Use --limit / --skip to paginate.`));
       }
     } catch (error) {
-      console.error(
-        pc.red(
-          `Error: ${error instanceof Error ? error.message : String(error)}`,
-        ),
-      );
-      process.exit(1);
+      reportError(error);
     }
   });
@@ -1,6 +1,9 @@
 #!/usr/bin/env bun
 import { Command } from "commander";
 import pc from "picocolors";
+import { BrowseCommand } from "./commands/browse.js";
+import { ChangesCommand } from "./commands/changes.js";
+import { CompleteCommand, CompletionCommand } from "./commands/completion.js";
 import { ConnectCommand } from "./commands/connect.js";
 import { DbCommand } from "./commands/db.js";
 import { DocCommand } from "./commands/doc.js";
@@ -10,12 +13,31 @@ import { PartitionCommand } from "./commands/partition.js";
 import { ReplCommand } from "./commands/repl.js";
 import { SearchCommand } from "./commands/search.js";
 import { ServerCommand } from "./commands/server.js";
+import { ShellCommand } from "./commands/shell.js";
 import { ViewCommand } from "./commands/view.js";
+import { ConfigManager } from "./lib/config.js";
+import { reportError } from "./lib/errors.js";
+import { OUTPUT_FORMATS, configureOutput } from "./lib/output.js";
 
 const program = new Command()
   .name("sillon")
   .description("🛋️ Modern CouchDB CLI")
-  .version("0.1.0");
+  .version("0.1.0")
+  .option(
+    "-o, --output <format>",
+    `Output format: ${OUTPUT_FORMATS.join(", ")} (default: config "output", else table on a terminal and json when piped)`,
+  )
+  .option(
+    "--query <expr>",
+    "Filter the JSON result with a JMESPath expression (e.g. sizes.active)",
+  );
+
+// -o beats the config file; both are read before any command runs
+program.hook("preAction", async () => {
+  const config = await new ConfigManager().load();
+  const { output, query } = program.opts();
+  configureOutput(output, config.output, query);
+});
 
 // Add commands
 program.addCommand(LocalCommand);
@@ -29,6 +51,11 @@ program.addCommand(ReplCommand);
 program.addCommand(ServerCommand);
 program.addCommand(PartitionCommand);
 program.addCommand(SearchCommand);
+program.addCommand(ChangesCommand);
+program.addCommand(BrowseCommand);
+program.addCommand(ShellCommand);
+program.addCommand(CompletionCommand);
+program.addCommand(CompleteCommand, { hidden: true });
 
 // Global error handling
 program.exitOverride();
@@ -43,6 +70,5 @@ try {
   if (err.code === "commander.version") {
     process.exit(0);
   }
-  console.error(pc.red(`Error: ${err.message ?? String(error)}`));
-  process.exit(1);
+  reportError(error);
 }
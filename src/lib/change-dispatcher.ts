@@ -0,0 +1,200 @@
+import { appendFile } from "node:fs/promises";
+import type { ChangeRow } from "./couch-client.js";
+
+export type ChangeHandler = (change: ChangeRow) => Promise<void>;
+
+export interface ChangeDispatcherOptions {
+  /** Max handlers running at once (default 1 — strictly in order). */
+  concurrency?: number;
+  /** Extra attempts after the first failure (default 3). */
+  retries?: number;
+  /** Base delay for exponential backoff between attempts, in ms (default 1000). */
+  retryDelayMs?: number;
+  /** NDJSON file that receives changes whose handler never succeeded. */
+  deadLetter?: string;
+  /**
+   * Called with the newest seq whose change — and every change before it —
+   * has finished (succeeded or been dead-lettered). Safe to checkpoint.
+   * Without a dead-letter file, a change that exhausts its retries holds the
+   * watermark before it, so resuming from the checkpoint runs it again.
+   */
+  onCommit?: (seq: string | number) => Promise<void> | void;
+  onFailure?: (change: ChangeRow, error: Error, attempts: number) => void;
+}
+
+export interface DispatchStats {
+  succeeded: number;
+  failed: number;
+  retried: number;
+}
+
+/**
+ * Runs a handler for each change from a feed with bounded concurrency,
+ * retries with exponential backoff, and a dead-letter file for changes that
+ * still fail. `dispatch` resolves once a slot is free, so awaiting it in a
+ * `for await` loop applies backpressure to the feed.
+ */
+export class ChangeDispatcher {
+  private handler: ChangeHandler;
+  private concurrency: number;
+  private retries: number;
+  private retryDelayMs: number;
+  private deadLetter?: string;
+  private onCommit?: ChangeDispatcherOptions["onCommit"];
+  private onFailure?: ChangeDispatcherOptions["onFailure"];
+
+  private running = new Set<Promise<void>>();
+  private order: Array<{ seq: string | number; done: boolean; lost: boolean }> =
+    [];
+  /** Set once a lost change reaches the front: nothing commits after it. */
+  private held = false;
+  private stats: DispatchStats = { succeeded: 0, failed: 0, retried: 0 };
+
+  constructor(handler: ChangeHandler, options: ChangeDispatcherOptions = {}) {
+    this.handler = handler;
+    this.concurrency = Math.max(1, options.concurrency ?? 1);
+    this.retries = Math.max(0, options.retries ?? 3);
+    this.retryDelayMs = options.retryDelayMs ?? 1000;
+    this.deadLetter = options.deadLetter;
+    this.onCommit = options.onCommit;
+    this.onFailure = options.onFailure;
+  }
+
+  getStats(): DispatchStats {
+    return { ...this.stats };
+  }
+
+  async dispatch(change: ChangeRow): Promise<void> {
+    while (this.running.size >= this.concurrency) {
+      await Promise.race(this.running);
+    }
+
+    const slot = { seq: change.seq, done: false, lost: false };
+    if (!this.held) this.order.push(slot);
+
+    const task = this.run(change).then(async (handled) => {
+      slot.done = true;
+      slot.lost = !handled;
+      await this.commit();
+    });
+    this.running.add(task);
+    const release = () => this.running.delete(task);
+    task.then(release, release);
+  }
+
+  /** Wait for every in-flight handler to finish. */
+  async drain(): Promise<void> {
+    while (this.running.size > 0) {
+      await Promise.all(this.running);
+    }
+  }
+
+  /** Resolves false if the change failed and no dead-letter file kept it. */
+  private async run(change: ChangeRow): Promise<boolean> {
+    let lastError: Error | undefined;
+
+    for (let attempt = 0; attempt <= this.retries; attempt++) {
+      if (attempt > 0) {
+        this.stats.retried++;
+        await Bun.sleep(this.retryDelayMs * 2 ** (attempt - 1));
+      }
+      try {
+        await this.handler(change);
+        this.stats.succeeded++;
+        return true;
+      } catch (error) {
+        lastError = error instanceof Error ? error : new Error(String(error));
+      }
+    }
+
+    const err = lastError ?? new Error("Handler failed");
+    this.stats.failed++;
+    this.onFailure?.(change, err, this.retries + 1);
+
+    if (this.deadLetter) {
+      const entry = {
+        seq: change.seq,
+        id: change.id,
+        error: err.message,
+        attempts: this.retries + 1,
+        failedAt: new Date().toISOString(),
+        change,
+      };
+      await appendFile(this.deadLetter, `${JSON.stringify(entry)}\n`);
+      return true;
+    }
+    return false;
+  }
+
+  /**
+   * Advance the low watermark past every finished change at the front,
+   * stopping for good at one that was lost.
+   */
+  private async commit(): Promise<void> {
+    let committed: string | number | undefined;
+    while (this.order[0]?.done) {
+      if (this.order[0].lost) {
+        this.held = true;
+        this.order = [];
+        break;
+      }
+      committed = this.order.shift()?.seq;
+    }
+    if (committed !== undefined) await this.onCommit?.(committed);
+  }
+}
+
+// ── Handlers ──────────────────────────────────────────────────────────────────
+
+/**
+ * Spawn `command` for each change, writing the change JSON to its stdin.
+ * The child inherits stdout/stderr; a non-zero exit counts as a failure.
+ */
+export function execHandler(
+  command: string[],
+  env: Record<string, string> = {},
+): ChangeHandler {
+  return async (change) => {
+    const proc = Bun.spawn(command, {
+      stdin: "pipe",
+      stdout: "inherit",
+      stderr: "inherit",
+      env: {
+        ...process.env,
+        ...env,
+        SILLON_DOC_ID: change.id,
+        SILLON_SEQ: String(change.seq),
+      },
+    });
+    try {
+      proc.stdin.write(`${JSON.stringify(change)}\n`);
+      await proc.stdin.end();
+    } catch {
+      // The command exited without reading stdin — its exit code decides
+    }
+
+    const code = await proc.exited;
+    if (code !== 0) {
+      throw new Error(`Command exited with code ${code}`);
+    }
+  };
+}
+
+/** POST each change as JSON to `url`; any non-2xx response is a failure. */
+export function postHandler(
+  url: string,
+  headers: Record<string, string> = {},
+  timeoutMs = 30000,
+): ChangeHandler {
+  return async (change) => {
+    const response = await fetch(url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", ...headers },
+      body: JSON.stringify(change),
+      signal: AbortSignal.timeout(timeoutMs),
+    });
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+    }
+  };
+}
@@ -0,0 +1,128 @@
+import { mkdir } from "node:fs/promises";
+import { homedir } from "node:os";
+import { join } from "node:path";
+import type { ConnectionConfig } from "./config.js";
+
+export interface Checkpoint {
+  seq: string | number;
+  updatedAt: string;
+}
+
+/** checkpoint name → connection key → database → last seen seq */
+type CheckpointFile = Record<
+  string,
+  Record<string, Record<string, Checkpoint>>
+>;
+
+export interface CheckpointEntry extends Checkpoint {
+  name: string;
+  connection: string;
+  db: string;
+}
+
+/**
+ * Persists named changes-feed checkpoints in
+ * `~/.local/share/sillon/checkpoints.json` so a feed can be resumed from the
+ * last processed sequence instead of replaying history.
+ */
+export class CheckpointStore {
+  private dataDir: string;
+  private filePath: string;
+  private data: CheckpointFile | null = null;
+
+  constructor(dataDir?: string) {
+    this.dataDir = dataDir ?? join(homedir(), ".local", "share", "sillon");
+    this.filePath = join(this.dataDir, "checkpoints.json");
+  }
+
+  getPath(): string {
+    return this.filePath;
+  }
+
+  /**
+   * Checkpoints are scoped per connection: the saved name when there is one,
+   * otherwise the server origin (credentials are never part of the key).
+   */
+  static connectionKey(conn: ConnectionConfig): string {
+    if (conn.name) return conn.name;
+    const parsed = new URL(conn.url);
+    return `${parsed.protocol}//${parsed.host}`;
+  }
+
+  private async load(): Promise<CheckpointFile> {
+    if (this.data) return this.data;
+
+    try {
+      const file = Bun.file(this.filePath);
+      if (await file.exists()) {
+        this.data = (await file.json()) as CheckpointFile;
+        return this.data;
+      }
+    } catch {
+      // File doesn't exist or is invalid
+    }
+
+    this.data = {};
+    return this.data;
+  }
+
+  private async save(data: CheckpointFile): Promise<void> {
+    await mkdir(this.dataDir, { recursive: true });
+    await Bun.write(this.filePath, JSON.stringify(data, null, 2));
+    this.data = data;
+  }
+
+  async get(
+    name: string,
+    conn: ConnectionConfig,
+    db: string,
+  ): Promise<Checkpoint | undefined> {
+    const data = await this.load();
+    return data[name]?.[CheckpointStore.connectionKey(conn)]?.[db];
+  }
+
+  async set(
+    name: string,
+    conn: ConnectionConfig,
+    db: string,
+    seq: string | number,
+  ): Promise<void> {
+    const data = await this.load();
+    const key = CheckpointStore.connectionKey(conn);
+    data[name] ??= {};
+    data[name][key] ??= {};
+    data[name][key][db] = { seq, updatedAt: new Date().toISOString() };
+    await this.save(data);
+  }
+
+  /** Remove a checkpoint entirely, or only its entry for one database. */
+  async remove(name: string, db?: string): Promise<void> {
+    const data = await this.load();
+    const entry = data[name];
+
+    if (!entry) {
+      throw new Error(`No checkpoint named "${name}"`);
+    }
+
+    if (db) {
+      for (const dbs of Object.values(entry)) delete dbs[db];
+    } else {
+      delete data[name];
+    }
+
+    await this.save(data);
+  }
+
+  async list(): Promise<CheckpointEntry[]> {
+    const data = await this.load();
+    const entries: CheckpointEntry[] = [];
+    for (const [name, connections] of Object.entries(data)) {
+      for (const [connection, dbs] of Object.entries(connections)) {
+        for (const [db, checkpoint] of Object.entries(dbs)) {
+          entries.push({ name, connection, db, ...checkpoint });
+        }
+      }
+    }
+    return entries;
+  }
+}
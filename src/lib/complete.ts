@@ -0,0 +1,288 @@
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import { dirname } from "node:path";
+import type { Argument, Command, Option } from "commander";
+import type { CouchClient, Document } from "./couch-client.js";
+import { OUTPUT_FORMATS } from "./output.js";
+
+/** Where completions for databases, docs and views come from. */
+export interface CompletionSource {
+  databases(): Promise<string[]>;
+  /** Up to a page of doc ids in `db` starting with `prefix`. */
+  documentIds(db: string, prefix: string): Promise<string[]>;
+  /** Design doc names (without `_design/`) mapped to their view names. */
+  designDocs(db: string): Promise<Record<string, string[]>>;
+}
+
+const DOC_ID_LIMIT = 50;
+
+/** A `CompletionSource` backed by a live client. */
+export function clientSource(client: CouchClient): CompletionSource {
+  return {
+    databases: () => client.listDatabases(),
+    async documentIds(db, prefix) {
+      const result = await client.getAllDocs(db, {
+        startkey: prefix,
+        endkey: `${prefix}\ufff0`,
+        limit: DOC_ID_LIMIT,
+      });
+      return result.rows.map((row) => row.id);
+    },
+    async designDocs(db) {
+      const result = await client.getDesignDocs(db, true);
+      const ddocs: Record<string, string[]> = {};
+      for (const row of result.rows) {
+        const doc = row.doc as (Document & { views?: object }) | undefined;
+        if (!doc) continue;
+        ddocs[row.id.replace(/^_design\//, "")] = Object.keys(doc.views ?? {});
+      }
+      return ddocs;
+    },
+  };
+}
+
+/**
+ * Wrap a source so each answer is reused for `ttl` ms. The shell keeps one of
+ * these for the whole session; entries are keyed by method and arguments.
+ */
+export function cachedSource(
+  source: CompletionSource,
+  ttl = 30_000,
+): CompletionSource {
+  const cache = new Map<string, { at: number; value: Promise<unknown> }>();
+  const cached = <T>(key: string, load: () => Promise<T>): Promise<T> => {
+    const hit = cache.get(key);
+    if (hit && Date.now() - hit.at < ttl) return hit.value as Promise<T>;
+    const value = load();
+    cache.set(key, { at: Date.now(), value });
+    // Don't keep failures around
+    value.catch(() => cache.delete(key));
+    return value;
+  };
+  return {
+    databases: () => cached("dbs", () => source.databases()),
+    documentIds: (db, prefix) =>
+      cached(`ids:${db}:${prefix}`, () => source.documentIds(db, prefix)),
+    designDocs: (db) => cached(`ddocs:${db}`, () => source.designDocs(db)),
+  };
+}
+
+/**
+ * Like `cachedSource`, but kept in a JSON file so that separate `sillon
+ * __complete` runs share answers. `scope` keeps connections apart, and
+ * `load` (which may read credentials) only runs on a miss.
+ */
+export function fileCachedSource(
+  load: () => Promise<CompletionSource>,
+  path: string,
+  scope: string,
+  ttl = 60_000,
+): CompletionSource {
+  type Entries = Record<string, { at: number; value: unknown }>;
+  let entries: Entries | undefined;
+  let source: Promise<CompletionSource> | undefined;
+
+  const cached = async <T>(
+    key: string,
+    fetch: (source: CompletionSource) => Promise<T>,
+  ): Promise<T> => {
+    entries ??= await readFile(path, "utf8")
+      .then((text) => JSON.parse(text) as Entries)
+      .catch(() => ({}));
+    const id = `${scope}|${key}`;
+    const hit = entries[id];
+    if (hit && Date.now() - hit.at < ttl) return hit.value as T;
+
+    source ??= load();
+    const value = await fetch(await source);
+    const now = Date.now();
+    for (const [k, entry] of Object.entries(entries)) {
+      if (now - entry.at >= ttl) delete entries[k];
+    }
+    entries[id] = { at: now, value };
+    try {
+      await mkdir(dirname(path), { recursive: true });
+      await writeFile(path, JSON.stringify(entries), { mode: 0o600 });
+    } catch {
+      // A read-only cache dir only costs speed
+    }
+    return value;
+  };
+
+  return {
+    databases: () => cached("dbs", (s) => s.databases()),
+    documentIds: (db, prefix) =>
+      cached(`ids:${db}:${prefix}`, (s) => s.documentIds(db, prefix)),
+    designDocs: (db) => cached(`ddocs:${db}`, (s) => s.designDocs(db)),
+  };
+}
+
+/** Argument names completed with database names. */
+const DB_ARGS = new Set(["db", "source", "target"]);
+
+function findOption(
+  commands: Command[],
+  flag: string,
+): { command: Command; option: Option } | undefined {
+  for (const command of commands) {
+    const option = command.options.find(
+      (o) => o.long === flag || o.short === flag,
+    );
+    if (option) return { command, option };
+  }
+  return undefined;
+}
+
+/**
+ * Complete the last word of `words` (the text typed after `sillon`, split
+ * into words; the last one may be empty) against the commander tree under
+ * `root`. Arguments named like `db`, `id`, `ddoc` and `view` are looked up
+ * through `source`, using `currentDb` when the line doesn't name one.
+ */
+export async function complete(
+  root: Command,
+  words: string[],
+  source: CompletionSource,
+  currentDb?: string,
+): Promise<string[]> {
+  const partial = words[words.length - 1] ?? "";
+  const before = words.slice(0, -1);
+
+  // Walk down the subcommands named so far; the root's options apply anywhere
+  const chain = [root];
+  let command = root;
+  const positionals: string[] = [];
+  for (let i = 0; i < before.length; i++) {
+    const word = before[i] as string;
+    if (word.startsWith("-")) {
+      const found = findOption(chain, word.split("=")[0] as string);
+      // Skip the value of `--opt value`
+      if (found && !found.option.isBoolean() && !word.includes("=")) i++;
+      continue;
+    }
+    const sub =
+      positionals.length === 0
+        ? command.commands.find(
+            (c) => c.name() === word || c.aliases().includes(word),
+          )
+        : undefined;
+    if (sub) {
+      command = sub;
+      chain.unshift(sub);
+    } else {
+      positionals.push(word);
+    }
+  }
+
+  const matching = (candidates: Iterable<string>) =>
+    [...new Set(candidates)].filter((c) => c.startsWith(partial)).sort();
+
+  // A value for the option just before the cursor
+  const previous = before[before.length - 1];
+  if (previous?.startsWith("-") && !previous.includes("=")) {
+    const found = findOption(chain, previous);
+    if (found && !found.option.isBoolean()) {
+      if (found.option.argChoices) return matching(found.option.argChoices);
+      if (found.command === root && found.option.long === "--output") {
+        return matching(OUTPUT_FORMATS);
+      }
+      return [];
+    }
+  }
+
+  if (partial.startsWith("-")) {
+    const flags = chain.flatMap((c) =>
+      c
+        .createHelp()
+        .visibleOptions(c)
+        .flatMap((o) => [o.long, o.short]),
+    );
+    return matching(flags.filter((f): f is string => !!f));
+  }
+
+  if (command.commands.length > 0 && positionals.length === 0) {
+    const names = command
+      .createHelp()
+      .visibleCommands(command)
+      .map((c) => c.name());
+    return matching(names);
+  }
+
+  const args = command.registeredArguments as readonly Argument[];
+  const arg = args[Math.min(positionals.length, args.length - 1)];
+  if (!arg || (positionals.length >= args.length && !arg.variadic)) return [];
+
+  // Resolve db, ddoc and view from the words already typed
+  const named = new Map<string, string>();
+  args.forEach((a, i) => {
+    const value = positionals[i];
+    if (value !== undefined) named.set(a.name(), value);
+  });
+  const db = named.get("db") ?? currentDb;
+  const name = arg.name();
+  if (arg.argChoices) return matching(arg.argChoices);
+
+  try {
+    if (
+      DB_ARGS.has(name) ||
+      (name === "name" && command.parent?.name() === "db")
+    ) {
+      return matching(await source.databases());
+    }
+    if (!db) return [];
+    if (name === "id") {
+      return matching(await source.documentIds(db, partial));
+    }
+    if (name === "ddoc") {
+      return matching(Object.keys(await source.designDocs(db)));
+    }
+    if (name === "view") {
+      const ddoc = named.get("ddoc")?.replace(/^_design\//, "");
+      const ddocs = await source.designDocs(db);
+      return matching(ddoc ? (ddocs[ddoc] ?? []) : Object.values(ddocs).flat());
+    }
+  } catch {
+    // Completion is best effort: an unreachable server just completes nothing
+  }
+  return [];
+}
+
+/**
+ * Split a command line into words the way a POSIX shell would for simple
+ * input: whitespace separates, single quotes are literal, double quotes and
+ * backslashes escape. Throws on an unterminated quote.
+ */
+export function splitWords(line: string): string[] {
+  const words: string[] = [];
+  let word = "";
+  let started = false;
+  let quote: "'" | '"' | undefined;
+
+  for (let i = 0; i < line.length; i++) {
+    const ch = line[i] as string;
+    if (quote === "'") {
+      if (ch === "'") quote = undefined;
+      else word += ch;
+    } else if (quote === '"') {
+      if (ch === '"') quote = undefined;
+      else if (ch === "\\" && /["\\$`]/.test(line[i + 1] ?? "")) {
+        word += line[++i];
+      } else word += ch;
+    } else if (ch === "'" || ch === '"') {
+      quote = ch;
+      started = true;
+    } else if (ch === "\\" && i + 1 < line.length) {
+      word += line[++i];
+      started = true;
+    } else if (/\s/.test(ch)) {
+      if (started) words.push(word);
+      word = "";
+      started = false;
+    } else {
+      word += ch;
+      started = true;
+    }
+  }
+  if (quote) throw new Error(`Unterminated ${quote} quote`);
+  if (started) words.push(word);
+  return words;
+}
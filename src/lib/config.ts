@@ -1,30 +1,38 @@
 import { homedir } from "os";
 import { join } from "path";
 import { mkdir } from "fs/promises";
+import type { CouchClientOptions } from "./couch-client.js";
+import { CredentialStore, splitCredentials } from "./credentials.js";
+import type { OutputSetting } from "./output.js";
 
 export interface ConnectionConfig {
   url: string;
   name?: string;
   isDefault?: boolean;
+  options?: CouchClientOptions; // timeouts, retries and credentials
 }
 
 export interface SillonConfig {
   defaultConnection?: string; // raw URL default
   defaultConnectionName?: string; // named connection default (takes precedence)
   currentDb?: string; // last-used database (sillon db use <name>)
-  connections: Record<string, string>;
+  connections: Record<string, string>; // credentials live in credentials.json
+  client?: CouchClientOptions; // timeout/retry defaults for every connection
+  connectionOptions?: Record<string, CouchClientOptions>; // per named connection
   editor?: string;
-  output?: "auto" | "json" | "table";
+  output?: OutputSetting; // table, json, ndjson, yaml, csv, tsv or auto
 }
 
 export class ConfigManager {
   private configDir: string;
   private configPath: string;
   private config: SillonConfig | null = null;
+  private credentials: CredentialStore;
 
   constructor(configDir?: string) {
     this.configDir = configDir ?? join(homedir(), ".config", "sillon");
     this.configPath = join(this.configDir, "config.json");
+    this.credentials = new CredentialStore(this.configDir);
   }
 
   getConfigPath(): string {
@@ -37,8 +45,10 @@ export class ConfigManager {
     try {
       const file = Bun.file(this.configPath);
       if (await file.exists()) {
-        this.config = await file.json();
-        return this.config!;
+        const config = (await file.json()) as SillonConfig;
+        await this.migrateCredentials(config);
+        this.config = config;
+        return config;
       }
     } catch {
       // File doesn't exist or is invalid
@@ -60,12 +70,81 @@ export class ConfigManager {
     this.config = config;
   }
 
-  async saveConnection(name: string, url: string): Promise<void> {
+  /**
+   * Move credentials that older versions kept in config.json (URL userinfo,
+   * inline `auth`) into the credential store. Best effort: if the store is
+   * locked, the rest stays put and keeps working until the next load.
+   */
+  private async migrateCredentials(config: SillonConfig): Promise<void> {
+    let changed = false;
+    try {
+      for (const [name, url] of Object.entries(config.connections)) {
+        const split = splitCredentials(url);
+        const named = config.connectionOptions?.[name];
+        const auth = named?.auth ?? split.auth;
+        if (!auth) continue;
+        await this.credentials.set(name, auth);
+        config.connections[name] = split.url;
+        if (named) named.auth = undefined;
+        changed = true;
+      }
+
+      if (config.defaultConnection) {
+        const split = splitCredentials(config.defaultConnection);
+        if (split.auth) {
+          // A named default already has its credentials under its name
+          if (!config.defaultConnectionName) {
+            await this.credentials.set(split.url, split.auth);
+          }
+          config.defaultConnection = split.url;
+          changed = true;
+        }
+      }
+    } catch {
+      // Store locked or URL unparseable — leave the rest as it is
+    }
+    if (changed) await this.save(config);
+  }
+
+  async saveConnection(
+    name: string,
+    url: string,
+    options?: CouchClientOptions,
+  ): Promise<void> {
     const config = await this.load();
-    config.connections[name] = url;
+    const split = splitCredentials(url);
+    const { auth = split.auth, ...rest } = options ?? {};
+    config.connections[name] = split.url;
+    if (Object.keys(rest).length > 0) {
+      config.connectionOptions ??= {};
+      config.connectionOptions[name] = rest;
+    }
+    if (auth) await this.credentials.set(name, auth);
+    else await this.credentials.remove(name);
     await this.save(config);
   }
 
+  /** Client options for a connection: global defaults, then per-name overrides. */
+  private clientOptions(
+    config: SillonConfig,
+    name?: string,
+  ): CouchClientOptions | undefined {
+    const named = name ? config.connectionOptions?.[name] : undefined;
+    if (!config.client && !named) return undefined;
+    return { ...config.client, ...named };
+  }
+
+  /** Client options plus the credentials stored under `key`. */
+  private async resolveOptions(
+    config: SillonConfig,
+    key: string,
+    name?: string,
+  ): Promise<CouchClientOptions | undefined> {
+    const options = this.clientOptions(config, name);
+    const auth = await this.credentials.get(key);
+    return auth ? { ...options, auth } : options;
+  }
+
   async removeConnection(name: string): Promise<void> {
     const config = await this.load();
 
@@ -74,6 +153,8 @@ export class ConfigManager {
     }
 
     delete config.connections[name];
+    if (config.connectionOptions) delete config.connectionOptions[name];
+    await this.credentials.remove(name);
 
     // Clear default if it was pointing at this name
     if (config.defaultConnectionName === name) {
@@ -100,7 +181,9 @@ export class ConfigManager {
   /** Set default by raw URL (no name required). */
   async setDefaultConnection(url: string): Promise<void> {
     const config = await this.load();
-    config.defaultConnection = url;
+    const split = splitCredentials(url);
+    if (split.auth) await this.credentials.set(split.url, split.auth);
+    config.defaultConnection = split.url;
     delete config.defaultConnectionName; // raw URL takes over, clear named default
     await this.save(config);
   }
@@ -112,26 +195,36 @@ export class ConfigManager {
     if (config.defaultConnectionName) {
       const url = config.connections[config.defaultConnectionName];
       if (url) {
-        return { url, name: config.defaultConnectionName, isDefault: true };
+        const name = config.defaultConnectionName;
+        const options = await this.resolveOptions(config, name, name);
+        return { url, name, isDefault: true, options };
       }
       // Named connection was deleted — fall through
     }
 
     // Raw URL default
     if (config.defaultConnection) {
-      return { url: config.defaultConnection, isDefault: true };
+      const url = config.defaultConnection;
+      const options = await this.resolveOptions(config, url);
+      return { url, isDefault: true, options };
     }
 
     // COUCHDB_URL env var
     if (process.env.COUCHDB_URL) {
-      return { url: process.env.COUCHDB_URL };
+      return {
+        url: process.env.COUCHDB_URL,
+        options: this.clientOptions(config),
+      };
     }
 
     // Auto-detect local CouchDB
     try {
       const response = await fetch("http://localhost:5984/");
       if (response.ok) {
-        return { url: "http://localhost:5984" };
+        return {
+          url: "http://localhost:5984",
+          options: this.clientOptions(config),
+        };
       }
     } catch {
       // Not running locally
@@ -148,7 +241,8 @@ export class ConfigManager {
     const url = config.connections[name];
     if (!url) return null;
     const isDefault = config.defaultConnectionName === name;
-    return { url, name, isDefault };
+    const options = await this.resolveOptions(config, name, name);
+    return { url, name, isDefault, options };
   }
 
   async listConnections(): Promise<ConnectionConfig[]> {
@@ -0,0 +1,437 @@
+import { existsSync } from "node:fs";
+import { resolve } from "node:path";
+import { pathToFileURL } from "node:url";
+import {
+  type AttachmentStub,
+  type CouchClient,
+  CouchError,
+  type Document,
+} from "./couch-client.js";
+import { deepEqual } from "./diff.js";
+import { isObject } from "./json-view.js";
+import { REVISION_FIELDS, revPos, sortLeaves } from "./revisions.js";
+
+/** A winning revision as returned with `conflicts=true`. */
+export interface ConflictedDoc extends Document {
+  _rev: string;
+  _conflicts: string[];
+}
+
+/**
+ * How to find conflicted docs:
+ * - `all-docs` reads every document through `_all_docs?conflicts=true`
+ * - `view` installs CONFLICTS_DDOC, reads only its rows and removes it again
+ * - `mango` asks `_find` for docs where `_conflicts` exists
+ */
+export const SCAN_MODES = ["all-docs", "view", "mango"] as const;
+
+export type ScanMode = (typeof SCAN_MODES)[number];
+
+/** How far a scan got: `scanned` of `total` docs (or view rows). */
+export interface ScanProgress {
+  scanned: number;
+  total: number;
+  found: number;
+}
+
+export interface ScanOptions {
+  mode?: ScanMode;
+  pageSize?: number;
+  onProgress?: (progress: ScanProgress) => void;
+  /** Leave CONFLICTS_DDOC in the database after a `view` scan. */
+  keepView?: boolean;
+}
+
+/** Helper design doc for `view` scans; only conflicted docs get a row. */
+export const CONFLICTS_DDOC = {
+  _id: "_design/sillon-conflicts",
+  language: "javascript",
+  views: {
+    conflicts: {
+      map: "function (doc) { if (doc._conflicts) emit(doc._id, { _rev: doc._rev, _conflicts: doc._conflicts }); }",
+    },
+  },
+};
+
+/**
+ * Every document in `db` with conflicting revisions, page by page. Pages
+ * continue from the next row's key (or the Mango bookmark), so docs resolved
+ * along the way don't shift the walk.
+ */
+export async function* conflictedDocs(
+  client: CouchClient,
+  db: string,
+  options: ScanOptions = {},
+): AsyncGenerator<ConflictedDoc> {
+  const { mode = "all-docs", pageSize = 500 } = options;
+  const scans = { "all-docs": scanAllDocs, view: scanView, mango: scanMango };
+  const scan = scans[mode];
+  if (!scan) {
+    throw new Error(
+      `Unknown scan mode "${mode}": use ${SCAN_MODES.join(", ")}`,
+    );
+  }
+  const progress: ScanProgress = { scanned: 0, total: 0, found: 0 };
+  yield* scan(
+    client,
+    db,
+    pageSize,
+    progress,
+    () => options.onProgress?.({ ...progress }),
+    options.keepView ?? false,
+  );
+}
+
+type Scan = (
+  client: CouchClient,
+  db: string,
+  pageSize: number,
+  progress: ScanProgress,
+  report: () => void,
+  keepView: boolean,
+) => AsyncGenerator<ConflictedDoc>;
+
+const scanAllDocs: Scan = async function* (
+  client,
+  db,
+  pageSize,
+  progress,
+  report,
+) {
+  let startkey: string | undefined;
+  while (true) {
+    const page = await client.getConflicts(db, {
+      limit: pageSize + 1,
+      startkey,
+    });
+    const rows = page.rows.slice(0, pageSize);
+    progress.total = page.total_rows;
+    progress.scanned += rows.length;
+    for (const row of rows) {
+      const doc = row.doc as Partial<ConflictedDoc> | undefined;
+      if (!doc?._conflicts?.length) continue;
+      progress.found++;
+      yield doc as ConflictedDoc;
+    }
+    report();
+    const next = page.rows[pageSize];
+    if (!next) return;
+    startkey = next.id;
+  }
+};
+
+const scanView: Scan = async function* (
+  client,
+  db,
+  pageSize,
+  progress,
+  report,
+  keepView,
+) {
+  const rev = await ensureConflictsView(client, db);
+  try {
+    // The first query may wait for the index to build
+    report();
+    const ddoc = CONFLICTS_DDOC._id.slice("_design/".length);
+    let startkey: string | undefined;
+    while (true) {
+      const page = await client.queryView(db, ddoc, "conflicts", {
+        startkey,
+        limit: pageSize + 1,
+      });
+      const rows = page.rows.slice(0, pageSize);
+      progress.total = page.total_rows ?? rows.length;
+      progress.scanned += rows.length;
+      for (const row of rows) {
+        const value = row.value as Pick<ConflictedDoc, "_rev" | "_conflicts">;
+        progress.found++;
+        yield { _id: row.id, ...value };
+      }
+      report();
+      const next = page.rows[pageSize];
+      if (!next) return;
+      startkey = next.id;
+    }
+  } finally {
+    // Otherwise CouchDB keeps the index up to date on every write
+    if (!keepView) {
+      await client.deleteDocument(db, CONFLICTS_DDOC._id, rev);
+      // Frees the index files; the scan itself is done either way
+      await client.viewCleanup(db).catch(() => undefined);
+    }
+  }
+};
+
+const scanMango: Scan = async function* (
+  client,
+  db,
+  pageSize,
+  progress,
+  report,
+) {
+  progress.total = (await client.getDatabaseInfo(db)).doc_count;
+  report();
+  let bookmark: string | undefined;
+  while (true) {
+    const page = await client.mangoQuery(db, {
+      selector: { _conflicts: { $exists: true } },
+      fields: ["_id", "_rev", "_conflicts"],
+      conflicts: true,
+      execution_stats: true,
+      limit: pageSize,
+      bookmark,
+    });
+    progress.scanned +=
+      page.execution_stats?.total_docs_examined ?? page.docs.length;
+    for (const doc of page.docs) {
+      if (!(doc as Partial<ConflictedDoc>)._conflicts?.length) continue;
+      progress.found++;
+      yield doc as ConflictedDoc;
+    }
+    report();
+    // A short page is the last one; the bookmark alone doesn't say so
+    if (page.docs.length < pageSize || !page.bookmark) return;
+    bookmark = page.bookmark;
+  }
+};
+
+/**
+ * Create or update CONFLICTS_DDOC in `db` unless it is already current, and
+ * return its rev.
+ */
+export async function ensureConflictsView(
+  client: CouchClient,
+  db: string,
+): Promise<string> {
+  let current: Document | undefined;
+  try {
+    current = await client.getDocument(db, CONFLICTS_DDOC._id);
+  } catch (error) {
+    if (!(error instanceof CouchError && error.status === 404)) throw error;
+  }
+  if (current?._rev && deepEqual(current.views, CONFLICTS_DDOC.views)) {
+    return current._rev;
+  }
+  const { rev } = await client.putDocument(db, {
+    ...CONFLICTS_DDOC,
+    _rev: current?._rev,
+  });
+  return rev;
+}
+
+/**
+ * The bodies of the winner and each of its conflicts, fetched together with
+ * `open_revs`, winner first. Revisions compacted away are left out.
+ */
+export async function getConflictRevisions(
+  client: CouchClient,
+  db: string,
+  doc: ConflictedDoc,
+): Promise<Document[]> {
+  const results = await client.getOpenRevs(db, doc._id as string, [
+    doc._rev,
+    ...doc._conflicts,
+  ]);
+  return sortLeaves(
+    results.flatMap((r) => ("ok" in r && !r.ok._deleted ? [r.ok] : [])),
+  );
+}
+
+/** `doc` without its revision bookkeeping, ready to compare or rewrite. */
+export function documentBody(
+  doc: Record<string, unknown>,
+): Record<string, unknown> {
+  return Object.fromEntries(
+    Object.entries(doc).filter(([key]) => !REVISION_FIELDS.includes(key)),
+  );
+}
+
+/**
+ * The `_bulk_docs` payload that settles a conflict: `body` written on top of
+ * the winning rev (skipped when undefined, i.e. the winner is kept as is) and
+ * a tombstone for every other leaf.
+ */
+export function resolutionDocs(
+  id: string,
+  winnerRev: string,
+  losingRevs: string[],
+  body?: Record<string, unknown>,
+): Document[] {
+  const docs: Document[] = losingRevs.map((rev) => ({
+    _id: id,
+    _rev: rev,
+    _deleted: true,
+  }));
+  if (body) docs.unshift({ ...body, _id: id, _rev: winnerRev });
+  return docs;
+}
+
+type Attachments = Record<string, AttachmentStub & { data?: string }>;
+
+/**
+ * `body` with the attachment stubs the winner doesn't share replaced by their
+ * data. Stubs written over the winning rev must be in its history, or
+ * `_bulk_docs` rejects them, so the revisions they came from are re-read with
+ * `attachments=true`. Stubs no revision has are left for CouchDB to refuse.
+ */
+export async function inlineAttachments(
+  client: CouchClient,
+  db: string,
+  revisions: Document[],
+  body: Record<string, unknown>,
+): Promise<Record<string, unknown>> {
+  const attachments = body._attachments as Attachments | undefined;
+  if (!attachments) return body;
+  const winner = revisions[0]?._attachments as Attachments | undefined;
+  const inlined: Record<string, Promise<Document>> = {};
+  const result: Attachments = {};
+
+  for (const [name, attachment] of Object.entries(attachments)) {
+    result[name] = attachment;
+    if (!attachment.stub || winner?.[name]?.digest === attachment.digest) {
+      continue;
+    }
+    const source = revisions.find(
+      (r) =>
+        (r._attachments as Attachments | undefined)?.[name]?.digest ===
+        attachment.digest,
+    );
+    if (!source?._rev) continue;
+    inlined[source._rev] ??= client.getDocument(db, source._id, {
+      rev: source._rev,
+      attachments: true,
+    });
+    const full = await inlined[source._rev];
+    const data = (full?._attachments as Attachments | undefined)?.[name];
+    if (data) result[name] = data;
+  }
+  return { ...body, _attachments: result };
+}
+
+// ── strategies ────────────────────────────────────────────────────────────────
+
+/**
+ * Decides one conflicted document: given every revision (winner first), the
+ * body to keep, or undefined to leave the document alone. Resolver modules
+ * export one of these as `default` or `resolve`.
+ */
+export type Resolver = (
+  revisions: Document[],
+  context: { db: string; id: string },
+) => ResolvedBody | Promise<ResolvedBody>;
+
+type ResolvedBody = Record<string, unknown> | undefined | null;
+
+export const STRATEGIES = ["latest", "generation", "merge"] as const;
+
+export interface StrategyOptions {
+  /** Timestamp field for `latest` and for merges that prefer the newest. */
+  field: string;
+  /** Whose values win a merge where revisions disagree. */
+  prefer: "winner" | "latest";
+}
+
+/** Epoch millis of a timestamp field: numbers as is, strings via Date.parse. */
+function timestamp(value: unknown): number | undefined {
+  if (typeof value === "number") return value;
+  if (typeof value !== "string") return undefined;
+  const time = Date.parse(value);
+  return Number.isNaN(time) ? undefined : time;
+}
+
+/** Newest `field` first; revisions without one go last, in winner order. */
+function newestFirst(revisions: Document[], field: string): Document[] {
+  return [...revisions].sort((a, b) => {
+    const ta = timestamp(a[field]);
+    const tb = timestamp(b[field]);
+    if (ta === undefined || tb === undefined) {
+      return (ta === undefined ? 1 : 0) - (tb === undefined ? 1 : 0);
+    }
+    return tb - ta;
+  });
+}
+
+/** `preferred` plus whatever `other` has that it lacks, object by object. */
+function mergeInto(
+  preferred: Record<string, unknown>,
+  other: Record<string, unknown>,
+): Record<string, unknown> {
+  const merged = { ...preferred };
+  for (const [key, value] of Object.entries(other)) {
+    if (!Object.hasOwn(merged, key)) merged[key] = value;
+    else if (isObject(merged[key]) && isObject(value)) {
+      merged[key] = mergeInto(merged[key] as Record<string, unknown>, value);
+    }
+  }
+  return merged;
+}
+
+/** Keep the revision whose `field` holds the newest timestamp. */
+export function latestBy(field: string): Resolver {
+  return (revisions) => {
+    const newest = newestFirst(revisions, field)[0];
+    return newest && documentBody(newest);
+  };
+}
+
+/**
+ * Keep the revision with the longest history. Among live leaves that is the
+ * one CouchDB already returns, so this makes its pick permanent.
+ */
+export const highestGeneration: Resolver = (revisions) => {
+  const best = revisions.reduce<Document | undefined>(
+    (top, rev) =>
+      !top || revPos(rev._rev ?? "") > revPos(top._rev ?? "") ? rev : top,
+    undefined,
+  );
+  return best && documentBody(best);
+};
+
+/**
+ * Combine every revision: fields any of them has are kept and objects merge
+ * key by key. Where values disagree the preferred revision wins, arrays
+ * included (they are not concatenated).
+ */
+export function deepMerge(options: StrategyOptions): Resolver {
+  return (revisions) => {
+    const order =
+      options.prefer === "latest"
+        ? newestFirst(revisions, options.field)
+        : revisions;
+    const bodies = order.map(documentBody);
+    return bodies.length > 0 ? bodies.reduce(mergeInto) : undefined;
+  };
+}
+
+/**
+ * The resolver for `--strategy`: one of STRATEGIES, or else a path to a JS or
+ * TS module exporting a Resolver.
+ */
+export async function resolverFor(
+  strategy: string,
+  options: StrategyOptions,
+): Promise<Resolver> {
+  switch (strategy) {
+    case "latest":
+      return latestBy(options.field);
+    case "generation":
+      return highestGeneration;
+    case "merge":
+      return deepMerge(options);
+  }
+
+  const path = resolve(strategy);
+  if (!existsSync(path)) {
+    throw new Error(
+      `Unknown strategy "${strategy}": use ${STRATEGIES.join(", ")} or a resolver module path`,
+    );
+  }
+  const module = await import(pathToFileURL(path).href);
+  const resolver = module.default ?? module.resolve;
+  if (typeof resolver !== "function") {
+    throw new Error(
+      `${strategy} must export a resolver function as default or "resolve"`,
+    );
+  }
+  return resolver as Resolver;
+}
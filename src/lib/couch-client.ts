@@ -16,9 +16,25 @@ export interface DatabaseInfo {
 export interface Document {
   _id: string;
   _rev?: string;
+  _deleted?: boolean;
   [key: string]: unknown;
 }
 
+/** One entry of `_revs_info`: "missing" once compaction dropped the body. */
+export interface RevInfo {
+  rev: string;
+  status: "available" | "missing" | "deleted";
+}
+
+/** `_revisions` from `?revs=true`: rev ids newest first, counting down from `start`. */
+export interface Revisions {
+  start: number;
+  ids: string[];
+}
+
+/** One item of an `open_revs` response. */
+export type OpenRev = { ok: Document } | { missing: string };
+
 export interface ViewRow {
   id: string;
   key: unknown;
@@ -32,6 +48,21 @@ export interface ViewResult {
   rows: ViewRow[];
 }
 
+export interface ViewQueryOptions {
+  key?: unknown;
+  startkey?: unknown;
+  /** Tie-breaker among rows with the same `startkey` (map views only). */
+  startkey_docid?: string;
+  endkey?: unknown;
+  limit?: number;
+  skip?: number;
+  descending?: boolean;
+  include_docs?: boolean;
+  reduce?: boolean;
+  group?: boolean;
+  group_level?: number;
+}
+
 export interface AllDocsRow {
   id: string;
   key: string;
@@ -55,13 +86,31 @@ export interface AllDocsOptions {
   include_docs?: boolean;
   inclusive_end?: boolean;
   conflicts?: boolean;
+  /** Inline attachment bodies (base64) in included docs. */
+  attachments?: boolean;
+}
+
+export interface SecurityObject {
+  admins?: { names?: string[]; roles?: string[] };
+  members?: { names?: string[]; roles?: string[] };
+  [key: string]: unknown;
+}
+
+/**
+ * A replication source or target with its credentials kept out of the URL:
+ * `auth.basic` (CouchDB 3.2+) or explicit headers such as a bearer token.
+ */
+export interface ReplicationEndpoint {
+  url: string;
+  auth?: { basic: { username: string; password: string } };
+  headers?: Record<string, string>;
 }
 
 export interface ReplicationJobDoc {
   _id: string;
   _rev?: string;
-  source: string | { url: string };
-  target: string | { url: string };
+  source: string | ReplicationEndpoint;
+  target: string | ReplicationEndpoint;
   continuous?: boolean;
   create_target?: boolean;
   filter?: string;
@@ -93,6 +142,8 @@ export interface MangoQuery {
   bookmark?: string;
   use_index?: string | string[];
   execution_stats?: boolean;
+  /** Add `_conflicts` to each doc that has any. */
+  conflicts?: boolean;
 }
 
 export interface MangoResult {
@@ -145,7 +196,9 @@ export interface SchedulerJob {
 }
 
 export interface SchedulerDoc {
-  id: string;
+  /** The replication id; null until the scheduler has assigned one. */
+  id: string | null;
+  doc_id: string;
   database: string;
   node: string;
   source: string;
@@ -157,57 +210,491 @@ export interface SchedulerDoc {
   error_count: number;
 }
 
+export interface AttachmentStub {
+  content_type: string;
+  length: number;
+  digest: string;
+  revpos: number;
+  stub?: boolean;
+}
+
+export interface AttachmentInfo extends AttachmentStub {
+  name: string;
+}
+
+export interface ChangesOptions {
+  /** `normal` and `longpoll` return one batch; see `streamChanges` for live feeds. */
+  feed?: "normal" | "longpoll" | "continuous" | "eventsource";
+  since?: string | number;
+  limit?: number;
+  descending?: boolean;
+  include_docs?: boolean;
+  conflicts?: boolean;
+  style?: "main_only" | "all_docs";
+  /** Filter function (`ddoc/name`) or a built-in such as `_design`. */
+  filter?: string;
+  /** Mango selector — sent as `filter=_selector`. */
+  selector?: MangoSelector;
+  /** Restrict to specific ids — sent as `filter=_doc_ids`. */
+  doc_ids?: string[];
+  /** Heartbeat interval in ms for longpoll/continuous feeds. */
+  heartbeat?: number;
+  timeout?: number;
+  seq_interval?: number;
+  /** Extra query params passed through to a filter function. */
+  query_params?: Record<string, string>;
+  signal?: AbortSignal;
+}
+
+export interface ChangeRow {
+  seq: string | number;
+  id: string;
+  changes: Array<{ rev: string }>;
+  deleted?: boolean;
+  doc?: Document;
+}
+
+export interface ChangesResult {
+  results: ChangeRow[];
+  last_seq: string | number;
+  pending?: number;
+}
+
+/**
+ * An HTTP error response from CouchDB. `message` is the server's `reason`
+ * (falling back to `error`, then the raw body) so it reads well on its own;
+ * the structured fields let callers tell a 404 from a 409 without
+ * string-matching.
+ */
+export class CouchError extends Error {
+  readonly status: number;
+  readonly error?: string;
+  readonly reason?: string;
+  readonly method: string;
+  readonly path: string;
+
+  constructor(details: {
+    status: number;
+    error?: string;
+    reason?: string;
+    method: string;
+    path: string;
+    body?: string;
+  }) {
+    super(
+      details.reason ||
+        details.error ||
+        details.body ||
+        `HTTP ${details.status}`,
+    );
+    this.name = "CouchError";
+    this.status = details.status;
+    this.error = details.error;
+    this.reason = details.reason;
+    this.method = details.method;
+    this.path = details.path;
+  }
+}
+
+/**
+ * How a client authenticates. Without one, credentials in the URL userinfo
+ * are sent as Basic auth. `session` logs in via `POST /_session` and sends
+ * the AuthSession cookie; `jwt` sends a bearer token.
+ */
+export type CouchAuth =
+  | { type: "basic"; username: string; password: string }
+  | { type: "session"; username: string; password: string }
+  | { type: "jwt"; token: string };
+
+export interface SessionInfo {
+  ok: boolean;
+  userCtx: { name: string | null; roles: string[] };
+  info: {
+    authenticated?: string;
+    authentication_handlers?: string[];
+  };
+}
+
+/** Retry, timeout and auth behaviour, set per client (and per saved connection). */
+export interface CouchClientOptions {
+  auth?: CouchAuth;
+  /** Abort a request when no response arrives within this many ms; 0 disables (default 0). */
+  timeout?: number;
+  /** Extra attempts after a transient failure; 0 disables retries (default 3). */
+  maxRetries?: number;
+  /**
+   * Also resend view, `_find` and search queries that timed out (default
+   * false): an index still building would just time out again.
+   */
+  retryQueryTimeouts?: boolean;
+  /** Base delay for exponential backoff with jitter, in ms (default 250). */
+  retryDelay?: number;
+  /** Upper bound for a single backoff delay, in ms (default 10000). */
+  maxRetryDelay?: number;
+  /** HTTP statuses worth another attempt (default 429, 502, 503, 504). */
+  retryStatuses?: number[];
+}
+
+/** Per-request overrides for `CouchClient.request`. */
+interface RequestPolicy {
+  /**
+   * The request can be resent without side effects. Defaults to true for
+   * GET/HEAD/PUT/DELETE; read-only POSTs (`_find`, `_all_docs` with keys, …)
+   * opt in explicitly.
+   */
+  idempotent?: boolean;
+  /** Override the client timeout; 0 for long-lived feeds. */
+  timeout?: number;
+  /** Resend after a timeout, when idempotent (default true). */
+  retryTimeouts?: boolean;
+  /** Send credentials (default true; false for the `_session` login itself). */
+  authenticate?: boolean;
+}
+
+interface SessionCookie {
+  value: string;
+  expiresAt?: number;
+}
+
+// Log in again slightly before the cookie expires rather than racing it
+const SESSION_REFRESH_MARGIN_MS = 5000;
+
+/** Read the AuthSession cookie CouchDB sets on login (and refreshes later). */
+function parseSessionCookie(response: Response): SessionCookie | undefined {
+  const header = response.headers.get("Set-Cookie");
+  const value = header ? /AuthSession=([^;]*)/.exec(header)?.[1] : undefined;
+  // An empty value is CouchDB clearing the cookie
+  if (!header || !value) return undefined;
+
+  const maxAge = /Max-Age=(\d+)/i.exec(header)?.[1];
+  const expires = /Expires=([^;]+)/i.exec(header)?.[1];
+  let expiresAt: number | undefined;
+  if (maxAge) expiresAt = Date.now() + Number(maxAge) * 1000;
+  else if (expires) expiresAt = Date.parse(expires) || undefined;
+  return { value, expiresAt };
+}
+
+function basicAuth(username: string, password: string): string {
+  return `Basic ${btoa(`${username}:${password}`)}`;
+}
+
+const IDEMPOTENT_METHODS = new Set(["GET", "HEAD", "PUT", "DELETE", "OPTIONS"]);
+
+// Bun and Node report connection failures with different codes
+const NETWORK_CODES = new Set([
+  "ConnectionRefused",
+  "ConnectionClosed",
+  "FailedToOpenSocket",
+  "ECONNREFUSED",
+  "ECONNRESET",
+  "ENOTFOUND",
+  "ETIMEDOUT",
+  "EAI_AGAIN",
+]);
+
+// Failures that may succeed on a second attempt. A refused connection or an
+// unknown host usually means a wrong URL or a stopped server, so fail fast.
+const TRANSIENT_CODES = new Set([
+  "ConnectionClosed",
+  "ECONNRESET",
+  "ETIMEDOUT",
+  "EAI_AGAIN",
+  "EPIPE",
+]);
+
+function errorCode(error: unknown): string | undefined {
+  return error instanceof Error
+    ? (error as Error & { code?: string }).code
+    : undefined;
+}
+
+/** True for connection failures and timeouts (no HTTP response at all). */
+export function isNetworkError(error: unknown): boolean {
+  if (!(error instanceof Error)) return false;
+  const code = errorCode(error);
+  if (code && NETWORK_CODES.has(code)) return true;
+  return error.name === "TimeoutError";
+}
+
+function isTransientError(error: unknown): boolean {
+  const code = errorCode(error);
+  if (code && TRANSIENT_CODES.has(code)) return true;
+  return error instanceof Error && error.name === "TimeoutError";
+}
+
+/** Parse a Retry-After header given in seconds; HTTP dates are ignored. */
+function retryAfterMs(response: Response): number | undefined {
+  const value = response.headers.get("Retry-After");
+  if (!value) return undefined;
+  const seconds = Number(value);
+  return Number.isFinite(seconds) && seconds >= 0 ? seconds * 1000 : undefined;
+}
+
 export class CouchClient {
   private baseUrl: string;
   private authHeader?: string;
-
-  constructor(url: string) {
+  private sessionAuth?: { username: string; password: string };
+  private session?: SessionCookie;
+  private loggingIn?: Promise<SessionCookie>;
+  private timeout: number;
+  private maxRetries: number;
+  private retryQueryTimeouts: boolean;
+  private retryDelay: number;
+  private maxRetryDelay: number;
+  private retryStatuses: Set<number>;
+  private interrupt?: AbortSignal;
+
+  constructor(url: string, options: CouchClientOptions = {}) {
     const parsed = new URL(url);
     this.baseUrl = `${parsed.protocol}//${parsed.host}`;
     
-    // Extract credentials and create Basic Auth header
-    if (parsed.username || parsed.password) {
-      const creds = `${decodeURIComponent(parsed.username)}:${decodeURIComponent(parsed.password)}`;
-      this.authHeader = `Basic ${btoa(creds)}`;
+    // Explicit auth wins; otherwise fall back to Basic auth from the URL
+    const auth = options.auth;
+    if (auth?.type === "basic") {
+      this.authHeader = basicAuth(auth.username, auth.password);
+    } else if (auth?.type === "jwt") {
+      this.authHeader = `Bearer ${auth.token}`;
+    } else if (auth?.type === "session") {
+      this.sessionAuth = { username: auth.username, password: auth.password };
+    } else if (parsed.username || parsed.password) {
+      this.authHeader = basicAuth(
+        decodeURIComponent(parsed.username),
+        decodeURIComponent(parsed.password),
+      );
     }
+
+    this.timeout = options.timeout ?? 0;
+    this.maxRetries = Math.max(0, options.maxRetries ?? 3);
+    this.retryQueryTimeouts = options.retryQueryTimeouts ?? false;
+    this.retryDelay = options.retryDelay ?? 250;
+    this.maxRetryDelay = options.maxRetryDelay ?? 10000;
+    this.retryStatuses = new Set(options.retryStatuses ?? [429, 502, 503, 504]);
+  }
+
+  /**
+   * Abort every request, in flight or to come, once `signal` fires (until
+   * cleared). `sillon shell` sets one per command so Ctrl-C cancels it.
+   */
+  setSignal(signal: AbortSignal | undefined): void {
+    this.interrupt = signal;
+  }
+
+  /**
+   * Policy for index queries (views, `_find`, search): read-only, but the
+   * first query after a change waits for the index to catch up.
+   */
+  private queryPolicy(): RequestPolicy {
+    return { idempotent: true, retryTimeouts: this.retryQueryTimeouts };
   }
 
+  /** Exponential backoff with equal jitter: half fixed, half random. */
+  private backoff(attempt: number): number {
+    const ceiling = Math.min(
+      this.maxRetryDelay,
+      this.retryDelay * 2 ** attempt,
+    );
+    return ceiling / 2 + Math.random() * (ceiling / 2);
+  }
+
+  /**
+   * Send a request, retrying transient failures with backoff. Requests that
+   * are not idempotent are only resent on 429, where CouchDB (or a proxy in
+   * front of it) refused the request without processing it. With session
+   * auth, an expired cookie (401) triggers one fresh login and a resend.
+   */
   private async request(
     path: string,
     options: RequestInit = {},
+    policy: RequestPolicy = {},
   ): Promise<Response> {
-    const url = `${this.baseUrl}${path}`;
+    const method = (options.method ?? "GET").toUpperCase();
     const headers = new Headers(options.headers);
-    headers.set("Content-Type", "application/json");
-    headers.set("Accept", "application/json");
+    // JSON by default; attachment calls set their own content type
+    if (!headers.has("Content-Type"))
+      headers.set("Content-Type", "application/json");
+    if (!headers.has("Accept")) headers.set("Accept", "application/json");
     
+    const authenticate = policy.authenticate !== false;
     // Add auth header if we have credentials
-    if (this.authHeader) {
+    if (this.authHeader && authenticate) {
       headers.set("Authorization", this.authHeader);
     }
-    
-    const response = await fetch(url, {
-      ...options,
-      headers,
-    });
 
-    if (!response.ok) {
+    // A streamed body is consumed by the first attempt and can't be resent
+    const replayable = !(options.body instanceof ReadableStream);
+    const idempotent =
+      replayable && (policy.idempotent ?? IDEMPOTENT_METHODS.has(method));
+    const timeoutMs = policy.timeout ?? this.timeout;
+    const useSession = this.sessionAuth !== undefined && authenticate;
+    const signals = [options.signal, this.interrupt].filter(
+      (s): s is AbortSignal => !!s,
+    );
+    const signal = signals.length > 1 ? AbortSignal.any(signals) : signals[0];
+    let reauthenticated = false;
+    let attempt = 0;
+
+    while (true) {
+      if (useSession) headers.set("Cookie", await this.sessionCookie());
+
+      const canRetry = attempt < this.maxRetries;
+      let response: Response;
+      try {
+        response = await this.send(
+          path,
+          { ...options, headers, signal },
+          timeoutMs,
+        );
+      } catch (error) {
+        if (signal?.aborted) throw error;
+        const timedOut = error instanceof Error && error.name === "TimeoutError";
+        if (
+          canRetry &&
+          idempotent &&
+          isTransientError(error) &&
+          !(timedOut && policy.retryTimeouts === false)
+        ) {
+          await Bun.sleep(this.backoff(attempt++));
+          continue;
+        }
+        throw error;
+      }
+
+      if (useSession) {
+        // CouchDB re-issues the cookie as it nears expiry
+        const refreshed = parseSessionCookie(response);
+        if (refreshed) this.session = refreshed;
+      }
+
+      if (response.ok) return response;
+
+      if (
+        response.status === 401 &&
+        useSession &&
+        replayable &&
+        !reauthenticated
+      ) {
+        reauthenticated = true;
+        this.session = undefined;
+        await response.body?.cancel();
+        continue;
+      }
+
+      const retryable =
+        this.retryStatuses.has(response.status) &&
+        (idempotent || (replayable && response.status === 429));
+      if (canRetry && retryable) {
+        await response.body?.cancel();
+        // Retry-After replaces the backoff delay but still uses up an attempt
+        const wait = retryAfterMs(response) ?? this.backoff(attempt);
+        attempt++;
+        await Bun.sleep(Math.min(wait, this.maxRetryDelay));
+        continue;
+      }
+
       const text = await response.text();
-      let message: string;
+      let error: string | undefined;
+      let reason: string | undefined;
       try {
-        const error = JSON.parse(text);
-        message = error.reason || error.error || text;
+        const body = JSON.parse(text) as { error?: string; reason?: string };
+        error = body.error;
+        reason = body.reason;
       } catch {
-        message = text || `HTTP ${response.status}`;
+        // Not JSON — keep the raw text
       }
-      throw new Error(message);
+      throw new CouchError({
+        status: response.status,
+        error,
+        reason,
+        method,
+        path,
+        body: text,
+      });
+    }
+  }
+
+  /** Cookie header for session auth, logging in when missing or expired. */
+  private async sessionCookie(): Promise<string> {
+    let session = this.session;
+    const expired =
+      session?.expiresAt !== undefined &&
+      Date.now() >= session.expiresAt - SESSION_REFRESH_MARGIN_MS;
+    if (!session || expired) {
+      // Concurrent requests share a single login
+      this.loggingIn ??= this.login().finally(() => {
+        this.loggingIn = undefined;
+      });
+      session = await this.loggingIn;
     }
+    return `AuthSession=${session.value}`;
+  }
+
+  private async login(): Promise<SessionCookie> {
+    const credentials = this.sessionAuth;
+    if (!credentials) throw new Error("Session auth is not configured");
 
-    return response;
+    const response = await this.request(
+      "/_session",
+      {
+        method: "POST",
+        body: JSON.stringify({
+          name: credentials.username,
+          password: credentials.password,
+        }),
+      },
+      { idempotent: true, authenticate: false },
+    );
+    await response.body?.cancel();
+
+    const session = parseSessionCookie(response);
+    if (!session) {
+      throw new Error("CouchDB did not return an AuthSession cookie");
+    }
+    this.session = session;
+    return session;
+  }
+
+  /**
+   * One fetch attempt. The timeout covers waiting for the response headers
+   * only, so a slow body (a big attachment, a continuous feed) isn't cut off.
+   */
+  private async send(
+    path: string,
+    init: RequestInit,
+    timeoutMs: number,
+  ): Promise<Response> {
+    const url = `${this.baseUrl}${path}`;
+    if (timeoutMs <= 0) return fetch(url, init);
+
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), timeoutMs);
+    const signal = init.signal
+      ? AbortSignal.any([init.signal, controller.signal])
+      : controller.signal;
+
+    try {
+      return await fetch(url, { ...init, signal });
+    } catch (error) {
+      if (controller.signal.aborted && !init.signal?.aborted) {
+        const timeout = new Error(
+          `Request timed out after ${timeoutMs}ms: ${init.method ?? "GET"} ${path}`,
+        );
+        timeout.name = "TimeoutError";
+        throw timeout;
+      }
+      throw error;
+    } finally {
+      clearTimeout(timer);
+    }
   }
 
   // ── Server operations ─────────────────────────────────────────────────────
 
+  /** Who the server thinks we are (`userCtx.name` is null when anonymous). */
+  async getSession(): Promise<SessionInfo> {
+    const response = await this.request("/_session");
+    return response.json() as Promise<SessionInfo>;
+  }
+
   async getServerInfo(): Promise<{
     couchdb: string;
     version: string;
@@ -252,6 +739,22 @@ export class CouchClient {
     return response.json() as Promise<DatabaseInfo>;
   }
 
+  async getSecurity(db: string): Promise<SecurityObject> {
+    const response = await this.request(`/${db}/_security`);
+    return response.json() as Promise<SecurityObject>;
+  }
+
+  async putSecurity(
+    db: string,
+    security: SecurityObject,
+  ): Promise<{ ok: boolean }> {
+    const response = await this.request(`/${db}/_security`, {
+      method: "PUT",
+      body: JSON.stringify(security),
+    });
+    return response.json() as Promise<{ ok: boolean }>;
+  }
+
   /** Trigger compaction for a database. */
   async compact(db: string): Promise<{ ok: boolean }> {
     const response = await this.request(`/${db}/_compact`, { method: "POST" });
@@ -293,10 +796,11 @@ export class CouchClient {
 
       const qs = params.toString();
       const path = `/${db}/_all_docs${qs ? "?" + qs : ""}`;
-      const response = await this.request(path, {
-        method: "POST",
-        body: JSON.stringify({ keys }),
-      });
+      const response = await this.request(
+        path,
+        { method: "POST", body: JSON.stringify({ keys }) },
+        { idempotent: true },
+      );
       return response.json() as Promise<AllDocsResult>;
     }
 
@@ -315,6 +819,7 @@ export class CouchClient {
     if (queryOptions.inclusive_end === false)
       params.set("inclusive_end", "false");
     if (queryOptions.conflicts) params.set("conflicts", "true");
+    if (queryOptions.attachments) params.set("attachments", "true");
 
     const qs = params.toString();
     const response = await this.request(
@@ -323,6 +828,43 @@ export class CouchClient {
     return response.json() as Promise<AllDocsResult>;
   }
 
+  /**
+   * Page through `_all_docs` in id order, yielding one batch of rows at a
+   * time. Each page starts at the id after the previous one (fetching one
+   * extra row to find it) rather than using `skip`, which gets slower the
+   * further into the database it goes. `limit` caps the total row count and
+   * `skip` applies to the first page only.
+   */
+  async *paginateAllDocs(
+    db: string,
+    options: Omit<AllDocsOptions, "keys"> & {
+      pageSize?: number;
+    } = {},
+  ): AsyncGenerator<AllDocsRow[]> {
+    const { pageSize = 1000, limit, skip, ...query } = options;
+    let startkey = query.startkey;
+    let remaining = limit ?? Number.POSITIVE_INFINITY;
+    let first = true;
+
+    while (remaining > 0) {
+      const size = Math.min(pageSize, remaining);
+      const page = await this.getAllDocs(db, {
+        ...query,
+        startkey,
+        skip: first ? skip : undefined,
+        limit: size + 1,
+      });
+      const rows = page.rows.slice(0, size);
+      if (rows.length > 0) yield rows;
+      remaining -= rows.length;
+      first = false;
+
+      const next = page.rows[size];
+      if (!next) return;
+      startkey = next.id;
+    }
+  }
+
   /**
    * List only design documents for a database.
    * Uses the _all_docs startkey/endkey trick for the `_design/` namespace.
@@ -335,11 +877,54 @@ export class CouchClient {
     });
   }
 
-  async getDocument(db: string, id: string): Promise<Document> {
-    const response = await this.request(`/${db}/${encodeURIComponent(id)}`);
+  async getDocument(
+    db: string,
+    id: string,
+    options: {
+      conflicts?: boolean;
+      rev?: string;
+      revs?: boolean;
+      revs_info?: boolean;
+      /** Inline attachment bodies (base64) instead of stubs. */
+      attachments?: boolean;
+    } = {},
+  ): Promise<Document> {
+    // conflicts=true adds the losing leaf revs as `_conflicts`; revs_info adds
+    // `_revs_info` (every known rev and whether its body is still there)
+    const params = new URLSearchParams();
+    if (options.conflicts) params.set("conflicts", "true");
+    if (options.rev) params.set("rev", options.rev);
+    if (options.revs) params.set("revs", "true");
+    if (options.revs_info) params.set("revs_info", "true");
+    if (options.attachments) params.set("attachments", "true");
+
+    const qs = params.toString();
+    const response = await this.request(
+      `/${db}/${encodeURIComponent(id)}${qs ? `?${qs}` : ""}`,
+    );
     return response.json() as Promise<Document>;
   }
 
+  /**
+   * Fetch leaf revisions with `open_revs`: every leaf for "all" (deleted ones
+   * included, which a plain GET hides), or the listed revs. `revs` adds each
+   * body's `_revisions` ancestry.
+   */
+  async getOpenRevs(
+    db: string,
+    id: string,
+    revs: string[] | "all" = "all",
+    options: { revs?: boolean } = {},
+  ): Promise<OpenRev[]> {
+    const params = new URLSearchParams();
+    params.set("open_revs", revs === "all" ? "all" : JSON.stringify(revs));
+    if (options.revs) params.set("revs", "true");
+    const response = await this.request(
+      `/${db}/${encodeURIComponent(id)}?${params}`,
+    );
+    return response.json() as Promise<OpenRev[]>;
+  }
+
   /**
    * Create a document with an auto-generated ID (POST to db root).
    * Returns the server-assigned id and rev.
@@ -391,31 +976,91 @@ export class CouchClient {
     const body: Record<string, unknown> = { docs };
     if (options.new_edits === false) body.new_edits = false;
 
-    const response = await this.request(`/${db}/_bulk_docs`, {
-      method: "POST",
-      body: JSON.stringify(body),
-    });
+    // Replicator-style writes (new_edits=false) carry their own revs, so
+    // resending them can't create duplicates; normal edits could conflict.
+    const response = await this.request(
+      `/${db}/_bulk_docs`,
+      { method: "POST", body: JSON.stringify(body) },
+      { idempotent: options.new_edits === false },
+    );
     return response.json() as Promise<BulkDocsResult[]>;
   }
 
+  // ── Attachments ───────────────────────────────────────────────────────────
+
+  /** Attachment path; names may contain `/`, so encode each segment. */
+  private attachmentPath(db: string, docId: string, name: string): string {
+    const encodedName = name.split("/").map(encodeURIComponent).join("/");
+    return `/${db}/${encodeURIComponent(docId)}/${encodedName}`;
+  }
+
+  /**
+   * Upload an attachment. `body` can be a `Bun.file()` so large files are
+   * streamed rather than buffered. Omit `rev` to create a new document.
+   */
+  async putAttachment(
+    db: string,
+    docId: string,
+    name: string,
+    body: Blob | ReadableStream | ArrayBuffer | Uint8Array | string,
+    contentType: string,
+    rev?: string,
+  ): Promise<{ ok: boolean; id: string; rev: string }> {
+    const qs = rev ? `?rev=${encodeURIComponent(rev)}` : "";
+    const response = await this.request(
+      `${this.attachmentPath(db, docId, name)}${qs}`,
+      {
+        method: "PUT",
+        body,
+        headers: { "Content-Type": contentType },
+      },
+    );
+    return response.json() as Promise<{ ok: boolean; id: string; rev: string }>;
+  }
+
+  /**
+   * Fetch an attachment. Returns the raw `Response` so callers can stream
+   * `response.body` to a file or stdout without buffering it in memory.
+   */
+  async getAttachment(
+    db: string,
+    docId: string,
+    name: string,
+    options: { rev?: string } = {},
+  ): Promise<Response> {
+    const qs = options.rev ? `?rev=${encodeURIComponent(options.rev)}` : "";
+    return this.request(`${this.attachmentPath(db, docId, name)}${qs}`, {
+      headers: { Accept: "*/*" },
+    });
+  }
+
+  async deleteAttachment(
+    db: string,
+    docId: string,
+    name: string,
+    rev: string,
+  ): Promise<{ ok: boolean; id: string; rev: string }> {
+    const response = await this.request(
+      `${this.attachmentPath(db, docId, name)}?rev=${encodeURIComponent(rev)}`,
+      { method: "DELETE" },
+    );
+    return response.json() as Promise<{ ok: boolean; id: string; rev: string }>;
+  }
+
+  /** List attachments from the `_attachments` stubs of a document. */
+  async listAttachments(db: string, docId: string): Promise<AttachmentInfo[]> {
+    const doc = await this.getDocument(db, docId);
+    const stubs = (doc._attachments ?? {}) as Record<string, AttachmentStub>;
+    return Object.entries(stubs).map(([name, stub]) => ({ name, ...stub }));
+  }
+
   // ── View operations ───────────────────────────────────────────────────────
 
   async queryView(
     db: string,
     ddoc: string,
     view: string,
-    options: {
-      key?: unknown;
-      startkey?: unknown;
-      endkey?: unknown;
-      limit?: number;
-      skip?: number;
-      descending?: boolean;
-      include_docs?: boolean;
-      reduce?: boolean;
-      group?: boolean;
-      group_level?: number;
-    } = {},
+    options: ViewQueryOptions = {},
   ): Promise<ViewResult> {
     const params = new URLSearchParams();
 
@@ -423,6 +1068,8 @@ export class CouchClient {
       params.set("key", JSON.stringify(options.key));
     if (options.startkey !== undefined)
       params.set("startkey", JSON.stringify(options.startkey));
+    if (options.startkey_docid !== undefined)
+      params.set("startkey_docid", options.startkey_docid);
     if (options.endkey !== undefined)
       params.set("endkey", JSON.stringify(options.endkey));
     if (options.limit !== undefined)
@@ -438,23 +1085,96 @@ export class CouchClient {
     const qs = params.toString();
     const path = `/${db}/_design/${ddoc}/_view/${view}${qs ? "?" + qs : ""}`;
 
-    const response = await this.request(path);
+    const response = await this.request(path, {}, this.queryPolicy());
     return response.json() as Promise<ViewResult>;
   }
 
+  /**
+   * Page through a whole view, yielding one batch of rows at a time. Like
+   * `paginateAllDocs` this continues from the next row's key (and doc id for
+   * map views) instead of `skip`; `limit` caps the total row count.
+   */
+  async *paginateView(
+    db: string,
+    ddoc: string,
+    view: string,
+    options: ViewQueryOptions & { pageSize?: number } = {},
+  ): AsyncGenerator<ViewRow[]> {
+    const { pageSize = 1000, key, limit, skip, ...query } = options;
+    // key=K is startkey=endkey=K, which leaves room to move startkey
+    if (key !== undefined) {
+      query.startkey = key;
+      query.endkey = key;
+    }
+    let remaining = limit ?? Number.POSITIVE_INFINITY;
+    let first = true;
+
+    while (remaining > 0) {
+      const size = Math.min(pageSize, remaining);
+      const page = await this.queryView(db, ddoc, view, {
+        ...query,
+        skip: first ? skip : undefined,
+        limit: size + 1,
+      });
+      const rows = page.rows.slice(0, size);
+      if (rows.length > 0) yield rows;
+      remaining -= rows.length;
+      first = false;
+
+      const next = page.rows[size];
+      if (!next) return;
+      query.startkey = next.key;
+      // Reduced rows have no id; their keys are already unique
+      query.startkey_docid = next.id;
+    }
+  }
+
   // ── Mango / _find ─────────────────────────────────────────────────────────
 
   /**
    * Run a Mango selector query against a database.
    */
   async mangoQuery(db: string, query: MangoQuery): Promise<MangoResult> {
-    const response = await this.request(`/${db}/_find`, {
-      method: "POST",
-      body: JSON.stringify(query),
-    });
+    const response = await this.request(
+      `/${db}/_find`,
+      { method: "POST", body: JSON.stringify(query) },
+      this.queryPolicy(),
+    );
     return response.json() as Promise<MangoResult>;
   }
 
+  /**
+   * Run a Mango query to the end, following bookmarks, and yield each page
+   * of docs. `query.limit` caps the total; `query.skip` applies once.
+   */
+  async *paginateMango(
+    db: string,
+    query: MangoQuery,
+    pageSize = 1000,
+  ): AsyncGenerator<Document[]> {
+    const { limit, skip, ...rest } = query;
+    let remaining = limit ?? Number.POSITIVE_INFINITY;
+    let bookmark = query.bookmark;
+    let first = true;
+
+    while (remaining > 0) {
+      const size = Math.min(pageSize, remaining);
+      const page = await this.mangoQuery(db, {
+        ...rest,
+        bookmark,
+        skip: first ? skip : undefined,
+        limit: size,
+      });
+      if (page.docs.length > 0) yield page.docs;
+      remaining -= page.docs.length;
+      first = false;
+
+      // A short page is the last one; the bookmark alone doesn't say so
+      if (page.docs.length < size || !page.bookmark) return;
+      bookmark = page.bookmark;
+    }
+  }
+
   /** List Mango indexes defined on a database. */
   async listIndexes(db: string): Promise<MangoIndexResult> {
     const response = await this.request(`/${db}/_index`);
@@ -494,11 +1214,141 @@ export class CouchClient {
     return response.json() as Promise<{ ok: boolean }>;
   }
 
+  // ── Changes feed ──────────────────────────────────────────────────────────
+
+  /**
+   * Build and send a `_changes` request. Selector and doc_ids filters need
+   * a POST body; everything else goes in the query string.
+   */
+  private changesRequest(
+    db: string,
+    options: ChangesOptions,
+  ): Promise<Response> {
+    const params = new URLSearchParams();
+    if (options.feed) params.set("feed", options.feed);
+    if (options.since !== undefined) params.set("since", String(options.since));
+    if (options.limit !== undefined)
+      params.set("limit", options.limit.toString());
+    if (options.descending) params.set("descending", "true");
+    if (options.include_docs) params.set("include_docs", "true");
+    if (options.conflicts) params.set("conflicts", "true");
+    if (options.style) params.set("style", options.style);
+    if (options.heartbeat !== undefined)
+      params.set("heartbeat", options.heartbeat.toString());
+    if (options.timeout !== undefined)
+      params.set("timeout", options.timeout.toString());
+    if (options.seq_interval !== undefined)
+      params.set("seq_interval", options.seq_interval.toString());
+    for (const [k, v] of Object.entries(options.query_params ?? {})) {
+      params.set(k, v);
+    }
+
+    let body: Record<string, unknown> | undefined;
+    if (options.selector) {
+      params.set("filter", "_selector");
+      body = { selector: options.selector };
+    } else if (options.doc_ids) {
+      params.set("filter", "_doc_ids");
+      body = { doc_ids: options.doc_ids };
+    } else if (options.filter) {
+      params.set("filter", options.filter);
+    }
+
+    const qs = params.toString();
+    const path = `/${db}/_changes${qs ? `?${qs}` : ""}`;
+    // Long-lived feeds hold the request open by design
+    const longLived = options.feed !== undefined && options.feed !== "normal";
+    return this.request(
+      path,
+      body
+        ? { method: "POST", body: JSON.stringify(body), signal: options.signal }
+        : { signal: options.signal },
+      { idempotent: true, timeout: longLived ? 0 : undefined },
+    );
+  }
+
+  /**
+   * Fetch a single batch of changes (`normal` or `longpoll` feed).
+   * For continuous/eventsource feeds use `streamChanges`.
+   */
+  async changes(
+    db: string,
+    options: Omit<ChangesOptions, "feed"> & {
+      feed?: "normal" | "longpoll";
+    } = {},
+  ): Promise<ChangesResult> {
+    const response = await this.changesRequest(db, options);
+    return response.json() as Promise<ChangesResult>;
+  }
+
+  /**
+   * Stream changes as they happen. Defaults to a continuous feed; pass
+   * `feed: "eventsource"` for the SSE flavour. The iterator ends when the
+   * server closes the feed (e.g. `timeout` or `limit`) or `signal` aborts.
+   */
+  async *streamChanges(
+    db: string,
+    options: Omit<ChangesOptions, "feed"> & {
+      feed?: "continuous" | "eventsource";
+    } = {},
+  ): AsyncGenerator<ChangeRow, string | number | undefined> {
+    const feed = options.feed ?? "continuous";
+    const response = await this.changesRequest(db, { ...options, feed });
+    if (!response.body) return undefined;
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = "";
+    let lastSeq: string | number | undefined;
+
+    try {
+      while (true) {
+        let chunk: Awaited<ReturnType<typeof reader.read>>;
+        try {
+          chunk = await reader.read();
+        } catch (error) {
+          if (options.signal?.aborted) return lastSeq;
+          throw error;
+        }
+        if (chunk.done) break;
+        buffer += decoder.decode(chunk.value, { stream: true });
+
+        let newline = buffer.indexOf("\n");
+        while (newline !== -1) {
+          const line = buffer.slice(0, newline).trim();
+          buffer = buffer.slice(newline + 1);
+          newline = buffer.indexOf("\n");
+
+          // Heartbeats are blank lines (continuous) or `event: heartbeat` (SSE)
+          let payload = line;
+          if (feed === "eventsource") {
+            if (!line.startsWith("data:")) continue;
+            payload = line.slice(5).trim();
+          }
+          if (!payload) continue;
+
+          const parsed = JSON.parse(payload) as Partial<ChangeRow> & {
+            last_seq?: string | number;
+          };
+          if (parsed.last_seq !== undefined && parsed.id === undefined) {
+            return parsed.last_seq;
+          }
+          lastSeq = parsed.seq;
+          yield parsed as ChangeRow;
+        }
+      }
+    } finally {
+      reader.releaseLock();
+    }
+
+    return lastSeq;
+  }
+
   // ── Replication ───────────────────────────────────────────────────────────
 
   async replicate(
-    source: string,
-    target: string,
+    source: string | ReplicationEndpoint,
+    target: string | ReplicationEndpoint,
     options: {
       continuous?: boolean;
       create_target?: boolean;
@@ -574,12 +1424,13 @@ export class CouchClient {
   /** List conflicted documents in a database. */
   async getConflicts(
     db: string,
-    options: { limit?: number } = {},
+    options: { limit?: number; startkey?: string } = {},
   ): Promise<AllDocsResult> {
     return this.getAllDocs(db, {
       include_docs: true,
       conflicts: true,
       limit: options.limit,
+      startkey: options.startkey,
     });
   }
 
@@ -703,7 +1554,7 @@ export class CouchClient {
 
     const qs = params.toString();
     const path = `/${db}/_partition/${encodeURIComponent(partition)}/_design/${ddoc}/_view/${view}${qs ? "?" + qs : ""}`;
-    const response = await this.request(path);
+    const response = await this.request(path, {}, this.queryPolicy());
     return response.json() as Promise<ViewResult>;
   }
 
@@ -716,6 +1567,7 @@ export class CouchClient {
     const response = await this.request(
       `/${db}/_partition/${encodeURIComponent(partition)}/_find`,
       { method: "POST", body: JSON.stringify(query) },
+      this.queryPolicy(),
     );
     return response.json() as Promise<MangoResult>;
   }
@@ -746,6 +1598,7 @@ export class CouchClient {
     const response = await this.request(
       `/${db}/_design/${ddoc}/_nouveau/${index}`,
       { method: "POST", body: JSON.stringify(body) },
+      this.queryPolicy(),
     );
     return response.json() as Promise<NouveauSearchResult>;
   }
@@ -841,10 +1694,11 @@ export class CouchClient {
   async getDbsInfo(
     keys: string[],
   ): Promise<Array<{ key: string; info?: DatabaseInfo; error?: string }>> {
-    const response = await this.request("/_dbs_info", {
-      method: "POST",
-      body: JSON.stringify({ keys }),
-    });
+    const response = await this.request(
+      "/_dbs_info",
+      { method: "POST", body: JSON.stringify({ keys }) },
+      { idempotent: true },
+    );
     return response.json() as Promise<
       Array<{ key: string; info?: DatabaseInfo; error?: string }>
     >;
@@ -0,0 +1,231 @@
+import { chmod, mkdir, writeFile } from "node:fs/promises";
+import { homedir } from "node:os";
+import { join } from "node:path";
+import type { CouchAuth } from "./couch-client.js";
+
+/** credential key (connection name, or origin for a raw URL) → auth */
+type CredentialMap = Record<string, CouchAuth>;
+
+interface PlainFile {
+  version: 1;
+  credentials: CredentialMap;
+}
+
+interface EncryptedFile {
+  version: 1;
+  kdf: { name: "PBKDF2"; hash: "SHA-256"; iterations: number; salt: string };
+  iv: string;
+  data: string;
+}
+
+type CredentialFile = PlainFile | EncryptedFile;
+
+export interface CredentialStoreOptions {
+  /** Passphrase for an encrypted file (default: $SILLON_PASSPHRASE). */
+  passphrase?: string;
+  /** PBKDF2 iterations used when encrypting (default 310000). */
+  iterations?: number;
+}
+
+const DEFAULT_ITERATIONS = 310_000;
+
+const toBase64 = (bytes: Uint8Array) => Buffer.from(bytes).toString("base64");
+const fromBase64 = (text: string) =>
+  Uint8Array.from(Buffer.from(text, "base64"));
+
+async function deriveKey(
+  passphrase: string,
+  salt: Uint8Array<ArrayBuffer>,
+  iterations: number,
+): Promise<CryptoKey> {
+  const material = await crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode(passphrase),
+    "PBKDF2",
+    false,
+    ["deriveKey"],
+  );
+  return crypto.subtle.deriveKey(
+    { name: "PBKDF2", hash: "SHA-256", salt, iterations },
+    material,
+    { name: "AES-GCM", length: 256 },
+    false,
+    ["encrypt", "decrypt"],
+  );
+}
+
+/** Replace the password in a URL's userinfo with `***` before printing it. */
+export function redactUrl(url: string): string {
+  return url.replace(/^([a-z][a-z0-9+.-]*:\/\/[^:/@]*):[^@/]*@/i, "$1:***@");
+}
+
+/**
+ * Split userinfo off a URL: the clean URL goes in config.json, the
+ * credentials (as Basic auth) go in the credential store.
+ */
+export function splitCredentials(url: string): {
+  url: string;
+  auth?: CouchAuth;
+} {
+  const parsed = new URL(url);
+  if (!parsed.username && !parsed.password) return { url };
+
+  const auth: CouchAuth = {
+    type: "basic",
+    username: decodeURIComponent(parsed.username),
+    password: decodeURIComponent(parsed.password),
+  };
+  parsed.username = "";
+  parsed.password = "";
+  // URL adds a trailing slash to bare origins; keep the caller's form
+  const clean = parsed.toString();
+  return { url: url.endsWith("/") ? clean : clean.replace(/\/$/, ""), auth };
+}
+
+/**
+ * Keeps connection credentials out of config.json, in a `0600`
+ * `~/.config/sillon/credentials.json`. The file can be encrypted with
+ * AES-GCM using a key derived from a passphrase (PBKDF2 via WebCrypto).
+ */
+export class CredentialStore {
+  private configDir: string;
+  private filePath: string;
+  private passphrase?: string;
+  private iterations: number;
+  private data: CredentialMap | null = null;
+  private encrypted = false;
+
+  constructor(configDir?: string, options: CredentialStoreOptions = {}) {
+    this.configDir = configDir ?? join(homedir(), ".config", "sillon");
+    this.filePath = join(this.configDir, "credentials.json");
+    this.passphrase = options.passphrase ?? process.env.SILLON_PASSPHRASE;
+    this.iterations = options.iterations ?? DEFAULT_ITERATIONS;
+  }
+
+  getPath(): string {
+    return this.filePath;
+  }
+
+  private async readFile(): Promise<CredentialFile | undefined> {
+    const file = Bun.file(this.filePath);
+    if (!(await file.exists())) return undefined;
+    return (await file.json()) as CredentialFile;
+  }
+
+  private async load(): Promise<CredentialMap> {
+    if (this.data) return this.data;
+
+    const file = await this.readFile();
+    if (!file) {
+      this.data = {};
+    } else if ("credentials" in file) {
+      this.data = file.credentials;
+    } else {
+      this.encrypted = true;
+      this.data = await this.decryptFile(file);
+    }
+    return this.data;
+  }
+
+  private async decryptFile(file: EncryptedFile): Promise<CredentialMap> {
+    if (!this.passphrase) {
+      throw new Error(
+        "Credentials are encrypted: set SILLON_PASSPHRASE to unlock them",
+      );
+    }
+    const key = await deriveKey(
+      this.passphrase,
+      fromBase64(file.kdf.salt),
+      file.kdf.iterations,
+    );
+    try {
+      const plain = await crypto.subtle.decrypt(
+        { name: "AES-GCM", iv: fromBase64(file.iv) },
+        key,
+        fromBase64(file.data),
+      );
+      return JSON.parse(new TextDecoder().decode(plain)) as CredentialMap;
+    } catch {
+      throw new Error("Could not decrypt credentials: wrong passphrase?");
+    }
+  }
+
+  private async encryptData(data: CredentialMap): Promise<EncryptedFile> {
+    if (!this.passphrase) throw new Error("No passphrase to encrypt with");
+    const salt = crypto.getRandomValues(new Uint8Array(16));
+    const iv = crypto.getRandomValues(new Uint8Array(12));
+    const key = await deriveKey(this.passphrase, salt, this.iterations);
+    const cipher = await crypto.subtle.encrypt(
+      { name: "AES-GCM", iv },
+      key,
+      new TextEncoder().encode(JSON.stringify(data)),
+    );
+    return {
+      version: 1,
+      kdf: {
+        name: "PBKDF2",
+        hash: "SHA-256",
+        iterations: this.iterations,
+        salt: toBase64(salt),
+      },
+      iv: toBase64(iv),
+      data: toBase64(new Uint8Array(cipher)),
+    };
+  }
+
+  private async save(data: CredentialMap): Promise<void> {
+    const file: CredentialFile = this.encrypted
+      ? await this.encryptData(data)
+      : { version: 1, credentials: data };
+    await mkdir(this.configDir, { recursive: true });
+    await writeFile(this.filePath, JSON.stringify(file, null, 2), {
+      mode: 0o600,
+    });
+    // mode only applies when the file is created
+    await chmod(this.filePath, 0o600);
+    this.data = data;
+  }
+
+  async isEncrypted(): Promise<boolean> {
+    const file = await this.readFile();
+    return file !== undefined && !("credentials" in file);
+  }
+
+  async get(key: string): Promise<CouchAuth | undefined> {
+    // Don't demand a passphrase when there is nothing to unlock
+    if (!this.data && !(await Bun.file(this.filePath).exists())) {
+      return undefined;
+    }
+    const data = await this.load();
+    return data[key];
+  }
+
+  async set(key: string, auth: CouchAuth): Promise<void> {
+    const data = await this.load();
+    data[key] = auth;
+    await this.save(data);
+  }
+
+  async remove(key: string): Promise<void> {
+    if (!(await Bun.file(this.filePath).exists())) return;
+    const data = await this.load();
+    if (!(key in data)) return;
+    const { [key]: _removed, ...rest } = data;
+    await this.save(rest);
+  }
+
+  /** Re-save the file encrypted under `passphrase`. */
+  async encrypt(passphrase: string): Promise<void> {
+    const data = await this.load();
+    this.passphrase = passphrase;
+    this.encrypted = true;
+    await this.save(data);
+  }
+
+  /** Re-save the file as plaintext (still `0600`). */
+  async decrypt(): Promise<void> {
+    const data = await this.load();
+    this.encrypted = false;
+    await this.save(data);
+  }
+}
@@ -0,0 +1,196 @@
+/**
+ * Parse RFC 4180 CSV: quoted fields may contain the delimiter, newlines and
+ * `""` escapes; CRLF and LF line endings both work and a leading BOM is
+ * dropped. Blank lines are skipped. Returns every row, header included.
+ */
+export function parseCsv(text: string, delimiter = ","): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+  let i = text.charCodeAt(0) === 0xfeff ? 1 : 0;
+
+  const endRow = () => {
+    row.push(field);
+    // A blank line parses as one empty field
+    if (row.length > 1 || row[0] !== "") rows.push(row);
+    row = [];
+    field = "";
+  };
+
+  while (i < text.length) {
+    const ch = text[i];
+
+    if (quoted) {
+      if (ch !== '"') {
+        field += ch;
+      } else if (text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else {
+        quoted = false;
+      }
+      i++;
+      continue;
+    }
+
+    if (ch === '"' && field === "") {
+      quoted = true;
+    } else if (ch === delimiter) {
+      row.push(field);
+      field = "";
+    } else if (ch === "\n") {
+      endRow();
+    } else if (ch === "\r") {
+      if (text[i + 1] === "\n") i++;
+      endRow();
+    } else {
+      field += ch;
+    }
+    i++;
+  }
+
+  if (quoted) throw new Error("Unterminated quoted field in CSV");
+  if (field !== "" || row.length > 0) endRow();
+  return rows;
+}
+
+// ── Writing ───────────────────────────────────────────────────────────────────
+
+export function delimiterFor(format: string): string {
+  if (format === "csv") return ",";
+  if (format === "tsv") return "\t";
+  throw new Error(`Unknown format "${format}": use csv or tsv`);
+}
+
+/** Parse a `--columns a,b.c` list. */
+export function parseColumns(list: string): string[] {
+  return list
+    .split(",")
+    .map((c) => c.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Flatten nested objects into dotted keys (`address.city`). Arrays and
+ * empty objects stay whole and end up JSON-encoded in a single cell.
+ */
+export function flatten(
+  value: Record<string, unknown>,
+  prefix = "",
+  out: Record<string, unknown> = {},
+): Record<string, unknown> {
+  for (const [key, child] of Object.entries(value)) {
+    const path = prefix ? `${prefix}.${key}` : key;
+    if (
+      typeof child === "object" &&
+      child !== null &&
+      !Array.isArray(child) &&
+      Object.keys(child).length > 0
+    ) {
+      flatten(child as Record<string, unknown>, path, out);
+    } else {
+      out[path] = child;
+    }
+  }
+  return out;
+}
+
+function formatCell(value: unknown, delimiter: string): string {
+  if (value === undefined || value === null) return "";
+  const text =
+    typeof value === "object" ? JSON.stringify(value) : String(value);
+  if (
+    text.includes(delimiter) ||
+    text.includes('"') ||
+    text.includes("\n") ||
+    text.includes("\r")
+  ) {
+    return `"${text.replaceAll('"', '""')}"`;
+  }
+  return text;
+}
+
+export function formatCsvRow(values: unknown[], delimiter = ","): string {
+  return `${values.map((v) => formatCell(v, delimiter)).join(delimiter)}\r\n`;
+}
+
+/** A column's value: a flattened leaf, or a whole object/array by path. */
+function columnValue(
+  record: Record<string, unknown>,
+  flat: Record<string, unknown>,
+  column: string,
+): unknown {
+  if (column in flat) return flat[column];
+  let node: unknown = record;
+  for (const part of column.split(".")) {
+    if (typeof node !== "object" || node === null) return undefined;
+    node = (node as Record<string, unknown>)[part];
+  }
+  return node;
+}
+
+export interface WriteTableOptions {
+  delimiter?: string;
+  /**
+   * Columns to write, in order. Without them every row is buffered first
+   * to collect the union of columns (in first-seen order).
+   */
+  columns?: string[];
+  write: (chunk: string) => unknown;
+}
+
+/**
+ * Write pages of records as CSV/TSV with a header row, flattening nested
+ * fields. With explicit columns each page is written as soon as it arrives.
+ * Returns the number of data rows written.
+ */
+export async function writeTable(
+  pages: AsyncIterable<object[]>,
+  options: WriteTableOptions,
+): Promise<number> {
+  const delimiter = options.delimiter ?? ",";
+  let rows = 0;
+
+  if (options.columns) {
+    const columns = options.columns;
+    await options.write(formatCsvRow(columns, delimiter));
+    for await (const page of pages) {
+      let chunk = "";
+      for (const item of page) {
+        const record = item as Record<string, unknown>;
+        const flat = flatten(record);
+        const values = columns.map((c) => columnValue(record, flat, c));
+        chunk += formatCsvRow(values, delimiter);
+      }
+      rows += page.length;
+      await options.write(chunk);
+    }
+    return rows;
+  }
+
+  const buffered: object[] = [];
+  for await (const page of pages) buffered.push(...page);
+  await options.write(formatCsv(buffered, delimiter));
+  return buffered.length;
+}
+
+/**
+ * Format records as CSV/TSV in one go, with the union of their flattened
+ * columns (in first-seen order) as the header.
+ */
+export function formatCsv(records: object[], delimiter = ","): string {
+  const columns = new Set<string>();
+  const flat = records.map((record) => {
+    const row = flatten(record as Record<string, unknown>);
+    for (const key of Object.keys(row)) columns.add(key);
+    return row;
+  });
+  const header = [...columns];
+  let out = formatCsvRow(header, delimiter);
+  for (const row of flat) {
+    const values = header.map((c) => row[c]);
+    out += formatCsvRow(values, delimiter);
+  }
+  return out;
+}
@@ -0,0 +1,174 @@
+import { isObject, jsonLines } from "./json-view.js";
+
+/** One difference between two JSON values, addressed by JSON Pointer. */
+export interface Change {
+  path: string;
+  op: "add" | "remove" | "replace";
+  from?: unknown;
+  to?: unknown;
+}
+
+/** A line of a rendered diff: unchanged, removed or added. */
+export interface DiffLine {
+  sign: " " | "-" | "+";
+  depth: number;
+  key?: string;
+  text: string;
+  comma: boolean;
+}
+
+type Json = Record<string, unknown> | unknown[];
+
+/** Same structure for both arrays and objects, else undefined. */
+function sameKind(a: unknown, b: unknown): "array" | "object" | undefined {
+  if (Array.isArray(a) && Array.isArray(b)) return "array";
+  if (isObject(a) && isObject(b)) return "object";
+  return undefined;
+}
+
+function pointer(parent: string, key: string | number): string {
+  return `${parent}/${String(key).replaceAll("~", "~0").replaceAll("/", "~1")}`;
+}
+
+export function deepEqual(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  const kind = sameKind(a, b);
+  if (!kind) return false;
+  const ka = Object.keys(a as Json);
+  const kb = Object.keys(b as Json);
+  if (ka.length !== kb.length) return false;
+  return ka.every(
+    (k) =>
+      Object.hasOwn(b as Json, k) &&
+      deepEqual(
+        (a as Record<string, unknown>)[k],
+        (b as Record<string, unknown>)[k],
+      ),
+  );
+}
+
+/**
+ * Keys of both sides in display order: `a`'s keys, then keys only `b` has.
+ * Arrays are compared index by index.
+ */
+function mergedKeys(a: Json, b: Json): string[] {
+  const keys = Object.keys(a);
+  for (const key of Object.keys(b)) {
+    if (!Object.hasOwn(a, key)) keys.push(key);
+  }
+  return keys;
+}
+
+/** The changes that turn `a` into `b`, depth first. */
+export function diffJson(a: unknown, b: unknown, path = ""): Change[] {
+  if (deepEqual(a, b)) return [];
+  if (!sameKind(a, b)) return [{ path, op: "replace", from: a, to: b }];
+
+  const left = a as Record<string, unknown>;
+  const right = b as Record<string, unknown>;
+  return mergedKeys(left, right).flatMap((key): Change[] => {
+    const child = pointer(path, key);
+    if (!Object.hasOwn(right, key)) {
+      return [{ path: child, op: "remove", from: left[key] }];
+    }
+    if (!Object.hasOwn(left, key)) {
+      return [{ path: child, op: "add", to: right[key] }];
+    }
+    return diffJson(left[key], right[key], child);
+  });
+}
+
+/** Lay out `value` with `sign` on every line, nested at `depth`. */
+function valueLines(
+  sign: DiffLine["sign"],
+  value: unknown,
+  depth: number,
+  key: string | undefined,
+  comma: boolean,
+  fold: boolean,
+): DiffLine[] {
+  const lines = jsonLines(value, fold ? new Set([""]) : new Set());
+  return lines.map((line, i) => ({
+    sign,
+    depth: depth + line.depth,
+    key: i === 0 ? key : line.key,
+    text: line.text,
+    comma: i === lines.length - 1 ? comma : line.comma,
+  }));
+}
+
+/**
+ * Render `a` → `b` as pretty-printed JSON with removed and added lines, like
+ * a unified diff that follows the structure. Unchanged objects and arrays
+ * collapse to `{…}` / `[…]` so the changes stand out.
+ */
+export function diffLines(
+  a: unknown,
+  b: unknown,
+  depth = 0,
+  key?: string,
+  comma = false,
+): DiffLine[] {
+  if (deepEqual(a, b)) return valueLines(" ", a, depth, key, comma, true);
+
+  const kind = sameKind(a, b);
+  if (!kind) {
+    return [
+      ...valueLines("-", a, depth, key, comma, false),
+      ...valueLines("+", b, depth, key, comma, false),
+    ];
+  }
+
+  const left = a as Record<string, unknown>;
+  const right = b as Record<string, unknown>;
+  const [open, close] = kind === "array" ? ["[", "]"] : ["{", "}"];
+  const keys = mergedKeys(left, right);
+  const lines: DiffLine[] = [
+    { sign: " ", depth, key, text: open, comma: false },
+  ];
+
+  keys.forEach((k, i) => {
+    const childKey = kind === "array" ? undefined : k;
+    const more = i < keys.length - 1;
+    if (!Object.hasOwn(right, k)) {
+      lines.push(...valueLines("-", left[k], depth + 1, childKey, more, false));
+    } else if (!Object.hasOwn(left, k)) {
+      lines.push(
+        ...valueLines("+", right[k], depth + 1, childKey, more, false),
+      );
+    } else {
+      lines.push(...diffLines(left[k], right[k], depth + 1, childKey, more));
+    }
+  });
+
+  lines.push({ sign: " ", depth, text: close, comma });
+  return lines;
+}
+
+/** A field whose value differs between revisions; `undefined` = absent. */
+export interface FieldDifference {
+  path: string;
+  values: unknown[];
+}
+
+/**
+ * The fields that differ across any number of versions of a document, for a
+ * side-by-side view: descends while every side is an object, so a changed
+ * `address.city` shows on its own row; arrays and scalars compare whole.
+ */
+export function divergentFields(
+  values: unknown[],
+  path = "",
+): FieldDifference[] {
+  if (values.every((v) => deepEqual(v, values[0]))) return [];
+  if (!values.every(isObject)) return [{ path, values }];
+
+  const objects = values as Record<string, unknown>[];
+  const keys = [...new Set(objects.flatMap((obj) => Object.keys(obj)))];
+  return keys.flatMap((key) =>
+    divergentFields(
+      objects.map((obj) => (Object.hasOwn(obj, key) ? obj[key] : undefined)),
+      pointer(path, key),
+    ),
+  );
+}
@@ -0,0 +1,327 @@
+import {
+  type CouchClient,
+  CouchError,
+  type Document,
+  type SecurityObject,
+} from "./couch-client.js";
+
+/**
+ * First line of a dump archive. Every following line is one document,
+ * `_rev` included, so `tail -n +2` gives plain NDJSON for other tools.
+ */
+export interface DumpHeader {
+  sillon_dump: 1;
+  db: string;
+  created_at: string;
+  update_seq: string | number;
+  doc_count: number;
+  /** Whether docs carry inline attachment bodies (stubs are dropped otherwise). */
+  attachments: boolean;
+  security: SecurityObject;
+}
+
+export interface DumpOptions {
+  /** Docs per `_all_docs` request (default 1000). */
+  pageSize?: number;
+  attachments?: boolean;
+  /** Gzip the output (default true). */
+  gzip?: boolean;
+  onProgress?: (progress: { docs: number; total: number }) => void;
+}
+
+type DumpSource = Pick<
+  CouchClient,
+  "getDatabaseInfo" | "getSecurity" | "paginateAllDocs"
+>;
+
+/** Attachment stubs can't be restored without their data, so drop them. */
+function withoutAttachments(doc: Document): Document {
+  const { _attachments, ...rest } = doc;
+  return rest as Document;
+}
+
+/**
+ * Stream a database as a (gzipped) NDJSON archive: a `DumpHeader` line with
+ * the `_security` object, then every document including design docs. Pages
+ * are fetched as the stream is read, so memory stays flat for large dbs.
+ */
+export async function createDump(
+  client: DumpSource,
+  db: string,
+  options: DumpOptions = {},
+): Promise<ReadableStream<Uint8Array>> {
+  const [info, security] = await Promise.all([
+    client.getDatabaseInfo(db),
+    client.getSecurity(db),
+  ]);
+  const attachments = options.attachments ?? false;
+  const header: DumpHeader = {
+    sillon_dump: 1,
+    db,
+    created_at: new Date().toISOString(),
+    update_seq: info.update_seq,
+    doc_count: info.doc_count,
+    attachments,
+    security,
+  };
+
+  const pages = client.paginateAllDocs(db, {
+    include_docs: true,
+    attachments,
+    pageSize: options.pageSize,
+  });
+  const encoder = new TextEncoder();
+  let docs = 0;
+
+  const lines = new ReadableStream<Uint8Array>({
+    start(controller) {
+      controller.enqueue(encoder.encode(`${JSON.stringify(header)}\n`));
+    },
+    async pull(controller) {
+      const page = await pages.next();
+      if (page.done) {
+        controller.close();
+        return;
+      }
+      let chunk = "";
+      for (const row of page.value) {
+        if (!row.doc) continue;
+        const doc = attachments ? row.doc : withoutAttachments(row.doc);
+        chunk += `${JSON.stringify(doc)}\n`;
+        docs++;
+      }
+      controller.enqueue(encoder.encode(chunk));
+      options.onProgress?.({ docs, total: info.doc_count });
+    },
+    async cancel() {
+      await pages.return(undefined);
+    },
+  });
+
+  if (options.gzip === false) return lines;
+  // CompressionStream's writable side is typed as BufferSource
+  const gzip = new CompressionStream("gzip") as unknown as TransformStream<
+    Uint8Array,
+    Uint8Array
+  >;
+  return lines.pipeThrough(gzip);
+}
+
+// ── Loading ───────────────────────────────────────────────────────────────────
+
+export type DumpEntry =
+  | { type: "header"; header: DumpHeader }
+  | { type: "doc"; doc: Document };
+
+/** Decompress if the stream starts with the gzip magic bytes. */
+export async function maybeGunzip(
+  input: ReadableStream<Uint8Array>,
+): Promise<ReadableStream<Uint8Array>> {
+  const reader = input.getReader();
+  const first = await reader.read();
+  const head = first.value;
+
+  // Put the peeked chunk back in front of the rest
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      if (head) controller.enqueue(head);
+      if (first.done) controller.close();
+    },
+    async pull(controller) {
+      const next = await reader.read();
+      if (next.done) controller.close();
+      else controller.enqueue(next.value);
+    },
+    cancel(reason) {
+      return reader.cancel(reason);
+    },
+  });
+
+  if (head?.[0] !== 0x1f || head[1] !== 0x8b) return stream;
+  const gunzip = new DecompressionStream("gzip") as unknown as TransformStream<
+    Uint8Array,
+    Uint8Array
+  >;
+  return stream.pipeThrough(gunzip);
+}
+
+/**
+ * Read documents from NDJSON (a `sillon db dump` archive or any one-doc-per-
+ * line file, gzipped or not) or from a JSON array of docs. NDJSON is read a
+ * line at a time; an array has to be parsed whole.
+ */
+export async function* readDump(
+  input: ReadableStream<Uint8Array>,
+): AsyncGenerator<DumpEntry> {
+  const reader = (await maybeGunzip(input)).getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+  let isArray: boolean | undefined;
+  let lineNo = 0;
+
+  const parseLine = (line: string): DumpEntry | undefined => {
+    lineNo++;
+    if (!line.trim()) return undefined;
+    let value: unknown;
+    try {
+      value = JSON.parse(line);
+    } catch {
+      throw new Error(`Invalid JSON on line ${lineNo}`);
+    }
+    if (lineNo === 1 && (value as DumpHeader).sillon_dump !== undefined) {
+      return { type: "header", header: value as DumpHeader };
+    }
+    return { type: "doc", doc: value as Document };
+  };
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+
+    isArray ??= buffer.trimStart()
+      ? buffer.trimStart().startsWith("[")
+      : undefined;
+    if (isArray !== false) continue;
+
+    let newline = buffer.indexOf("\n");
+    while (newline !== -1) {
+      const entry = parseLine(buffer.slice(0, newline));
+      if (entry) yield entry;
+      buffer = buffer.slice(newline + 1);
+      newline = buffer.indexOf("\n");
+    }
+  }
+  buffer += decoder.decode();
+
+  if (isArray) {
+    const docs = JSON.parse(buffer) as Document[];
+    for (const doc of docs) yield { type: "doc", doc };
+    return;
+  }
+  const last = parseLine(buffer);
+  if (last) yield last;
+}
+
+export interface LoadFailure {
+  id?: string;
+  rev?: string;
+  error: string;
+  reason?: string;
+}
+
+export interface LoadOptions {
+  /** Docs per `_bulk_docs` request (default 500). */
+  batchSize?: number;
+  /** `_bulk_docs` requests in flight at once (default 2). */
+  concurrency?: number;
+  /**
+   * false keeps the dumped `_rev`s (replication-style writes). When unset, a
+   * `sillon db dump` archive is replayed with false only if it holds the
+   * attachment bodies: without them the target would claim revisions it
+   * doesn't fully have. Other dumps get new revisions, their `_rev`s dropped
+   * so an empty target doesn't reject them as conflicts.
+   */
+  newEdits?: boolean;
+  onProgress?: (progress: {
+    read: number;
+    written: number;
+    failed: number;
+  }) => void;
+  /** Called for every document CouchDB rejected or that could not be sent. */
+  onFailure?: (failure: LoadFailure) => Promise<void> | void;
+}
+
+export interface LoadResult {
+  header?: DumpHeader;
+  read: number;
+  written: number;
+  failed: number;
+}
+
+/**
+ * Push documents into `db` through `_bulk_docs` in batches, with a bounded
+ * number of requests in flight. Per-document errors (conflicts, validation
+ * rejections) and whole failed batches are reported, not thrown, so one bad
+ * doc doesn't stop a large load.
+ */
+export async function loadDump(
+  client: Pick<CouchClient, "bulkDocs">,
+  db: string,
+  entries: AsyncIterable<DumpEntry>,
+  options: LoadOptions = {},
+): Promise<LoadResult> {
+  const batchSize = Math.max(1, options.batchSize ?? 500);
+  const concurrency = Math.max(1, options.concurrency ?? 2);
+  const result: LoadResult = { read: 0, written: 0, failed: 0 };
+  const running = new Set<Promise<void>>();
+
+  const fail = async (failure: LoadFailure) => {
+    result.failed++;
+    await options.onFailure?.(failure);
+  };
+
+  // The header is the first line, so it has been seen by any batch
+  const replay = () => result.header?.attachments === true;
+
+  const send = async (batch: Document[]) => {
+    try {
+      const newEdits = options.newEdits ?? !replay();
+      const fresh = options.newEdits === undefined && result.header && newEdits;
+      const results = await client.bulkDocs(
+        db,
+        fresh ? batch.map(({ _rev, ...doc }) => doc as Document) : batch,
+        { new_edits: newEdits },
+      );
+      // With new_edits=false CouchDB only lists the docs that failed
+      let failed = 0;
+      for (const r of results) {
+        if (!r.error) continue;
+        failed++;
+        await fail({ id: r.id, rev: r.rev, error: r.error, reason: r.reason });
+      }
+      result.written += batch.length - failed;
+    } catch (error) {
+      // The whole request failed: report every doc in it
+      const code = error instanceof CouchError ? error.error : undefined;
+      const reason = error instanceof Error ? error.message : String(error);
+      for (const doc of batch) {
+        await fail({
+          id: doc._id,
+          rev: doc._rev,
+          error: code ?? "request_failed",
+          reason,
+        });
+      }
+    }
+    options.onProgress?.({ ...result });
+  };
+
+  const flush = async (batch: Document[]) => {
+    while (running.size >= concurrency) {
+      await Promise.race(running);
+    }
+    const task = send(batch);
+    running.add(task);
+    const release = () => running.delete(task);
+    task.then(release, release);
+  };
+
+  let batch: Document[] = [];
+  for await (const entry of entries) {
+    if (entry.type === "header") {
+      result.header = entry.header;
+      continue;
+    }
+    result.read++;
+    batch.push(entry.doc);
+    if (batch.length >= batchSize) {
+      await flush(batch);
+      batch = [];
+    }
+  }
+  if (batch.length > 0) await flush(batch);
+  await Promise.all(running);
+
+  return result;
+}
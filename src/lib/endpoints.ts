@@ -0,0 +1,87 @@
+import type { ConfigManager } from "./config.js";
+import type { CouchAuth, ReplicationEndpoint } from "./couch-client.js";
+import { redactUrl, splitCredentials } from "./credentials.js";
+
+/** `prod:orders`: a saved connection name, then a database on it. */
+const CONNECTION_REF = /^([^:/]+):(.+)$/;
+
+/**
+ * Split a `conn:db` reference. URLs (anything with `://`) and plain names
+ * are not references; database names can't contain a colon, so there is no
+ * ambiguity.
+ */
+export function parseConnectionRef(
+  value: string,
+): { connection: string; db: string } | undefined {
+  if (value.includes("://")) return undefined;
+  const match = CONNECTION_REF.exec(value);
+  if (!match) return undefined;
+  return { connection: match[1] as string, db: match[2] as string };
+}
+
+/**
+ * A replicator endpoint for `url` with the credentials moved out of it:
+ * Basic and session logins become `auth.basic`, JWTs an Authorization
+ * header. Userinfo in the URL is used when `auth` is not given.
+ */
+export function replicationEndpoint(
+  url: string,
+  auth?: CouchAuth,
+): ReplicationEndpoint {
+  const split = splitCredentials(url);
+  const credentials = auth ?? split.auth;
+  const endpoint: ReplicationEndpoint = { url: split.url };
+  if (credentials?.type === "jwt") {
+    endpoint.headers = { Authorization: `Bearer ${credentials.token}` };
+  } else if (credentials) {
+    const { username, password } = credentials;
+    endpoint.auth = { basic: { username, password } };
+  }
+  return endpoint;
+}
+
+/**
+ * Expand a `conn:db` argument of `repl setup`/`repl add` through the saved
+ * connection; URLs and anything else pass through untouched.
+ */
+export async function resolveEndpoint(
+  config: ConfigManager,
+  value: string,
+): Promise<string | ReplicationEndpoint> {
+  const ref = parseConnectionRef(value);
+  if (!ref) return value;
+
+  const conn = await config.getConnection(ref.connection);
+  if (!conn) {
+    throw new Error(
+      `Unknown connection "${ref.connection}" in "${value}" (see: sillon connect list)`,
+    );
+  }
+  const base = conn.url.replace(/\/+$/, "");
+  return replicationEndpoint(
+    `${base}/${encodeURIComponent(ref.db)}`,
+    conn.options?.auth,
+  );
+}
+
+/** An endpoint for display or JSON output, with every secret masked. */
+export function redactEndpoint(
+  endpoint: string | ReplicationEndpoint,
+): string | ReplicationEndpoint {
+  if (typeof endpoint === "string") return redactUrl(endpoint);
+  const redacted: ReplicationEndpoint = {
+    ...endpoint,
+    url: redactUrl(endpoint.url),
+  };
+  if (endpoint.auth) {
+    // Docs written by hand may hold other auth shapes; mask them all
+    const username = endpoint.auth.basic?.username ?? "";
+    redacted.auth = { basic: { username, password: "***" } };
+  }
+  if (endpoint.headers) {
+    redacted.headers = Object.fromEntries(
+      Object.keys(endpoint.headers).map((name) => [name, "***"]),
+    );
+  }
+  return redacted;
+}
@@ -0,0 +1,110 @@
+import pc from "picocolors";
+import { CouchError, isNetworkError } from "./couch-client.js";
+import { getSession } from "./session.js";
+
+/** Process exit codes, one per failure class, so scripts can branch on them. */
+export const ExitCode = {
+  General: 1,
+  BadRequest: 2,
+  Unauthorized: 3,
+  NotFound: 4,
+  Conflict: 5,
+  Server: 6,
+  Network: 7,
+  Interrupted: 130,
+} as const;
+
+export type ExitCode = (typeof ExitCode)[keyof typeof ExitCode];
+
+export function exitCodeFor(error: unknown): ExitCode {
+  if (error instanceof CouchError) {
+    if (error.status === 401 || error.status === 403)
+      return ExitCode.Unauthorized;
+    if (error.status === 404) return ExitCode.NotFound;
+    if (error.status === 409 || error.status === 412) return ExitCode.Conflict;
+    if (error.status >= 500) return ExitCode.Server;
+    if (error.status >= 400) return ExitCode.BadRequest;
+  }
+  if (isNetworkError(error)) return ExitCode.Network;
+  return ExitCode.General;
+}
+
+/** A one-line suggestion for what to do next, if we have one. */
+export function hintFor(error: unknown): string | undefined {
+  if (isNetworkError(error)) {
+    return "could not reach CouchDB: is it running? Check `sillon connect` or `sillon local status`";
+  }
+  if (!(error instanceof CouchError)) return undefined;
+
+  switch (error.status) {
+    case 401:
+      return "unauthorized: check the credentials for this connection (sillon connect)";
+    case 403:
+      return "forbidden: this user lacks permission — check the db's _security or use an admin";
+    case 404:
+      if (error.reason === "Database does not exist.") {
+        return "database not found: see `sillon db list` or create it with `sillon db create <name>`";
+      }
+      if (error.reason === "deleted") {
+        return "document was deleted: `sillon doc list` shows live ids";
+      }
+      if (error.reason === "missing") {
+        return "document not found: check the id with `sillon doc list`";
+      }
+      return `not found: ${error.method} ${error.path}`;
+    case 409:
+      return "conflict: refetch the current _rev and retry, or use --force where supported";
+    case 412:
+      return "already exists: pick another name or delete the existing one first";
+    case 413:
+      return "request too large: split the payload into smaller batches";
+    case 400:
+    case 415:
+      return "bad request: check the JSON body and query options";
+    default:
+      if (error.status >= 500) {
+        return "server error: check `sillon server info` and the CouchDB logs";
+      }
+      return undefined;
+  }
+}
+
+/**
+ * Print an error (with a hint when we know the failure class) and exit with
+ * the matching exit code. Used by every command's catch block; `hints` adds
+ * command-specific lines below the generic one.
+ */
+export function reportError(
+  error: unknown,
+  options: { label?: string; hints?: string[] } = {},
+): never {
+  // The command already chose its exit code
+  if (error instanceof ExitSignal) throw error;
+  // Ctrl-C in the shell cut the command short; what it broke isn't news
+  if (getSession()?.signal?.aborted) {
+    console.error(pc.dim("Interrupted"));
+    exit(ExitCode.Interrupted);
+  }
+  const message = error instanceof Error ? error.message : String(error);
+  console.error(pc.red(`${options.label ?? "Error"}: ${message}`));
+
+  const hint = hintFor(error);
+  if (hint) console.error(pc.dim(`  ${hint}`));
+  for (const extra of options.hints ?? []) console.error(pc.dim(`  ${extra}`));
+
+  exit(exitCodeFor(error));
+}
+
+/** Thrown by `exit` inside `sillon shell`, which keeps running afterwards. */
+export class ExitSignal extends Error {
+  constructor(readonly code: number) {
+    super(`exit ${code}`);
+    this.name = "ExitSignal";
+  }
+}
+
+/** End the command with `code`: the process, or just the shell command. */
+export function exit(code: number): never {
+  if (getSession()) throw new ExitSignal(code);
+  process.exit(code);
+}
@@ -0,0 +1,294 @@
+import type { CouchClient, Document } from "./couch-client.js";
+import { parseCsv } from "./csv.js";
+import {
+  type DumpEntry,
+  type LoadOptions,
+  type LoadResult,
+  loadDump,
+  maybeGunzip,
+  readDump,
+} from "./dump.js";
+import { isObject } from "./json-view.js";
+
+export type ImportFormat = "csv" | "tsv" | "jsonl" | "json";
+
+export const FIELD_TYPES = [
+  "string",
+  "number",
+  "boolean",
+  "date",
+  "json",
+] as const;
+
+export type FieldType = (typeof FIELD_TYPES)[number];
+
+export interface ImportSpec {
+  /** `_id` template: `{field}` placeholders are filled from the converted doc. */
+  idTemplate?: string;
+  /** Source column → target field path; an empty target drops the column. */
+  mapping?: Record<string, string>;
+  /** Target field path → type to coerce its value to. */
+  types?: Record<string, FieldType>;
+  /** Turn number- and boolean-looking strings into numbers and booleans. */
+  infer?: boolean;
+}
+
+type ImportRecord = Record<string, unknown>;
+
+/** Guess the format from the file extension. */
+export function detectFormat(file: string): ImportFormat | undefined {
+  const ext = file.toLowerCase().replace(/\.gz$/, "").split(".").pop();
+  if (ext === "csv" || ext === "tsv" || ext === "json") return ext;
+  if (ext === "jsonl" || ext === "ndjson") return "jsonl";
+  return undefined;
+}
+
+/**
+ * Read records from CSV/TSV (first row is the header, every value a string)
+ * or from JSONL / a JSON array of objects, gzipped or not. CSV is parsed
+ * whole; JSON input is read through `readDump`.
+ */
+export async function* readRecords(
+  input: ReadableStream<Uint8Array>,
+  format: ImportFormat,
+  delimiter?: string,
+): AsyncGenerator<ImportRecord> {
+  if (format === "jsonl" || format === "json") {
+    let n = 0;
+    for await (const entry of readDump(input)) {
+      n++;
+      if (entry.type !== "doc") continue;
+      const value: unknown = entry.doc;
+      if (typeof value !== "object" || value === null || Array.isArray(value)) {
+        throw new Error(`Record ${n} is not a JSON object`);
+      }
+      yield entry.doc;
+    }
+    return;
+  }
+
+  const text = await new Response(await maybeGunzip(input)).text();
+  const [header, ...rows] = parseCsv(
+    text,
+    delimiter ?? (format === "tsv" ? "\t" : ","),
+  );
+  if (!header) return;
+
+  for (const [index, row] of rows.entries()) {
+    if (row.length > header.length) {
+      throw new Error(
+        `Record ${index + 1} has ${row.length} fields, the header has ${header.length}`,
+      );
+    }
+    const record: ImportRecord = {};
+    for (const [col, name] of header.entries()) {
+      // Short rows leave trailing columns out rather than empty
+      if (name && col < row.length) record[name] = row[col];
+    }
+    yield record;
+  }
+}
+
+// ── Conversion ────────────────────────────────────────────────────────────────
+
+/** Parse repeated `left:right` flags (`--map`, `--type`) into a record. */
+export function parsePairs(
+  pairs: string[],
+  flag: string,
+): Record<string, string> {
+  const result: Record<string, string> = {};
+  for (const pair of pairs) {
+    // Split on the last colon: column names may contain one, paths can't
+    const at = pair.lastIndexOf(":");
+    if (at <= 0) throw new Error(`Invalid ${flag} "${pair}": expected a:b`);
+    result[pair.slice(0, at)] = pair.slice(at + 1);
+  }
+  return result;
+}
+
+const NUMBER = /^-?(0|[1-9]\d*)(\.\d+)?([eE][+-]?\d+)?$/;
+
+/** Numbers and booleans from their plain spellings; `"02139"` stays a string. */
+function inferValue(value: unknown): unknown {
+  if (typeof value !== "string") return value;
+  if (value === "") return null;
+  if (value === "true") return true;
+  if (value === "false") return false;
+  if (NUMBER.test(value)) return Number(value);
+  return value;
+}
+
+/** Coerce `value` to `type`; empty strings become null. Throws on bad input. */
+export function coerce(value: unknown, type: FieldType): unknown {
+  if (value === null || value === undefined) return value;
+  if (type === "string") {
+    return typeof value === "string" ? value : JSON.stringify(value);
+  }
+  if (value === "") return null;
+
+  switch (type) {
+    case "number": {
+      const n =
+        typeof value === "number" ? value : Number(String(value).trim());
+      if (Number.isNaN(n)) throw new Error(`"${value}" is not a number`);
+      return n;
+    }
+    case "boolean": {
+      if (typeof value === "boolean") return value;
+      const text = String(value).trim().toLowerCase();
+      if (["true", "yes", "y", "1"].includes(text)) return true;
+      if (["false", "no", "n", "0"].includes(text)) return false;
+      throw new Error(`"${value}" is not a boolean`);
+    }
+    case "date": {
+      const date = new Date(value as string | number);
+      if (Number.isNaN(date.getTime())) {
+        throw new Error(`"${value}" is not a date`);
+      }
+      return date.toISOString();
+    }
+    case "json":
+      if (typeof value !== "string") return value;
+      try {
+        return JSON.parse(value);
+      } catch {
+        throw new Error(`"${value}" is not valid JSON`);
+      }
+  }
+}
+
+/** Set a dotted path (`address.city`), creating the objects along the way. */
+function setPath(target: ImportRecord, path: string, value: unknown): void {
+  const parts = path.split(".");
+  const last = parts.pop() ?? path;
+  let node = target;
+  for (const part of parts) {
+    const next = node[part];
+    if (next === undefined) {
+      node[part] = {};
+    } else if (!isObject(next)) {
+      throw new Error(`Field "${part}" is both a value and an object`);
+    }
+    node = node[part] as ImportRecord;
+  }
+  node[last] = value;
+}
+
+function getPath(source: ImportRecord, path: string): unknown {
+  let node: unknown = source;
+  for (const part of path.split(".")) {
+    if (!isObject(node)) return undefined;
+    node = node[part];
+  }
+  return node;
+}
+
+/** Fill `{field}` placeholders (dotted paths allowed) from `doc`. */
+export function renderId(template: string, doc: ImportRecord): string {
+  return template.replace(/\{([^{}]+)\}/g, (_match, path: string) => {
+    const value = getPath(doc, path.trim());
+    if (value === undefined || value === null || value === "") {
+      throw new Error(`No value for {${path}} in the _id template`);
+    }
+    return typeof value === "object" ? JSON.stringify(value) : String(value);
+  });
+}
+
+/**
+ * Turn one input record into a document: rename columns, coerce values,
+ * nest dotted field names and render the `_id`. `n` numbers the record in
+ * error messages.
+ */
+export function toDocument(
+  record: ImportRecord,
+  spec: ImportSpec,
+  n: number,
+): Document {
+  const doc: ImportRecord = {};
+  try {
+    for (const [key, raw] of Object.entries(record)) {
+      const target = spec.mapping?.[key] ?? key;
+      if (!target) continue;
+      const type = spec.types?.[target];
+      let value = raw;
+      if (type) value = coerce(raw, type);
+      else if (spec.infer) value = inferValue(raw);
+      setPath(doc, target, value);
+    }
+    if (spec.idTemplate) {
+      // The template wins over an _id column; keep _id first for previews
+      const { _id: _replaced, ...fields } = doc;
+      return { _id: renderId(spec.idTemplate, doc), ...fields };
+    }
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(`Record ${n}: ${message}`);
+  }
+  // Docs without an _id get one from CouchDB
+  return doc as Document;
+}
+
+export async function* toDocuments(
+  records: AsyncIterable<ImportRecord>,
+  spec: ImportSpec,
+): AsyncGenerator<Document> {
+  let n = 0;
+  for await (const record of records) {
+    yield toDocument(record, spec, ++n);
+  }
+}
+
+/**
+ * Upsert support: look up the current `_rev` of each batch of docs with one
+ * `_all_docs?keys=` request and attach it, so the write updates instead of
+ * conflicting. Deleted and missing docs are left without a `_rev`.
+ */
+export async function* withExistingRevs(
+  client: Pick<CouchClient, "getAllDocs">,
+  db: string,
+  docs: AsyncIterable<Document>,
+  batchSize = 500,
+): AsyncGenerator<Document> {
+  const lookup = async function* (batch: Document[]) {
+    const keys = batch.map((doc) => doc._id).filter(Boolean);
+    const revs = new Map<string, string>();
+    if (keys.length > 0) {
+      const result = await client.getAllDocs(db, { keys });
+      for (const row of result.rows) {
+        // Unknown keys come back as { key, error: "not_found" } with no value
+        if (!row.value || row.value.deleted) continue;
+        revs.set(row.id, row.value.rev);
+      }
+    }
+    for (const doc of batch) {
+      const rev = doc._id ? revs.get(doc._id) : undefined;
+      yield rev ? { ...doc, _rev: rev } : doc;
+    }
+  };
+
+  let batch: Document[] = [];
+  for await (const doc of docs) {
+    batch.push(doc);
+    if (batch.length >= batchSize) {
+      yield* lookup(batch);
+      batch = [];
+    }
+  }
+  if (batch.length > 0) yield* lookup(batch);
+}
+
+async function* asEntries(
+  docs: AsyncIterable<Document>,
+): AsyncGenerator<DumpEntry> {
+  for await (const doc of docs) yield { type: "doc", doc };
+}
+
+/** Write converted docs with `loadDump`'s batching and failure reporting. */
+export function importDocuments(
+  client: Pick<CouchClient, "bulkDocs">,
+  db: string,
+  docs: AsyncIterable<Document>,
+  options: LoadOptions = {},
+): Promise<LoadResult> {
+  return loadDump(client, db, asEntries(docs), options);
+}
@@ -0,0 +1,101 @@
+/**
+ * One line of a pretty-printed JSON value, as `JSON.stringify(v, null, 2)`
+ * would lay it out, except that folded objects and arrays collapse to `{…}`.
+ */
+export interface JsonLine {
+  /** JSON Pointer of the value on this line ("" for the root). */
+  path: string;
+  depth: number;
+  key?: string;
+  /** Scalar as JSON, an opening `{` / `[`, a closing `}` / `]`, or `{…}`. */
+  text: string;
+  comma: boolean;
+  /** Set on the opening (or folded) line of a non-empty object or array. */
+  container?: { folded: boolean; size: number; array: boolean };
+  /** The closing-bracket line of a container. */
+  closing?: boolean;
+}
+
+/** A JSON object: not null, not an array. */
+export function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isContainer(value: unknown): value is object {
+  return typeof value === "object" && value !== null;
+}
+
+function pointer(parent: string, key: string | number): string {
+  return `${parent}/${String(key).replaceAll("~", "~0").replaceAll("/", "~1")}`;
+}
+
+/** Lay out `value` line by line, collapsing the containers in `folded`. */
+export function jsonLines(
+  value: unknown,
+  folded: ReadonlySet<string> = new Set(),
+): JsonLine[] {
+  const lines: JsonLine[] = [];
+
+  const walk = (
+    node: unknown,
+    path: string,
+    depth: number,
+    key: string | undefined,
+    comma: boolean,
+  ) => {
+    if (!isContainer(node)) {
+      lines.push({
+        path,
+        depth,
+        key,
+        text: JSON.stringify(node) ?? "null",
+        comma,
+      });
+      return;
+    }
+
+    const array = Array.isArray(node);
+    const entries: [string | number, unknown][] = array
+      ? node.map((item, i) => [i, item])
+      : Object.entries(node);
+    const [open, close] = array ? ["[", "]"] : ["{", "}"];
+    if (entries.length === 0) {
+      lines.push({ path, depth, key, text: `${open}${close}`, comma });
+      return;
+    }
+
+    const container = { folded: folded.has(path), size: entries.length, array };
+    if (container.folded) {
+      lines.push({
+        path,
+        depth,
+        key,
+        text: `${open}…${close}`,
+        comma,
+        container,
+      });
+      return;
+    }
+    lines.push({ path, depth, key, text: open, comma: false, container });
+    for (const [i, [childKey, child]] of entries.entries()) {
+      walk(
+        child,
+        pointer(path, childKey),
+        depth + 1,
+        array ? undefined : String(childKey),
+        i < entries.length - 1,
+      );
+    }
+    lines.push({ path, depth, text: close, comma, closing: true });
+  };
+
+  walk(value, "", 0, undefined, false);
+  return lines;
+}
+
+/** Paths of every non-empty container below the root, e.g. to fold all. */
+export function containerPaths(value: unknown): string[] {
+  return jsonLines(value)
+    .filter((line) => line.container && line.path !== "")
+    .map((line) => line.path);
+}
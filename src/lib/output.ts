@@ -0,0 +1,319 @@
+import pc from "picocolors";
+import { delimiterFor, formatCsv } from "./csv.js";
+import { isObject } from "./json-view.js";
+import { type Query, compileQuery } from "./query.js";
+
+export const OUTPUT_FORMATS = [
+  "table",
+  "json",
+  "ndjson",
+  "yaml",
+  "csv",
+  "tsv",
+] as const;
+
+export type OutputFormat = (typeof OUTPUT_FORMATS)[number];
+
+/** `SillonConfig.output`: "auto" means tables on a TTY, JSON when piped. */
+export type OutputSetting = OutputFormat | "auto";
+
+/** Per-command options that pick a format (`--json` predates `-o`). */
+export interface OutputOptions {
+  json?: boolean;
+}
+
+let flagFormat: OutputFormat | undefined;
+let configFormat: OutputSetting = "auto";
+let query: Query | undefined;
+
+function isOutputFormat(value: string): value is OutputFormat {
+  return (OUTPUT_FORMATS as readonly string[]).includes(value);
+}
+
+/**
+ * Set the program-wide format before a command runs: the global `-o` flag
+ * wins over the config file's `output` setting. `expression` is the global
+ * `--query`, compiled up front so a typo fails before any request is made.
+ */
+export function configureOutput(
+  flag?: string,
+  setting?: string,
+  expression?: string,
+): void {
+  if (flag !== undefined && !isOutputFormat(flag)) {
+    // `db dump -o <file>` and `doc attach get -o <file>` predate the global
+    // flag; those commands now take the path as --file
+    throw new Error(
+      `Unknown output format "${flag}": use ${OUTPUT_FORMATS.join(", ")}\n  -o picks the output format; write to a file with --file <path>`,
+    );
+  }
+  flagFormat = flag;
+  // A bad value in config.json shouldn't break every command
+  configFormat = setting && isOutputFormat(setting) ? setting : "auto";
+  query = expression === undefined ? undefined : compileQuery(expression);
+}
+
+/** --json, then -o, then the config setting, then TTY detection. */
+export function outputFormat(options: OutputOptions = {}): OutputFormat {
+  if (options.json) return "json";
+  if (flagFormat) return flagFormat;
+  if (configFormat !== "auto") return configFormat;
+  return process.stdout.isTTY ? "table" : "json";
+}
+
+/**
+ * Whether a command may take over the terminal (e.g. with the fuzzy picker):
+ * both ends are a TTY and nothing machine-readable was asked for.
+ */
+export function isInteractive(options: OutputOptions = {}): boolean {
+  return (
+    !query &&
+    outputFormat(options) === "table" &&
+    !!process.stdin.isTTY &&
+    !!process.stdout.isTTY
+  );
+}
+
+/**
+ * Delimiter for commands that can export a whole result set as CSV/TSV:
+ * from their own `--format`, or from `-o csv|tsv`.
+ */
+export function exportDelimiter(
+  options: OutputOptions & { format?: string } = {},
+): string | undefined {
+  // A query needs the whole result, so -o csv goes through printStructured
+  if (query) {
+    if (options.format) {
+      throw new Error("--query can't be combined with --format: use -o csv");
+    }
+    return undefined;
+  }
+  if (options.format) return delimiterFor(options.format);
+  const format = outputFormat(options);
+  return format === "csv" || format === "tsv"
+    ? delimiterFor(format)
+    : undefined;
+}
+
+// ── Machine-readable formats ──────────────────────────────────────────────────
+
+function isBlock(value: unknown): boolean {
+  if (Array.isArray(value)) return value.length > 0;
+  return isObject(value) && Object.keys(value).length > 0;
+}
+
+const PLAIN = /^[A-Za-z_/][\w./@+-]*( [\w./@+-]+)*$/;
+const RESERVED = /^(true|false|yes|no|on|off|null|y|n)$/i;
+
+function yamlScalar(value: unknown): string {
+  if (value === null || value === undefined) return "null";
+  if (typeof value !== "string") return JSON.stringify(value);
+  // Double-quoted YAML is a superset of JSON strings
+  return PLAIN.test(value) && !RESERVED.test(value)
+    ? value
+    : JSON.stringify(value);
+}
+
+function yamlLines(value: unknown): string[] {
+  if (Array.isArray(value)) {
+    if (value.length === 0) return ["[]"];
+    return value.flatMap((item) => {
+      const [first, ...rest] = yamlLines(item);
+      return [`- ${first}`, ...rest.map((line) => `  ${line}`)];
+    });
+  }
+  if (isObject(value)) {
+    const entries = Object.entries(value).filter(([, v]) => v !== undefined);
+    if (entries.length === 0) return ["{}"];
+    return entries.flatMap(([key, child]) => {
+      const name = yamlScalar(key);
+      if (!isBlock(child)) return [`${name}: ${yamlLines(child)[0]}`];
+      return [`${name}:`, ...yamlLines(child).map((line) => `  ${line}`)];
+    });
+  }
+  return [yamlScalar(value)];
+}
+
+export function toYaml(value: unknown): string {
+  return yamlLines(value).join("\n");
+}
+
+/** Row formats need objects; wrap bare values (e.g. db names). */
+function asRecord(row: unknown): object {
+  return isObject(row) ? row : { value: row };
+}
+
+/**
+ * Serialize `data` in a machine-readable format. Row formats (ndjson, csv,
+ * tsv) print `rows`: by default the array itself, or the object as one row.
+ */
+export function formatData(
+  data: unknown,
+  format: Exclude<OutputFormat, "table">,
+  rows?: unknown[],
+): string {
+  const items = rows ?? (Array.isArray(data) ? data : [data]);
+  switch (format) {
+    case "json":
+      return JSON.stringify(data, null, 2);
+    case "yaml":
+      return toYaml(data);
+    case "ndjson":
+      return items.map((item) => JSON.stringify(item)).join("\n");
+    case "csv":
+    case "tsv":
+      return formatCsv(items.map(asRecord), delimiterFor(format)).trimEnd();
+  }
+}
+
+/**
+ * Print `data` in the active machine-readable format and return true, or
+ * return false when the caller should render its own human-readable output.
+ * With `--query` the expression's result is printed instead, in every format:
+ * a table can't show an arbitrary value, so there strings print bare and
+ * anything else as JSON.
+ */
+export function printStructured(
+  data: unknown,
+  options: OutputOptions = {},
+  rows?: unknown[],
+): boolean {
+  const format = outputFormat(options);
+  if (query) {
+    const result = query(data);
+    if (format !== "table") {
+      const items = Array.isArray(result) ? result : [result];
+      console.log(formatData(result, format, items));
+    } else {
+      console.log(
+        typeof result === "string" ? result : JSON.stringify(result, null, 2),
+      );
+    }
+    return true;
+  }
+  if (format === "table") return false;
+  const text = formatData(data, format, rows);
+  if (text) console.log(text);
+  return true;
+}
+
+/** Whether a global `--query` was given. */
+export function hasQuery(): boolean {
+  return query !== undefined;
+}
+
+/**
+ * One item of a stream (a followed feed, a `--watch` refresh) as a single
+ * line, so the output stays NDJSON whatever the format. `--query` runs on
+ * each item; as in `printStructured`, a table shows a string result bare.
+ */
+export function formatStreamItem(
+  item: unknown,
+  options: OutputOptions = {},
+): string {
+  const value = query ? query(item) : item;
+  return typeof value === "string" && outputFormat(options) === "table"
+    ? value
+    : JSON.stringify(value);
+}
+
+// ── Tables ────────────────────────────────────────────────────────────────────
+
+export interface Column<T> {
+  header: string;
+  value: (row: T) => unknown;
+  align?: "left" | "right";
+  /** Cells longer than this are cut with an ellipsis. */
+  max?: number;
+  color?: (text: string) => string;
+}
+
+function cellText(value: unknown): string {
+  if (value === undefined || value === null) return "";
+  const text = typeof value === "string" ? value : JSON.stringify(value);
+  return text.replace(/\s*\n\s*/g, " ");
+}
+
+function truncate(text: string, width: number): string {
+  if (text.length <= width) return text;
+  return width <= 1 ? "…" : `${text.slice(0, width - 1)}…`;
+}
+
+/**
+ * Lay out rows as an aligned table with a dimmed header. On a terminal the
+ * widest columns are narrowed until the table fits the window.
+ */
+export function renderTable<T>(
+  rows: T[],
+  columns: Column<T>[],
+  indent = "  ",
+): string[] {
+  const cells = rows.map((row) => columns.map((c) => cellText(c.value(row))));
+  const widths = columns.map((column, i) =>
+    Math.min(
+      column.max ?? Number.POSITIVE_INFINITY,
+      Math.max(
+        column.header.length,
+        ...cells.map((row) => row[i]?.length ?? 0),
+      ),
+    ),
+  );
+
+  const available = process.stdout.isTTY ? process.stdout.columns : undefined;
+  if (available) {
+    const total = () =>
+      indent.length +
+      widths.reduce((a, b) => a + b, 0) +
+      2 * (widths.length - 1);
+    while (total() > available) {
+      const widest = widths.indexOf(Math.max(...widths));
+      const floor = Math.max(columns[widest]?.header.length ?? 0, 8);
+      const width = widths[widest] ?? 0;
+      if (width <= floor) break;
+      widths[widest] = Math.max(floor, width - (total() - available));
+    }
+  }
+
+  const line = (
+    values: string[],
+    style?: (c: Column<T>, s: string) => string,
+  ) =>
+    indent +
+    values
+      .map((value, i) => {
+        const column = columns[i] as Column<T>;
+        const width = widths[i] ?? 0;
+        const text = truncate(value, width);
+        // No trailing padding after the last column
+        const padded =
+          column.align === "right"
+            ? text.padStart(width)
+            : i === values.length - 1
+              ? text
+              : text.padEnd(width);
+        return style ? style(column, padded) : padded;
+      })
+      .join("  ");
+
+  return [
+    pc.dim(line(columns.map((c) => c.header))),
+    ...cells.map((row) =>
+      line(row, (column, text) => (column.color ? column.color(text) : text)),
+    ),
+  ];
+}
+
+export function printTable<T>(rows: T[], columns: Column<T>[]): void {
+  for (const line of renderTable(rows, columns)) console.log(line);
+}
+
+/** A one-line `{ key: value, … }` summary of a document's own fields. */
+export function preview(doc: Record<string, unknown>, fields = 4): string {
+  const keys = Object.keys(doc).filter((k) => !k.startsWith("_"));
+  if (keys.length === 0) return "";
+  const shown = keys
+    .slice(0, fields)
+    .map((k) => `${k}: ${truncate(JSON.stringify(doc[k]) ?? "", 24)}`);
+  if (keys.length > fields) shown.push("…");
+  return `{ ${shown.join(", ")} }`;
+}
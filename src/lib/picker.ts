@@ -0,0 +1,449 @@
+import pc from "picocolors";
+
+// ── Scoring ───────────────────────────────────────────────────────────────────
+
+export interface Match {
+  score: number;
+  /** Indexes into the text of the matched characters, for highlighting. */
+  positions: number[];
+}
+
+const BOUNDARY = /[\s/_\-:.@]/;
+
+/**
+ * fzf-style fuzzy match: every pattern character must appear in order. The
+ * shortest window ending at the first full match is scored, with bonuses for
+ * consecutive characters and word starts (after `/`, `_`, `:`, camelCase …)
+ * and a penalty for gaps. Smart case: an uppercase letter makes it exact.
+ */
+export function fuzzyMatch(pattern: string, text: string): Match | undefined {
+  if (pattern === "") return { score: 0, positions: [] };
+  const exact = pattern !== pattern.toLowerCase();
+  const needle = exact ? pattern : pattern.toLowerCase();
+  const hay = exact ? text : text.toLowerCase();
+
+  let p = 0;
+  let end = -1;
+  for (let i = 0; i < hay.length; i++) {
+    if (hay[i] !== needle[p]) continue;
+    p++;
+    if (p === needle.length) {
+      end = i;
+      break;
+    }
+  }
+  if (end < 0) return undefined;
+
+  // Walk back from the end to the latest start: the tightest window
+  let start = end;
+  p = needle.length - 1;
+  for (let i = end; i >= 0; i--) {
+    if (hay[i] !== needle[p]) continue;
+    p--;
+    if (p < 0) {
+      start = i;
+      break;
+    }
+  }
+
+  const positions: number[] = [];
+  let score = 0;
+  p = 0;
+  for (let i = start; i <= end && p < needle.length; i++) {
+    if (hay[i] !== needle[p]) continue;
+    let bonus = 16;
+    const prev = text[i - 1];
+    if (positions.at(-1) === i - 1) bonus += 12;
+    if (i === 0 || (prev !== undefined && BOUNDARY.test(prev))) bonus += 10;
+    else if (prev && /[a-z]/.test(prev) && /[A-Z]/.test(text[i] as string))
+      bonus += 8;
+    score += bonus;
+    positions.push(i);
+    p++;
+  }
+  score -= end - start + 1 - needle.length;
+  return { score, positions };
+}
+
+export interface Ranked<T> {
+  item: T;
+  /** Position in the source list, the last tie-breaker. */
+  index: number;
+  label: string;
+  match: Match;
+}
+
+/** Best score first, then shorter labels, then source order. */
+export function compareRanked<T>(a: Ranked<T>, b: Ranked<T>): number {
+  return (
+    b.match.score - a.match.score ||
+    a.label.length - b.label.length ||
+    a.index - b.index
+  );
+}
+
+export function rank<T>(
+  candidates: Omit<Ranked<T>, "match">[],
+  pattern: string,
+): Ranked<T>[] {
+  const out: Ranked<T>[] = [];
+  for (const candidate of candidates) {
+    const match = fuzzyMatch(pattern, candidate.label);
+    if (match) out.push({ ...candidate, match });
+  }
+  // No pattern: keep the source order
+  return pattern ? out.sort(compareRanked) : out;
+}
+
+export function highlight(text: string, positions: number[]): string {
+  if (positions.length === 0) return text;
+  const marked = new Set(positions);
+  let out = "";
+  for (const [i, ch] of [...text].entries()) {
+    out += marked.has(i) ? pc.bold(pc.yellow(ch)) : ch;
+  }
+  return out;
+}
+
+// ── Keys ──────────────────────────────────────────────────────────────────────
+
+/** A keypress: `text` for printable input, otherwise a name like "up". */
+export type Key = { name: "text"; text: string } | { name: string };
+
+const SEQUENCES: Record<string, string> = {
+  "[A": "up",
+  "[B": "down",
+  "[C": "right",
+  "[D": "left",
+  OA: "up",
+  OB: "down",
+  "[H": "home",
+  "[F": "end",
+  "[3~": "delete",
+  "[5~": "pageup",
+  "[6~": "pagedown",
+};
+
+/** Split a raw-mode stdin chunk (possibly several keys, or a paste) into keys. */
+export function parseKeys(chunk: string): Key[] {
+  const keys: Key[] = [];
+  let text = "";
+  const flush = () => {
+    if (text) keys.push({ name: "text", text });
+    text = "";
+  };
+
+  for (let i = 0; i < chunk.length; i++) {
+    const ch = chunk[i] as string;
+    const code = ch.charCodeAt(0);
+
+    if (ch === "\x1b") {
+      flush();
+      const rest = chunk.slice(i + 1);
+      const seq = Object.keys(SEQUENCES).find((s) => rest.startsWith(s));
+      if (seq) {
+        keys.push({ name: SEQUENCES[seq] as string });
+        i += seq.length;
+      } else if (rest.startsWith("[")) {
+        // Unknown CSI sequence: skip to its final byte
+        const match = /^\[[\d;]*[A-Za-z~]/.exec(rest);
+        i += match ? match[0].length : 1;
+      } else {
+        keys.push({ name: "escape" });
+      }
+    } else if (ch === "\r" || ch === "\n") {
+      flush();
+      keys.push({ name: "enter" });
+    } else if (ch === "\x7f" || ch === "\b") {
+      flush();
+      keys.push({ name: "backspace" });
+    } else if (ch === "\t") {
+      flush();
+      keys.push({ name: "tab" });
+    } else if (code < 32) {
+      flush();
+      keys.push({ name: `ctrl-${String.fromCharCode(code + 96)}` });
+    } else {
+      text += ch;
+    }
+  }
+  flush();
+  return keys;
+}
+
+// ── Picker ────────────────────────────────────────────────────────────────────
+
+export interface PickOptions<T> {
+  /** Shown before the query, e.g. the database name. */
+  prompt?: string;
+  /** Text to search and display; defaults to `String(item)`. */
+  label?: (item: T) => string;
+  /** Plain-text preview of the highlighted item (fetched lazily, cached). */
+  preview?: (item: T) => string | Promise<string>;
+  /** Keys besides enter that accept the selection, e.g. "ctrl-e". */
+  accept?: string[];
+  /** One-line help shown at the bottom. */
+  hint?: string;
+}
+
+export interface Picked<T> {
+  item: T;
+  /** "enter", or whichever `accept` key was pressed. */
+  key: string;
+}
+
+const ALT_SCREEN_ON = "\x1b[?1049h";
+const ALT_SCREEN_OFF = "\x1b[?1049l";
+const CLEAR = "\x1b[H\x1b[2J";
+
+function fit(text: string, width: number): string {
+  if (width <= 0) return "";
+  return text.length <= width ? text : `${text.slice(0, width - 1)}…`;
+}
+
+function pages<T>(source: T[] | AsyncIterable<T[]>): AsyncIterable<T[]> {
+  if (!Array.isArray(source)) return source;
+  return (async function* () {
+    yield source;
+  })();
+}
+
+class Picker<T> {
+  private candidates: Omit<Ranked<T>, "match">[] = [];
+  private matches: Ranked<T>[] = [];
+  private query = "";
+  private cursor = 0;
+  private offset = 0;
+  private loading = true;
+  private error: string | undefined;
+  private previews = new Map<number, string>();
+
+  constructor(
+    private options: PickOptions<T>,
+    private out: NodeJS.WriteStream,
+    private redraw: () => void,
+  ) {}
+
+  add(items: T[]): void {
+    const label = this.options.label ?? ((item: T) => String(item));
+    const added = items.map((item, i) => ({
+      item,
+      index: this.candidates.length + i,
+      label: label(item).replace(/\s*\n\s*/g, " "),
+    }));
+    this.candidates.push(...added);
+    // Only the new items need scoring; merge them into the ranked list
+    const current = this.current();
+    this.matches.push(...rank(added, this.query));
+    if (this.query) this.matches.sort(compareRanked);
+    this.follow(current);
+  }
+
+  finish(error?: unknown): void {
+    this.loading = false;
+    if (error) {
+      this.error = error instanceof Error ? error.message : String(error);
+    }
+  }
+
+  current(): Ranked<T> | undefined {
+    return this.matches[this.cursor];
+  }
+
+  setQuery(query: string): void {
+    // Extending the query can only narrow the matches: rescore those alone
+    const pool = query.startsWith(this.query) ? this.matches : this.candidates;
+    this.query = query;
+    this.matches = rank(pool, query);
+    this.cursor = 0;
+    this.offset = 0;
+  }
+
+  /** Keep the cursor on the same item when the list is re-sorted. */
+  private follow(item: Ranked<T> | undefined): void {
+    if (!item) return;
+    const at = this.matches.findIndex((m) => m.index === item.index);
+    if (at >= 0) this.cursor = at;
+  }
+
+  /** Handle a key; returns the pick, null to cancel, undefined to go on. */
+  handle(key: Key): Picked<T> | null | undefined {
+    const page = Math.max(1, this.listHeight() - 1);
+    switch (key.name) {
+      case "text":
+        this.setQuery(this.query + (key as { text: string }).text);
+        return undefined;
+      case "backspace":
+        this.setQuery(this.query.slice(0, -1));
+        return undefined;
+      case "ctrl-u":
+        this.setQuery("");
+        return undefined;
+      case "ctrl-w":
+        this.setQuery(this.query.replace(/\S*\s*$/, ""));
+        return undefined;
+      case "up":
+      case "ctrl-p":
+      case "ctrl-k":
+        this.move(-1);
+        return undefined;
+      case "down":
+      case "ctrl-n":
+      case "ctrl-j":
+        this.move(1);
+        return undefined;
+      case "pageup":
+        this.move(-page);
+        return undefined;
+      case "pagedown":
+        this.move(page);
+        return undefined;
+      case "escape":
+      case "ctrl-c":
+      case "ctrl-g":
+        return null;
+    }
+    if (key.name === "enter" || this.options.accept?.includes(key.name)) {
+      const current = this.current();
+      return current ? { item: current.item, key: key.name } : undefined;
+    }
+    return undefined;
+  }
+
+  private move(delta: number): void {
+    const last = this.matches.length - 1;
+    this.cursor = Math.max(0, Math.min(last, this.cursor + delta));
+  }
+
+  private listHeight(): number {
+    // Prompt line on top, hint line at the bottom
+    return Math.max(1, (this.out.rows || 24) - 2);
+  }
+
+  private previewOf(entry: Ranked<T>): string[] {
+    const cached = this.previews.get(entry.index);
+    if (cached !== undefined) return cached.split("\n");
+    const preview = this.options.preview;
+    if (!preview) return [];
+    this.previews.set(entry.index, "…");
+    Promise.resolve()
+      .then(() => preview(entry.item))
+      .then(
+        (text) => this.previews.set(entry.index, text),
+        (error) =>
+          this.previews.set(
+            entry.index,
+            `(${error instanceof Error ? error.message : String(error)})`,
+          ),
+      )
+      .then(() => this.redraw());
+    return ["…"];
+  }
+
+  render(): string {
+    const width = this.out.columns || 80;
+    const height = this.listHeight();
+    const showPreview = !!this.options.preview && width >= 70;
+    const listWidth = showPreview ? Math.floor(width / 2) : width;
+
+    if (this.cursor < this.offset) this.offset = this.cursor;
+    if (this.cursor >= this.offset + height) {
+      this.offset = this.cursor - height + 1;
+    }
+
+    const status = `${this.matches.length}/${this.candidates.length}${this.loading ? " …" : ""}`;
+    const prompt = `${this.options.prompt ? `${this.options.prompt} ` : ""}> `;
+    const lines = [`${pc.cyan(prompt)}${this.query}  ${pc.dim(status)}`];
+
+    const current = this.current();
+    const preview = showPreview && current ? this.previewOf(current) : [];
+
+    for (let row = 0; row < height; row++) {
+      const entry = this.matches[this.offset + row];
+      let left = "";
+      let plain = 0;
+      if (entry) {
+        const selected = this.offset + row === this.cursor;
+        const text = fit(entry.label, listWidth - 3);
+        const positions = entry.match.positions.filter((i) => i < text.length);
+        left = `${selected ? pc.cyan("▸ ") : "  "}${highlight(text, positions)}`;
+        if (selected) left = pc.bold(left);
+        plain = text.length + 2;
+      } else if (row === 0 && this.error) {
+        left = pc.red(`  ${fit(this.error, listWidth - 3)}`);
+        plain = Math.min(this.error.length, listWidth - 3) + 2;
+      }
+      if (showPreview) {
+        const side = fit(preview[row] ?? "", width - listWidth - 3);
+        left += `${" ".repeat(Math.max(0, listWidth - plain))}${pc.dim("│")} ${side}`;
+      }
+      lines.push(left);
+    }
+
+    const hint = this.options.hint ?? "enter: select · ↑/↓: move · esc: cancel";
+    lines.push(pc.dim(fit(hint, width)));
+    return CLEAR + lines.join("\r\n");
+  }
+}
+
+/**
+ * Full-screen fuzzy picker on the terminal (drawn on stderr, keys read in
+ * raw mode). `source` may be a list or pages that arrive while typing.
+ * Resolves to the picked item, or undefined when cancelled.
+ */
+export async function pick<T>(
+  source: T[] | AsyncIterable<T[]>,
+  options: PickOptions<T> = {},
+): Promise<Picked<T> | undefined> {
+  const stdin = process.stdin;
+  const out = process.stderr;
+  let closed = false;
+  const draw = () => {
+    if (!closed) out.write(picker.render());
+  };
+  const picker = new Picker<T>(options, out, draw);
+
+  out.write(ALT_SCREEN_ON);
+  stdin.setRawMode(true);
+  stdin.setEncoding("utf8");
+  stdin.resume();
+
+  const result = await new Promise<Picked<T> | undefined>((resolve) => {
+    const close = (picked: Picked<T> | undefined) => {
+      closed = true;
+      stdin.off("data", onData);
+      out.off("resize", draw);
+      resolve(picked);
+    };
+    const onData = (chunk: string) => {
+      for (const key of parseKeys(chunk)) {
+        const picked = picker.handle(key);
+        if (picked === null) return close(undefined);
+        if (picked) return close(picked);
+      }
+      draw();
+    };
+    stdin.on("data", onData);
+    out.on("resize", draw);
+    draw();
+
+    (async () => {
+      try {
+        for await (const page of pages(source)) {
+          if (closed) return;
+          picker.add(page);
+          draw();
+        }
+        picker.finish();
+      } catch (error) {
+        picker.finish(error);
+      }
+      draw();
+    })();
+  });
+
+  stdin.setRawMode(false);
+  stdin.pause();
+  out.write(ALT_SCREEN_OFF);
+  return result;
+}
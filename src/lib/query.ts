@@ -0,0 +1,674 @@
+import { isObject } from "./json-view.js";
+
+/**
+ * A JMESPath subset for `--query`: field paths (`sizes.active`, `"quoted-key"`),
+ * indexes and slices (`rows[0]`, `rows[-1]`, `rows[:5]`), projections
+ * (`rows[*].id`, `rows[].doc`, `*.status`), filters (`rows[?value.rev != 'x']`),
+ * multiselects (`[id, key]`, `{id: id, rev: value.rev}`), pipes, `||`, `&&`,
+ * `!`, comparisons, literals (`` `true` ``, `'raw'`, `42`) and a few functions.
+ */
+export type Query = (data: unknown) => unknown;
+
+type Node =
+  | { type: "current" }
+  | { type: "field"; name: string }
+  | { type: "literal"; value: unknown }
+  | { type: "index"; index: number }
+  | { type: "slice"; start?: number; stop?: number; step?: number }
+  | { type: "values" }
+  | { type: "sub"; left: Node; right: Node }
+  | { type: "project"; left: Node; right: Node; filter?: Node }
+  | { type: "flatten"; node: Node }
+  | { type: "list"; items: Node[] }
+  | { type: "hash"; entries: [string, Node][] }
+  | { type: "pipe"; left: Node; right: Node }
+  | { type: "or" | "and"; left: Node; right: Node }
+  | { type: "not"; node: Node }
+  | { type: "compare"; op: Comparator; left: Node; right: Node }
+  | { type: "call"; name: string; args: Node[] };
+
+type Comparator = "==" | "!=" | "<" | "<=" | ">" | ">=";
+
+type Token =
+  | { kind: "ident" | "quoted"; value: string; pos: number }
+  | { kind: "literal"; value: unknown; pos: number }
+  | { kind: "number"; value: number; pos: number }
+  | { kind: "punct"; value: string; pos: number }
+  | { kind: "eof"; pos: number };
+
+const PUNCTUATION = [
+  "||",
+  "&&",
+  "==",
+  "!=",
+  "<=",
+  ">=",
+  "<",
+  ">",
+  "!",
+  "|",
+  ".",
+  "[",
+  "]",
+  "{",
+  "}",
+  "(",
+  ")",
+  ",",
+  ":",
+  "*",
+  "?",
+  "@",
+];
+
+const COMPARATORS = new Set(["==", "!=", "<", "<=", ">", ">="]);
+
+function fail(pos: number, message: string): never {
+  throw new Error(`Invalid query at position ${pos + 1}: ${message}`);
+}
+
+/** Read a `'raw'` or `` `json` `` body up to its closing delimiter. */
+function readDelimited(expr: string, start: number, end: string): number {
+  let i = start + 1;
+  while (i < expr.length && expr[i] !== end) {
+    if (expr[i] === "\\") i++;
+    i++;
+  }
+  if (i >= expr.length) fail(start, `unterminated ${end}`);
+  return i;
+}
+
+function tokenize(expr: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < expr.length) {
+    const ch = expr[i] as string;
+    if (/\s/.test(ch)) {
+      i++;
+      continue;
+    }
+
+    const rest = expr.slice(i);
+    const ident = /^[A-Za-z_][\w]*/.exec(rest);
+    const number = /^-?\d+(\.\d+)?/.exec(rest);
+    if (ident) {
+      tokens.push({ kind: "ident", value: ident[0], pos: i });
+      i += ident[0].length;
+    } else if (number) {
+      tokens.push({ kind: "number", value: Number(number[0]), pos: i });
+      i += number[0].length;
+    } else if (ch === '"') {
+      const end = readDelimited(expr, i, '"');
+      tokens.push({
+        kind: "quoted",
+        value: JSON.parse(expr.slice(i, end + 1)),
+        pos: i,
+      });
+      i = end + 1;
+    } else if (ch === "'") {
+      const end = readDelimited(expr, i, "'");
+      const value = expr.slice(i + 1, end).replace(/\\(['\\])/g, "$1");
+      tokens.push({ kind: "literal", value, pos: i });
+      i = end + 1;
+    } else if (ch === "`") {
+      const end = readDelimited(expr, i, "`");
+      const body = expr.slice(i + 1, end).replace(/\\`/g, "`");
+      let value: unknown;
+      try {
+        value = JSON.parse(body);
+      } catch {
+        fail(i, `invalid JSON literal \`${body}\``);
+      }
+      tokens.push({ kind: "literal", value, pos: i });
+      i = end + 1;
+    } else {
+      const punct = PUNCTUATION.find((p) => rest.startsWith(p));
+      if (!punct) fail(i, `unexpected "${ch}"`);
+      tokens.push({ kind: "punct", value: punct, pos: i });
+      i += punct.length;
+    }
+  }
+
+  tokens.push({ kind: "eof", pos: expr.length });
+  return tokens;
+}
+
+// ── Functions ─────────────────────────────────────────────────────────────────
+
+function typeOf(value: unknown): string {
+  if (value === null || value === undefined) return "null";
+  if (Array.isArray(value)) return "array";
+  return typeof value;
+}
+
+function expect(name: string, value: unknown, ...types: string[]): void {
+  if (!types.includes(typeOf(value))) {
+    throw new Error(
+      `${name}() expects ${types.join(" or ")}, got ${typeOf(value)}`,
+    );
+  }
+}
+
+function numbers(name: string, value: unknown): number[] {
+  expect(name, value, "array");
+  const items = value as unknown[];
+  for (const item of items) expect(name, item, "number");
+  return items as number[];
+}
+
+const FUNCTIONS: Record<
+  string,
+  [arity: number, (...args: unknown[]) => unknown]
+> = {
+  length: [
+    1,
+    (v) => {
+      expect("length", v, "string", "array", "object");
+      return typeof v === "string" || Array.isArray(v)
+        ? v.length
+        : Object.keys(v as object).length;
+    },
+  ],
+  keys: [
+    1,
+    (v) => {
+      expect("keys", v, "object");
+      return Object.keys(v as object);
+    },
+  ],
+  values: [
+    1,
+    (v) => {
+      expect("values", v, "object");
+      return Object.values(v as object);
+    },
+  ],
+  sort: [
+    1,
+    (v) => {
+      expect("sort", v, "array");
+      return [...(v as (string | number)[])].sort((a, b) =>
+        a < b ? -1 : a > b ? 1 : 0,
+      );
+    },
+  ],
+  join: [
+    2,
+    (separator, v) => {
+      expect("join", separator, "string");
+      expect("join", v, "array");
+      return (v as unknown[]).join(separator as string);
+    },
+  ],
+  contains: [
+    2,
+    (subject, search) => {
+      expect("contains", subject, "string", "array");
+      if (typeof subject === "string") {
+        return typeof search === "string" && subject.includes(search);
+      }
+      return (subject as unknown[]).some((item) => equals(item, search));
+    },
+  ],
+  starts_with: [
+    2,
+    (v, prefix) => {
+      expect("starts_with", v, "string");
+      expect("starts_with", prefix, "string");
+      return (v as string).startsWith(prefix as string);
+    },
+  ],
+  sum: [1, (v) => numbers("sum", v).reduce((a, b) => a + b, 0)],
+  min: [
+    1,
+    (v) => {
+      const items = numbers("min", v);
+      return items.length > 0 ? Math.min(...items) : null;
+    },
+  ],
+  max: [
+    1,
+    (v) => {
+      const items = numbers("max", v);
+      return items.length > 0 ? Math.max(...items) : null;
+    },
+  ],
+  type: [1, typeOf],
+  to_string: [1, (v) => (typeof v === "string" ? v : JSON.stringify(v))],
+  to_number: [
+    1,
+    (v) => {
+      if (typeof v === "number") return v;
+      const n = typeof v === "string" ? Number(v) : Number.NaN;
+      return Number.isNaN(n) ? null : n;
+    },
+  ],
+};
+
+// ── Parser ────────────────────────────────────────────────────────────────────
+
+const CURRENT: Node = { type: "current" };
+
+class Parser {
+  private pos = 0;
+
+  constructor(private tokens: Token[]) {}
+
+  parse(): Node {
+    const node = this.pipe();
+    const token = this.peek();
+    if (token.kind !== "eof") this.unexpected(token);
+    return node;
+  }
+
+  private peek(offset = 0): Token {
+    return this.tokens[
+      Math.min(this.pos + offset, this.tokens.length - 1)
+    ] as Token;
+  }
+
+  private next(): Token {
+    const token = this.peek();
+    this.pos++;
+    return token;
+  }
+
+  private is(value: string, offset = 0): boolean {
+    const token = this.peek(offset);
+    return token.kind === "punct" && token.value === value;
+  }
+
+  private take(value: string): void {
+    const token = this.next();
+    if (token.kind !== "punct" || token.value !== value) {
+      fail(token.pos, `expected "${value}"`);
+    }
+  }
+
+  private unexpected(token: Token): never {
+    if (token.kind === "eof") fail(token.pos, "unexpected end of query");
+    const text =
+      token.kind === "literal"
+        ? JSON.stringify(token.value)
+        : String(token.value);
+    fail(token.pos, `unexpected "${text}"`);
+  }
+
+  private pipe(): Node {
+    let left = this.or();
+    while (this.is("|")) {
+      this.next();
+      left = { type: "pipe", left, right: this.or() };
+    }
+    return left;
+  }
+
+  private or(): Node {
+    let left = this.and();
+    while (this.is("||")) {
+      this.next();
+      left = { type: "or", left, right: this.and() };
+    }
+    return left;
+  }
+
+  private and(): Node {
+    let left = this.not();
+    while (this.is("&&")) {
+      this.next();
+      left = { type: "and", left, right: this.not() };
+    }
+    return left;
+  }
+
+  private not(): Node {
+    if (this.is("!")) {
+      this.next();
+      return { type: "not", node: this.not() };
+    }
+    const left = this.postfix(this.primary(), false);
+    const token = this.peek();
+    if (token.kind === "punct" && COMPARATORS.has(token.value)) {
+      this.next();
+      const right = this.postfix(this.primary(), false);
+      return { type: "compare", op: token.value as Comparator, left, right };
+    }
+    return left;
+  }
+
+  private primary(): Node {
+    const token = this.peek();
+    switch (token.kind) {
+      case "ident":
+        this.next();
+        return this.is("(")
+          ? this.call(token.value, token.pos)
+          : { type: "field", name: token.value };
+      case "quoted":
+        this.next();
+        return { type: "field", name: token.value };
+      case "literal":
+      case "number":
+        this.next();
+        return { type: "literal", value: token.value };
+      case "eof":
+        return this.unexpected(token);
+    }
+
+    switch (token.value) {
+      case "@":
+        this.next();
+        return CURRENT;
+      case "(": {
+        this.next();
+        const node = this.pipe();
+        this.take(")");
+        return node;
+      }
+      case "*":
+        this.next();
+        return this.projection({ type: "values" });
+      case "{":
+        return this.hash();
+      case "[":
+        // `[0]`, `[*]`, `[?…]`, `[]` apply to the current value
+        if (this.isBracketSuffix()) return CURRENT;
+        return this.list();
+    }
+    return this.unexpected(token);
+  }
+
+  private isBracketSuffix(): boolean {
+    const token = this.peek(1);
+    if (token.kind === "number") return true;
+    return ["*", "?", "]", ":"].some((p) => this.is(p, 1));
+  }
+
+  /**
+   * Apply `.field`, `[n]`, `[*]` … to `node`. Inside a projection's right
+   * side `[]` ends the projection, so `a[*].b[]` flattens the projected list.
+   */
+  private postfix(base: Node, inProjection: boolean): Node {
+    let node = base;
+    for (;;) {
+      if (this.is(".")) {
+        this.next();
+        const token = this.peek();
+        if (token.kind === "ident" || token.kind === "quoted") {
+          this.next();
+          node = sub(node, { type: "field", name: token.value });
+        } else if (this.is("*")) {
+          this.next();
+          node = this.projection(sub(node, { type: "values" }));
+        } else if (this.is("{")) {
+          node = sub(node, this.hash());
+        } else if (this.is("[")) {
+          node = sub(node, this.list());
+        } else {
+          this.unexpected(token);
+        }
+      } else if (this.is("[")) {
+        if (this.is("]", 1)) {
+          if (inProjection) return node;
+          this.next();
+          this.next();
+          node = this.projection({ type: "flatten", node });
+        } else if (this.is("*", 1)) {
+          this.next();
+          this.next();
+          this.take("]");
+          node = this.projection(node);
+        } else if (this.is("?", 1)) {
+          this.next();
+          this.next();
+          const filter = this.pipe();
+          this.take("]");
+          node = this.projection(node, filter);
+        } else {
+          this.next();
+          const selector = this.indexOrSlice();
+          node =
+            selector.type === "slice"
+              ? this.projection(sub(node, selector))
+              : sub(node, selector);
+        }
+      } else {
+        return node;
+      }
+    }
+  }
+
+  private projection(left: Node, filter?: Node): Node {
+    return {
+      type: "project",
+      left,
+      right: this.postfix(CURRENT, true),
+      filter,
+    };
+  }
+
+  private integer(): number | undefined {
+    const token = this.peek();
+    if (token.kind !== "number") return undefined;
+    if (!Number.isInteger(token.value)) fail(token.pos, "expected an integer");
+    this.next();
+    return token.value;
+  }
+
+  private indexOrSlice(): Node {
+    const start = this.integer();
+    if (!this.is(":")) {
+      if (start === undefined) this.unexpected(this.peek());
+      this.take("]");
+      return { type: "index", index: start };
+    }
+    this.next();
+    const stop = this.integer();
+    let step: number | undefined;
+    if (this.is(":")) {
+      this.next();
+      step = this.integer();
+      if (step === 0) fail(this.peek().pos, "slice step cannot be 0");
+    }
+    this.take("]");
+    return { type: "slice", start, stop, step };
+  }
+
+  private list(): Node {
+    this.take("[");
+    const items = [this.pipe()];
+    while (this.is(",")) {
+      this.next();
+      items.push(this.pipe());
+    }
+    this.take("]");
+    return { type: "list", items };
+  }
+
+  private hash(): Node {
+    this.take("{");
+    const entries: [string, Node][] = [];
+    do {
+      if (entries.length > 0) this.next();
+      const key = this.next();
+      if (key.kind !== "ident" && key.kind !== "quoted") {
+        this.unexpected(key);
+      }
+      this.take(":");
+      entries.push([key.value, this.pipe()]);
+    } while (this.is(","));
+    this.take("}");
+    return { type: "hash", entries };
+  }
+
+  private call(name: string, pos: number): Node {
+    const fn = FUNCTIONS[name];
+    if (!fn) fail(pos, `unknown function ${name}()`);
+    this.take("(");
+    const args: Node[] = [];
+    if (!this.is(")")) {
+      args.push(this.pipe());
+      while (this.is(",")) {
+        this.next();
+        args.push(this.pipe());
+      }
+    }
+    this.take(")");
+    if (args.length !== fn[0]) {
+      fail(pos, `${name}() takes ${fn[0]} argument(s), got ${args.length}`);
+    }
+    return { type: "call", name, args };
+  }
+}
+
+function sub(left: Node, right: Node): Node {
+  return left.type === "current" ? right : { type: "sub", left, right };
+}
+
+// ── Evaluation ────────────────────────────────────────────────────────────────
+
+/** JMESPath truthiness: null, false, "", [] and {} are false. */
+function truthy(value: unknown): boolean {
+  if (value === null || value === undefined || value === false) return false;
+  if (value === "") return false;
+  if (Array.isArray(value)) return value.length > 0;
+  if (isObject(value)) return Object.keys(value).length > 0;
+  return true;
+}
+
+function equals(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((item, i) => equals(item, b[i]));
+  }
+  if (isObject(a) && isObject(b)) {
+    const keys = Object.keys(a);
+    return (
+      keys.length === Object.keys(b).length &&
+      keys.every((key) => key in b && equals(a[key], b[key]))
+    );
+  }
+  return false;
+}
+
+function compare(op: Comparator, a: unknown, b: unknown): boolean | null {
+  if (op === "==") return equals(a, b);
+  if (op === "!=") return !equals(a, b);
+  // Ordering only makes sense between two numbers or two strings
+  const comparable =
+    (typeof a === "number" && typeof b === "number") ||
+    (typeof a === "string" && typeof b === "string");
+  if (!comparable) return null;
+  const [x, y] = [a as number | string, b as number | string];
+  switch (op) {
+    case "<":
+      return x < y;
+    case "<=":
+      return x <= y;
+    case ">":
+      return x > y;
+    case ">=":
+      return x >= y;
+  }
+}
+
+function slice(
+  items: unknown[],
+  { start, stop, step = 1 }: { start?: number; stop?: number; step?: number },
+): unknown[] {
+  const length = items.length;
+  const clamp = (n: number, low: number, high: number) =>
+    Math.min(Math.max(n < 0 ? n + length : n, low), high);
+  const out: unknown[] = [];
+  if (step > 0) {
+    const from = start === undefined ? 0 : clamp(start, 0, length);
+    const to = stop === undefined ? length : clamp(stop, 0, length);
+    for (let i = from; i < to; i += step) out.push(items[i]);
+  } else {
+    const from =
+      start === undefined ? length - 1 : clamp(start, -1, length - 1);
+    const to = stop === undefined ? -1 : clamp(stop, -1, length - 1);
+    for (let i = from; i > to; i += step) out.push(items[i]);
+  }
+  return out;
+}
+
+function evaluate(node: Node, value: unknown): unknown {
+  switch (node.type) {
+    case "current":
+      return value;
+    case "field":
+      return isObject(value) ? (value[node.name] ?? null) : null;
+    case "literal":
+      return node.value;
+    case "index": {
+      if (!Array.isArray(value)) return null;
+      const i = node.index < 0 ? value.length + node.index : node.index;
+      return value[i] ?? null;
+    }
+    case "slice":
+      return Array.isArray(value) ? slice(value, node) : null;
+    case "values":
+      return isObject(value) ? Object.values(value) : null;
+    case "sub": {
+      const left = evaluate(node.left, value);
+      return left === null ? null : evaluate(node.right, left);
+    }
+    case "project": {
+      const items = evaluate(node.left, value);
+      if (!Array.isArray(items)) return null;
+      const out: unknown[] = [];
+      for (const item of items) {
+        if (node.filter && !truthy(evaluate(node.filter, item))) continue;
+        const result = evaluate(node.right, item);
+        if (result !== null && result !== undefined) out.push(result);
+      }
+      return out;
+    }
+    case "flatten": {
+      const items = evaluate(node.node, value);
+      if (!Array.isArray(items)) return null;
+      return items.flatMap((item) => (Array.isArray(item) ? item : [item]));
+    }
+    case "list":
+      if (value === null) return null;
+      return node.items.map((item) => evaluate(item, value));
+    case "hash":
+      if (value === null) return null;
+      return Object.fromEntries(
+        node.entries.map(([key, item]) => [key, evaluate(item, value)]),
+      );
+    case "pipe":
+      return evaluate(node.right, evaluate(node.left, value));
+    case "or": {
+      const left = evaluate(node.left, value);
+      return truthy(left) ? left : evaluate(node.right, value);
+    }
+    case "and": {
+      const left = evaluate(node.left, value);
+      return truthy(left) ? evaluate(node.right, value) : left;
+    }
+    case "not":
+      return !truthy(evaluate(node.node, value));
+    case "compare":
+      return compare(
+        node.op,
+        evaluate(node.left, value),
+        evaluate(node.right, value),
+      );
+    case "call": {
+      const [, fn] = FUNCTIONS[node.name] as [
+        number,
+        (...a: unknown[]) => unknown,
+      ];
+      return fn(...node.args.map((arg) => evaluate(arg, value) ?? null));
+    }
+  }
+}
+
+/** Parse `expression` once; throws on a syntax error. */
+export function compileQuery(expression: string): Query {
+  const ast = new Parser(tokenize(expression)).parse();
+  return (data) => evaluate(ast, data ?? null);
+}
@@ -0,0 +1,201 @@
+import type {
+  CouchClient,
+  SchedulerDoc,
+  SchedulerJob,
+} from "./couch-client.js";
+import { redactUrl } from "./credentials.js";
+
+/**
+ * One replication as `repl status` shows it, merged from `_scheduler/docs`
+ * (state, error count), `_scheduler/jobs` (history) and `_active_tasks`
+ * (live counters).
+ */
+export interface ReplicationStatus {
+  /** The replication id, or `database/doc_id` before one is assigned. */
+  id: string;
+  doc_id?: string;
+  database?: string;
+  source: string;
+  target: string;
+  state: string;
+  continuous: boolean;
+  /** Percent of the source's changes checkpointed, 0–100. */
+  progress?: number;
+  /** Changes left to process, as reported by CouchDB. */
+  pending?: number;
+  docs_read?: number;
+  docs_written?: number;
+  /** Docs written per second since the previous refresh. */
+  rate?: number;
+  error_count: number;
+  error?: string;
+}
+
+/** States that deserve an alert. */
+export const ALERT_STATES = ["crashing", "failed"];
+
+type Counters = Record<string, unknown>;
+
+/**
+ * The numeric part of an update sequence. CouchDB 2+ seqs are opaque
+ * ("1234-g1AAAA…") but start with a count that is good enough for progress.
+ */
+export function seqNumber(seq: unknown): number | undefined {
+  if (typeof seq === "number") return seq;
+  if (typeof seq !== "string") return undefined;
+  const n = Number.parseInt(seq, 10);
+  return Number.isNaN(n) ? undefined : n;
+}
+
+/** How far the checkpoint is behind the source, as a percentage. */
+export function seqProgress(
+  sourceSeq: unknown,
+  checkpointedSeq: unknown,
+): number | undefined {
+  const source = seqNumber(sourceSeq);
+  const checkpointed = seqNumber(checkpointedSeq);
+  if (source === undefined || checkpointed === undefined) return undefined;
+  if (source <= 0) return 100;
+  return Math.min(100, Math.floor((checkpointed / source) * 100));
+}
+
+function endpoint(value: unknown): string {
+  if (typeof value === "string") return redactUrl(value);
+  const url = (value as { url?: unknown } | undefined)?.url;
+  return typeof url === "string" ? redactUrl(url) : "?";
+}
+
+/** Scheduler job history (newest first) in scheduler doc terms. */
+function jobState(job: SchedulerJob): string {
+  switch (job.history[0]?.type) {
+    case "crashed":
+      return "crashing";
+    case "started":
+      return "running";
+    case "added":
+      return "pending";
+    default:
+      return job.history[0]?.type ?? "unknown";
+  }
+}
+
+function applyCounters(row: ReplicationStatus, counters: Counters): void {
+  const number = (key: string) =>
+    typeof counters[key] === "number" ? (counters[key] as number) : undefined;
+  row.docs_read = number("docs_read") ?? row.docs_read;
+  row.docs_written = number("docs_written") ?? row.docs_written;
+  row.pending = number("changes_pending") ?? row.pending;
+  row.progress =
+    seqProgress(counters.source_seq, counters.checkpointed_source_seq) ??
+    row.progress;
+}
+
+/**
+ * Merge the three views CouchDB has of replications into one row each,
+ * matched by replication id. Later sources refine earlier ones: tasks carry
+ * the freshest counters.
+ */
+export function mergeReplications(
+  tasks: Counters[],
+  jobs: SchedulerJob[],
+  docs: SchedulerDoc[],
+): ReplicationStatus[] {
+  const rows = new Map<string, ReplicationStatus>();
+  const row = (
+    id: string,
+    defaults: Omit<ReplicationStatus, "id" | "error_count" | "continuous">,
+  ): ReplicationStatus => {
+    let existing = rows.get(id);
+    if (!existing) {
+      existing = {
+        id,
+        ...defaults,
+        continuous: id.endsWith("+continuous"),
+        error_count: 0,
+      };
+      rows.set(id, existing);
+    }
+    return existing;
+  };
+
+  for (const doc of docs) {
+    const r = row(doc.id ?? `${doc.database}/${doc.doc_id}`, {
+      doc_id: doc.doc_id,
+      database: doc.database,
+      source: endpoint(doc.source),
+      target: endpoint(doc.target),
+      state: doc.state,
+    });
+    r.error_count = doc.error_count;
+    if (typeof doc.info?.error === "string") r.error = doc.info.error;
+    if (doc.info) applyCounters(r, doc.info);
+  }
+
+  for (const job of jobs) {
+    const known = rows.has(job.id);
+    const r = row(job.id, {
+      doc_id: job.doc_id,
+      database: job.database,
+      source: endpoint(job.source),
+      target: endpoint(job.target),
+      state: jobState(job),
+    });
+    if (!known) {
+      r.error_count = job.history.filter((h) => h.type === "crashed").length;
+    }
+    const crash = job.history.find((h) => h.type === "crashed");
+    if (!r.error && r.state === "crashing" && crash?.reason) {
+      r.error = crash.reason;
+    }
+    if (job.info) applyCounters(r, job.info);
+  }
+
+  for (const task of tasks) {
+    const id = String(task.replication_id ?? task.pid ?? "?");
+    const r = row(id, {
+      doc_id: typeof task.doc_id === "string" ? task.doc_id : undefined,
+      database: typeof task.database === "string" ? task.database : undefined,
+      source: endpoint(task.source),
+      target: endpoint(task.target),
+      state: "running",
+    });
+    if (task.continuous) r.continuous = true;
+    applyCounters(r, task);
+  }
+
+  for (const r of rows.values()) {
+    if (r.state === "completed" || r.pending === 0) r.progress = 100;
+  }
+  return [...rows.values()];
+}
+
+/** Fetch and merge; the scheduler endpoints are optional (admin-only). */
+export async function getReplicationStatus(
+  client: CouchClient,
+): Promise<ReplicationStatus[]> {
+  const [tasks, jobs, docs] = await Promise.all([
+    client.getReplicationTasks(),
+    client.getSchedulerJobs().catch(() => undefined),
+    client.getSchedulerDocs().catch(() => undefined),
+  ]);
+  return mergeReplications(tasks, jobs?.jobs ?? [], docs?.docs ?? []);
+}
+
+/** Derives docs/sec from how `docs_written` grows between refreshes. */
+export class ThroughputTracker {
+  private last = new Map<string, { written: number; at: number }>();
+
+  update(rows: ReplicationStatus[], now = Date.now()): void {
+    const seen = new Map<string, { written: number; at: number }>();
+    for (const row of rows) {
+      if (row.docs_written === undefined) continue;
+      const previous = this.last.get(row.id);
+      if (previous && now > previous.at) {
+        const written = Math.max(0, row.docs_written - previous.written);
+        row.rate = (written * 1000) / (now - previous.at);
+      }
+      seen.set(row.id, { written: row.docs_written, at: now });
+    }
+    this.last = seen;
+  }
+}
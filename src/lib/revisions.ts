@@ -0,0 +1,124 @@
+import type {
+  CouchClient,
+  Document,
+  RevInfo,
+  Revisions,
+} from "./couch-client.js";
+
+/** Fields that describe a revision rather than belong to its body. */
+export const REVISION_FIELDS = [
+  "_rev",
+  "_deleted",
+  "_revisions",
+  "_revs_info",
+  "_conflicts",
+];
+
+/** The generation of a rev: 3 for "3-917fa23…". */
+export function revPos(rev: string): number {
+  return Number.parseInt(rev, 10) || 0;
+}
+
+/**
+ * Order leaf revisions the way CouchDB picks a winner: live before deleted,
+ * then the longest history, then the highest rev hash. The winner is first.
+ */
+export function sortLeaves<T extends Pick<Document, "_rev" | "_deleted">>(
+  leaves: T[],
+): T[] {
+  return [...leaves].sort((a, b) => {
+    if (!!a._deleted !== !!b._deleted) return a._deleted ? 1 : -1;
+    const ra = a._rev ?? "";
+    const rb = b._rev ?? "";
+    if (revPos(ra) !== revPos(rb)) return revPos(rb) - revPos(ra);
+    return rb.localeCompare(ra);
+  });
+}
+
+/** Every leaf of a document, winner first; deleted leaves included. */
+export async function getLeaves(
+  client: CouchClient,
+  db: string,
+  id: string,
+): Promise<Document[]> {
+  const results = await client.getOpenRevs(db, id, "all");
+  const leaves = results.flatMap((r) => ("ok" in r ? [r.ok] : []));
+  if (leaves.length === 0) {
+    throw new Error(`Document "${id}" not found in "${db}"`);
+  }
+  return sortLeaves(leaves);
+}
+
+export interface RevisionEntry extends RevInfo {
+  /** Leaf of a branch (the winner or a conflict). */
+  leaf: boolean;
+  /** The revision a plain GET returns. */
+  winner: boolean;
+}
+
+/**
+ * The known history of a document across all its branches, newest first:
+ * each leaf's `_revs_info`, merged. Works for deleted docs too, because the
+ * leaves come from `open_revs=all` rather than a plain GET.
+ */
+export async function getRevisionHistory(
+  client: CouchClient,
+  db: string,
+  id: string,
+): Promise<RevisionEntry[]> {
+  const leaves = await getLeaves(client, db, id);
+  const entries = new Map<string, RevisionEntry>();
+
+  for (const [i, leaf] of leaves.entries()) {
+    const rev = leaf._rev as string;
+    const doc = await client.getDocument(db, id, { rev, revs_info: true });
+    const infos = (doc._revs_info as RevInfo[] | undefined) ?? [
+      { rev, status: leaf._deleted ? "deleted" : "available" },
+    ];
+    for (const info of infos) {
+      if (entries.has(info.rev)) continue;
+      entries.set(info.rev, {
+        ...info,
+        leaf: info.rev === rev,
+        winner: i === 0 && info.rev === rev,
+      });
+    }
+  }
+
+  return [...entries.values()].sort(
+    (a, b) => revPos(b.rev) - revPos(a.rev) || b.rev.localeCompare(a.rev),
+  );
+}
+
+/**
+ * The newest revision before a deletion whose body survived compaction:
+ * walks the tombstone's `_revisions` (from `open_revs=all&revs=true`) back
+ * from its parent. Undefined when every earlier body is gone.
+ */
+export async function lastLiveRevision(
+  client: CouchClient,
+  db: string,
+  id: string,
+): Promise<Document | undefined> {
+  const results = await client.getOpenRevs(db, id, "all", { revs: true });
+  const leaves = sortLeaves(results.flatMap((r) => ("ok" in r ? [r.ok] : [])));
+  const tombstone = leaves[0];
+  if (!tombstone) throw new Error(`Document "${id}" not found in "${db}"`);
+
+  const history = tombstone._revisions as Revisions | undefined;
+  if (!history) return undefined;
+  const ancestors = history.ids
+    .slice(1)
+    .map((hash, i) => `${history.start - 1 - i}-${hash}`);
+  if (ancestors.length === 0) return undefined;
+
+  const bodies = await client.getOpenRevs(db, id, ancestors);
+  const available = new Map(
+    bodies.flatMap((r) => ("ok" in r ? [[r.ok._rev, r.ok] as const] : [])),
+  );
+  for (const rev of ancestors) {
+    const doc = available.get(rev);
+    if (doc && !doc._deleted) return doc;
+  }
+  return undefined;
+}
@@ -0,0 +1,44 @@
+import type { ConnectionConfig } from "./config.js";
+import type { CouchClient } from "./couch-client.js";
+
+/**
+ * The connection `sillon shell` keeps open between commands. While a session
+ * is active, commands reuse its client (and its session cookie) instead of
+ * loading the config and credentials again, and `reportError` throws an
+ * `ExitSignal` rather than ending the process.
+ */
+export interface Session {
+  client: CouchClient;
+  conn: ConnectionConfig;
+  /** Aborted by Ctrl-C while the shell runs a command. */
+  signal?: AbortSignal;
+}
+
+let active: Session | undefined;
+
+export function getSession(): Session | undefined {
+  return active;
+}
+
+export function setSession(session: Session | undefined): void {
+  active = session;
+}
+
+/**
+ * A signal Ctrl-C aborts, for commands that stop cleanly on it (`--follow`,
+ * `--watch`). Inside the shell it is the running command's; otherwise a
+ * SIGINT listener that `release` removes, so none outlives the command.
+ */
+export function interruptSignal(): {
+  signal: AbortSignal;
+  release: () => void;
+} {
+  if (active?.signal) return { signal: active.signal, release: () => {} };
+  const controller = new AbortController();
+  const abort = () => controller.abort();
+  process.once("SIGINT", abort);
+  return {
+    signal: controller.signal,
+    release: () => process.off("SIGINT", abort),
+  };
+}
@@ -0,0 +1,129 @@
+import { afterEach, describe, expect, it } from "bun:test";
+import { rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { ChangeDispatcher } from "../src/lib/change-dispatcher";
+import type { ChangeRow } from "../src/lib/couch-client";
+
+function change(n: number): ChangeRow {
+  return { seq: `${n}-x`, id: `doc${n}`, changes: [{ rev: `1-${n}` }] };
+}
+
+describe("ChangeDispatcher", () => {
+  const deadLetter = join(tmpdir(), `sillon-dead-letter-${process.pid}.ndjson`);
+
+  afterEach(async () => {
+    await rm(deadLetter, { force: true });
+  });
+
+  it("should run the handler once per change", async () => {
+    const seen: string[] = [];
+    const dispatcher = new ChangeDispatcher(async (c) => {
+      seen.push(c.id);
+    });
+    for (const n of [1, 2, 3]) await dispatcher.dispatch(change(n));
+    await dispatcher.drain();
+    expect(seen).toEqual(["doc1", "doc2", "doc3"]);
+    expect(dispatcher.getStats().succeeded).toBe(3);
+  });
+
+  it("should never exceed the concurrency limit", async () => {
+    let active = 0;
+    let peak = 0;
+    const dispatcher = new ChangeDispatcher(
+      async () => {
+        active++;
+        peak = Math.max(peak, active);
+        await Bun.sleep(5);
+        active--;
+      },
+      { concurrency: 2 },
+    );
+    for (const n of [1, 2, 3, 4, 5]) await dispatcher.dispatch(change(n));
+    await dispatcher.drain();
+    expect(peak).toBe(2);
+  });
+
+  it("should retry a failing handler until it succeeds", async () => {
+    let calls = 0;
+    const dispatcher = new ChangeDispatcher(
+      async () => {
+        calls++;
+        if (calls < 3) throw new Error("flaky");
+      },
+      { retries: 3, retryDelayMs: 1 },
+    );
+    await dispatcher.dispatch(change(1));
+    await dispatcher.drain();
+    expect(calls).toBe(3);
+    expect(dispatcher.getStats()).toEqual({
+      succeeded: 1,
+      failed: 0,
+      retried: 2,
+    });
+  });
+
+  it("should dead-letter changes that exhaust their retries", async () => {
+    const dispatcher = new ChangeDispatcher(
+      async () => {
+        throw new Error("boom");
+      },
+      { retries: 1, retryDelayMs: 1, deadLetter },
+    );
+    await dispatcher.dispatch(change(7));
+    await dispatcher.drain();
+
+    const lines = (await Bun.file(deadLetter).text()).trim().split("\n");
+    expect(lines).toHaveLength(1);
+    const entry = JSON.parse(lines[0] ?? "{}");
+    expect(entry.id).toBe("doc7");
+    expect(entry.error).toBe("boom");
+    expect(entry.attempts).toBe(2);
+    expect(dispatcher.getStats().failed).toBe(1);
+  });
+
+  it("should only commit a seq once every earlier change has finished", async () => {
+    const committed: Array<string | number> = [];
+    const dispatcher = new ChangeDispatcher(
+      async (c) => {
+        // doc1 finishes last
+        await Bun.sleep(c.id === "doc1" ? 20 : 1);
+      },
+      { concurrency: 3, onCommit: (seq) => void committed.push(seq) },
+    );
+    for (const n of [1, 2, 3]) await dispatcher.dispatch(change(n));
+    await dispatcher.drain();
+    expect(committed).toEqual(["3-x"]);
+  });
+
+  it("should not commit past a change that failed without a dead-letter file", async () => {
+    const committed: Array<string | number> = [];
+    const dispatcher = new ChangeDispatcher(
+      async (c) => {
+        if (c.id === "doc2") throw new Error("boom");
+      },
+      { retries: 0, onCommit: (seq) => void committed.push(seq) },
+    );
+    for (const n of [1, 2, 3, 4]) await dispatcher.dispatch(change(n));
+    await dispatcher.drain();
+    expect(committed).toEqual(["1-x"]);
+    expect(dispatcher.getStats()).toEqual({
+      succeeded: 3,
+      failed: 1,
+      retried: 0,
+    });
+  });
+
+  it("should commit past a failed change once it is dead-lettered", async () => {
+    const committed: Array<string | number> = [];
+    const dispatcher = new ChangeDispatcher(
+      async (c) => {
+        if (c.id === "doc2") throw new Error("boom");
+      },
+      { retries: 0, deadLetter, onCommit: (seq) => void committed.push(seq) },
+    );
+    for (const n of [1, 2, 3]) await dispatcher.dispatch(change(n));
+    await dispatcher.drain();
+    expect(committed.at(-1)).toBe("3-x");
+  });
+});
@@ -0,0 +1,140 @@
+import { describe, expect, it } from "bun:test";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { Command } from "commander";
+import {
+  type CompletionSource,
+  cachedSource,
+  complete,
+  fileCachedSource,
+  splitWords,
+} from "../src/lib/complete";
+
+function program(): Command {
+  const root = new Command("sillon").option("-o, --output <format>");
+  const db = root.command("db");
+  db.command("list").option("--no-interactive");
+  db.command("info [name]");
+  const doc = root.command("doc");
+  doc.command("get [id] [db]").option("--rev <rev>");
+  const view = root.command("view");
+  view.command("query [ddoc] [view] [db]").option("--limit <n>");
+  return root;
+}
+
+const source: CompletionSource = {
+  databases: async () => ["orders", "users", "users_archive"],
+  documentIds: async (db, prefix) =>
+    [`${db}:1`, `${db}:2`, "other"].filter((id) => id.startsWith(prefix)),
+  designDocs: async () => ({ app: ["by_name", "count"], stats: ["total"] }),
+};
+
+function run(line: string, currentDb?: string): Promise<string[]> {
+  const words = splitWords(line);
+  if (line === "" || line.endsWith(" ")) words.push("");
+  return complete(program(), words, source, currentDb);
+}
+
+describe("complete", () => {
+  it("should complete commands, subcommands and options", async () => {
+    expect(await run("d")).toEqual(["db", "doc"]);
+    expect(await run("db ")).toEqual(["help", "info", "list"]);
+    expect(await run("db list --no")).toEqual(["--no-interactive"]);
+    expect(await run("doc get -")).toContain("--output");
+    expect(await run("db list -o y")).toEqual(["yaml"]);
+  });
+
+  it("should complete databases and doc ids from the source", async () => {
+    expect(await run("db info us")).toEqual(["users", "users_archive"]);
+    expect(await run("doc get ", "users")).toEqual([
+      "other",
+      "users:1",
+      "users:2",
+    ]);
+    expect(await run("doc get users:", "users")).toEqual([
+      "users:1",
+      "users:2",
+    ]);
+    expect(await run("doc get x ")).toEqual([
+      "orders",
+      "users",
+      "users_archive",
+    ]);
+    expect(await run("doc get ")).toEqual([]);
+  });
+
+  it("should complete ddocs and the views of the chosen ddoc", async () => {
+    expect(await run("view query ", "users")).toEqual(["app", "stats"]);
+    expect(await run("view query app ", "users")).toEqual(["by_name", "count"]);
+    expect(await run("view query --limit 5 _design/stats ", "users")).toEqual([
+      "total",
+    ]);
+  });
+});
+
+describe("cachedSource", () => {
+  it("should reuse answers until they expire and drop failures", async () => {
+    let calls = 0;
+    let fail = true;
+    const cached = cachedSource({
+      ...source,
+      databases: async () => {
+        calls++;
+        if (fail) throw new Error("down");
+        return ["users"];
+      },
+    });
+    await expect(cached.databases()).rejects.toThrow("down");
+    fail = false;
+    expect(await cached.databases()).toEqual(["users"]);
+    expect(await cached.databases()).toEqual(["users"]);
+    expect(calls).toBe(2);
+  });
+});
+
+describe("fileCachedSource", () => {
+  it("should share answers between runs, per connection", async () => {
+    const dir = await mkdtemp(join(tmpdir(), "sillon-complete-"));
+    const path = join(dir, "completions.json");
+    let loads = 0;
+    const load = async () => {
+      loads++;
+      return source;
+    };
+    try {
+      expect(await fileCachedSource(load, path, "a").databases()).toHaveLength(
+        3,
+      );
+      expect(await fileCachedSource(load, path, "a").databases()).toHaveLength(
+        3,
+      );
+      expect(loads).toBe(1);
+      await fileCachedSource(load, path, "b").databases();
+      expect(loads).toBe(2);
+      await fileCachedSource(load, path, "a", 0).databases();
+      expect(loads).toBe(3);
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe("splitWords", () => {
+  it("should split on whitespace and honour quotes and escapes", () => {
+    expect(splitWords(`doc put users '{"a": 1}'`)).toEqual([
+      "doc",
+      "put",
+      "users",
+      '{"a": 1}',
+    ]);
+    expect(splitWords(`find --selector "{\\"x\\": 1}" a\\ b ""`)).toEqual([
+      "find",
+      "--selector",
+      '{"x": 1}',
+      "a b",
+      "",
+    ]);
+    expect(() => splitWords(`doc get 'open`)).toThrow("Unterminated ' quote");
+  });
+});
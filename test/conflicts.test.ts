@@ -0,0 +1,338 @@
+import { describe, expect, it } from "bun:test";
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+  CONFLICTS_DDOC,
+  type ScanProgress,
+  conflictedDocs,
+  deepMerge,
+  documentBody,
+  getConflictRevisions,
+  highestGeneration,
+  inlineAttachments,
+  latestBy,
+  resolutionDocs,
+  resolverFor,
+} from "../src/lib/conflicts";
+import {
+  type AllDocsResult,
+  type CouchClient,
+  CouchError,
+  type MangoQuery,
+  type MangoResult,
+  type OpenRev,
+  type ViewResult,
+} from "../src/lib/couch-client";
+
+describe("conflictedDocs", () => {
+  it("should page through _all_docs and keep only conflicted docs", async () => {
+    const ids = ["a", "b", "c", "d", "e"];
+    const calls: Array<string | undefined> = [];
+    const client = {
+      getConflicts: async (
+        _db: string,
+        options: { limit: number; startkey?: string },
+      ): Promise<AllDocsResult> => {
+        calls.push(options.startkey);
+        const from = options.startkey ? ids.indexOf(options.startkey) : 0;
+        const rows = ids.slice(from, from + options.limit).map((id) => ({
+          id,
+          key: id,
+          value: { rev: "1-x" },
+          doc: {
+            _id: id,
+            _rev: "1-x",
+            ...(id === "b" || id === "e" ? { _conflicts: ["1-y"] } : {}),
+          },
+        }));
+        return { total_rows: ids.length, offset: from, rows };
+      },
+    } as unknown as CouchClient;
+
+    const found: string[] = [];
+    for await (const doc of conflictedDocs(client, "db", { pageSize: 2 })) {
+      found.push(doc._id);
+    }
+    expect(found).toEqual(["b", "e"]);
+    expect(calls).toEqual([undefined, "c", "e"]);
+  });
+});
+
+describe("conflictedDocs scan modes", () => {
+  const viewClient = (calls: unknown[]) =>
+    ({
+      getDocument: async () => {
+        throw new CouchError({ status: 404, method: "GET", path: "/db/ddoc" });
+      },
+      putDocument: async (_db: string, doc: unknown) => {
+        calls.push(["put", doc]);
+        return { ok: true, id: CONFLICTS_DDOC._id, rev: "1-a" };
+      },
+      deleteDocument: async (_db: string, id: string, rev: string) => {
+        calls.push(["delete", id, rev]);
+        return { ok: true, id, rev: "2-b" };
+      },
+      viewCleanup: async () => {
+        calls.push(["cleanup"]);
+        return { ok: true };
+      },
+      queryView: async (
+        _db: string,
+        ddoc: string,
+        view: string,
+      ): Promise<ViewResult> => {
+        expect(`${ddoc}/${view}`).toBe("sillon-conflicts/conflicts");
+        return {
+          total_rows: 1,
+          rows: [
+            {
+              id: "b",
+              key: "b",
+              value: { _rev: "2-x", _conflicts: ["2-y"] },
+            },
+          ],
+        };
+      },
+    }) as unknown as CouchClient;
+
+  it("should read only the helper view's rows, installing it first", async () => {
+    const calls: unknown[] = [];
+    const progress: ScanProgress[] = [];
+    const found = [];
+    const scan = conflictedDocs(viewClient(calls), "db", {
+      mode: "view",
+      onProgress: (p) => progress.push(p),
+    });
+    for await (const doc of scan) found.push(doc);
+    expect(found).toEqual([{ _id: "b", _rev: "2-x", _conflicts: ["2-y"] }]);
+    expect(calls).toEqual([
+      ["put", { ...CONFLICTS_DDOC, _rev: undefined }],
+      ["delete", CONFLICTS_DDOC._id, "1-a"],
+      ["cleanup"],
+    ]);
+    expect(progress.at(-1)).toEqual({ scanned: 1, total: 1, found: 1 });
+  });
+
+  it("should keep the helper view when asked to", async () => {
+    const calls: unknown[] = [];
+    const scan = conflictedDocs(viewClient(calls), "db", {
+      mode: "view",
+      keepView: true,
+    });
+    for await (const _ of scan) break;
+    expect(calls).toEqual([["put", { ...CONFLICTS_DDOC, _rev: undefined }]]);
+  });
+
+  it("should follow Mango bookmarks and count the docs examined", async () => {
+    const pages: MangoResult[] = [
+      {
+        docs: [
+          { _id: "a", _rev: "1-a", _conflicts: ["1-b"] },
+          { _id: "c", _rev: "1-c", _conflicts: ["1-d"] },
+        ],
+        bookmark: "p2",
+        execution_stats: { total_docs_examined: 40 } as never,
+      },
+      {
+        docs: [],
+        bookmark: "p3",
+        execution_stats: { total_docs_examined: 60 } as never,
+      },
+    ];
+    const queries: MangoQuery[] = [];
+    const client = {
+      getDatabaseInfo: async () => ({ doc_count: 100 }),
+      mangoQuery: async (_db: string, query: MangoQuery) => {
+        queries.push(query);
+        return pages[queries.length - 1];
+      },
+    } as unknown as CouchClient;
+
+    const progress: ScanProgress[] = [];
+    const ids: string[] = [];
+    const scan = conflictedDocs(client, "db", {
+      mode: "mango",
+      pageSize: 2,
+      onProgress: (p) => progress.push(p),
+    });
+    for await (const doc of scan) ids.push(doc._id);
+    expect(ids).toEqual(["a", "c"]);
+    expect(queries.map((q) => q.bookmark)).toEqual([undefined, "p2"]);
+    expect(queries[0]).toMatchObject({
+      selector: { _conflicts: { $exists: true } },
+      conflicts: true,
+    });
+    expect(progress.at(-1)).toEqual({ scanned: 100, total: 100, found: 2 });
+  });
+});
+
+describe("getConflictRevisions", () => {
+  it("should fetch the winner and its conflicts, winner first", async () => {
+    let asked: string[] = [];
+    const client = {
+      getOpenRevs: async (
+        _db: string,
+        _id: string,
+        revs: string[],
+      ): Promise<OpenRev[]> => {
+        asked = revs;
+        return [
+          { ok: { _id: "d", _rev: "2-a", n: 1 } },
+          { missing: "2-b" },
+          { ok: { _id: "d", _rev: "3-c", n: 3 } },
+        ];
+      },
+    } as unknown as CouchClient;
+
+    const revisions = await getConflictRevisions(client, "db", {
+      _id: "d",
+      _rev: "3-c",
+      _conflicts: ["2-a", "2-b"],
+    });
+    expect(asked).toEqual(["3-c", "2-a", "2-b"]);
+    expect(revisions.map((r) => r._rev)).toEqual(["3-c", "2-a"]);
+  });
+});
+
+describe("resolutionDocs", () => {
+  it("should write the body over the winner and delete the other leaves", () => {
+    const body = documentBody({
+      _id: "d",
+      _rev: "2-b",
+      _conflicts: ["2-a"],
+      n: 2,
+    });
+    expect(resolutionDocs("d", "2-b", ["2-a", "1-z"], body)).toEqual([
+      { _id: "d", _rev: "2-b", n: 2 },
+      { _id: "d", _rev: "2-a", _deleted: true },
+      { _id: "d", _rev: "1-z", _deleted: true },
+    ]);
+    expect(resolutionDocs("d", "2-b", ["2-a"])).toEqual([
+      { _id: "d", _rev: "2-a", _deleted: true },
+    ]);
+  });
+});
+
+describe("inlineAttachments", () => {
+  const stub = (digest: string, revpos: number) => ({
+    content_type: "text/plain",
+    length: 2,
+    digest,
+    revpos,
+    stub: true,
+  });
+  const revisions = [
+    {
+      _id: "d",
+      _rev: "3-c",
+      _attachments: { "a.txt": stub("md5-a", 1), "w.txt": stub("md5-w", 3) },
+    },
+    {
+      _id: "d",
+      _rev: "2-b",
+      _attachments: { "a.txt": stub("md5-a", 1), "b.txt": stub("md5-b", 2) },
+    },
+  ];
+
+  it("should inline the stubs the winner doesn't share", async () => {
+    const reads: Array<{ rev?: string; attachments?: boolean }> = [];
+    const client = {
+      getDocument: async (
+        _db: string,
+        _id: string,
+        options: { rev?: string; attachments?: boolean },
+      ) => {
+        reads.push(options);
+        return {
+          _id: "d",
+          _rev: options.rev,
+          _attachments: {
+            "b.txt": { ...stub("md5-b", 2), stub: undefined, data: "Yg==" },
+          },
+        };
+      },
+    } as unknown as CouchClient;
+
+    const body = documentBody(revisions[1] as Record<string, unknown>);
+    const inlined = await inlineAttachments(client, "db", revisions, body);
+    expect(reads).toEqual([{ rev: "2-b", attachments: true }]);
+    expect(inlined._attachments).toEqual({
+      "a.txt": stub("md5-a", 1),
+      "b.txt": expect.objectContaining({ data: "Yg==" }),
+    });
+  });
+
+  it("should leave bodies without attachments alone", async () => {
+    const client = {} as CouchClient;
+    const body = { _id: "d", n: 1 };
+    expect(await inlineAttachments(client, "db", revisions, body)).toBe(body);
+  });
+});
+
+describe("strategies", () => {
+  const revisions = [
+    {
+      _id: "d",
+      _rev: "3-c",
+      n: 3,
+      updated_at: "2024-02-01",
+      address: { city: "Paris" },
+    },
+    {
+      _id: "d",
+      _rev: "2-b",
+      n: 2,
+      updated_at: "2024-03-01",
+      address: { city: "Lyon", zip: "69001" },
+      email: "a@b.c",
+    },
+    { _id: "d", _rev: "2-a", n: 1 },
+  ];
+  const context = { db: "db", id: "d" };
+
+  it("should keep the newest timestamp, or the longest history", async () => {
+    expect(await latestBy("updated_at")(revisions, context)).toMatchObject({
+      n: 2,
+    });
+    expect(await latestBy("missing")(revisions, context)).toMatchObject({
+      n: 3,
+    });
+    expect(await highestGeneration(revisions, context)).toMatchObject({
+      n: 3,
+    });
+  });
+
+  it("should deep-merge with the preferred side winning disagreements", async () => {
+    const options = { field: "updated_at", prefer: "winner" as const };
+    expect(await deepMerge(options)(revisions, context)).toEqual({
+      _id: "d",
+      n: 3,
+      updated_at: "2024-02-01",
+      address: { city: "Paris", zip: "69001" },
+      email: "a@b.c",
+    });
+    expect(
+      await deepMerge({ ...options, prefer: "latest" })(revisions, context),
+    ).toMatchObject({ n: 2, address: { city: "Lyon", zip: "69001" } });
+  });
+
+  it("should load a resolver module by path", async () => {
+    const dir = await mkdtemp(join(tmpdir(), "sillon-resolver-"));
+    const path = join(dir, "resolver.ts");
+    await writeFile(
+      path,
+      "export function resolve(revisions) { return revisions.at(-1); }\n",
+    );
+    const options = { field: "updated_at", prefer: "winner" as const };
+    try {
+      const resolver = await resolverFor(path, options);
+      expect(await resolver(revisions, context)).toMatchObject({ n: 1 });
+      await expect(resolverFor("newest", options)).rejects.toThrow(
+        'Unknown strategy "newest"',
+      );
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -5,7 +5,7 @@
  */
 
 import { afterAll, beforeAll, describe, expect, it } from "bun:test";
-import { CouchClient } from "../src/lib/couch-client";
+import { CouchClient, CouchError } from "../src/lib/couch-client";
 
 // ── Fetch mock infrastructure ────────────────────────────────────────────────
 
@@ -14,6 +14,11 @@ type MockResponse = {
   status?: number;
   body?: unknown;
   text?: string;
+  headers?: Record<string, string>;
+  /** Reject instead of responding (simulates a network failure). */
+  throws?: Error;
+  /** Wait before responding; aborts with the request signal. */
+  delayMs?: number;
 };
 
 const capturedRequests: Array<{ url: string; options: RequestInit }> = [];
@@ -30,7 +35,21 @@ function makeResponse(resp: MockResponse): Response {
     resp.text ?? (resp.body !== undefined ? JSON.stringify(resp.body) : "");
   return new Response(body, {
     status: resp.status ?? (resp.ok ? 200 : 500),
-    headers: { "Content-Type": "application/json" },
+    headers: { "Content-Type": "application/json", ...resp.headers },
+  });
+}
+
+function networkError(code: string): Error {
+  return Object.assign(new Error(`socket failure: ${code}`), { code });
+}
+
+function waitFor(ms: number, signal?: AbortSignal | null): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener("abort", () => {
+      clearTimeout(timer);
+      reject(signal.reason);
+    });
   });
 }
 
@@ -54,8 +73,14 @@ const mockFetch = async (
       : input instanceof URL
         ? input.toString()
         : String(input);
-  capturedRequests.push({ url, options: init ?? {} });
+  // Snapshot headers: the client reuses one Headers object across attempts
+  capturedRequests.push({
+    url,
+    options: { ...init, headers: new Headers(init?.headers) },
+  });
   const queued = mockQueue.shift();
+  if (queued?.delayMs) await waitFor(queued.delayMs, init?.signal);
+  if (queued?.throws) throw queued.throws;
   if (queued) return makeResponse(queued);
   return makeResponse({ ok: true, body: {} });
 };
@@ -250,6 +275,62 @@ describe("CouchClient (unit)", () => {
     expect(url.searchParams.get("descending")).toBe("true");
   });
 
+  // ── paginateAllDocs ───────────────────────────────────────────────────────
+
+  it("paginateAllDocs pages by startkey instead of skip", async () => {
+    clearCaptures();
+    const row = (id: string) => ({ id, key: id, value: { rev: "1-a" } });
+    enqueueMock({
+      ok: true,
+      body: { total_rows: 3, offset: 0, rows: [row("a"), row("b"), row("c")] },
+    });
+    enqueueMock({
+      ok: true,
+      body: { total_rows: 3, offset: 2, rows: [row("c")] },
+    });
+
+    const pages: string[][] = [];
+    for await (const rows of client.paginateAllDocs("mydb", { pageSize: 2 })) {
+      pages.push(rows.map((r) => r.id));
+    }
+
+    expect(pages).toEqual([["a", "b"], ["c"]]);
+    expect(capturedRequests).toHaveLength(2);
+    const first = new URL(capturedRequests[0]?.url ?? "");
+    const second = new URL(capturedRequests[1]?.url ?? "");
+    expect(first.searchParams.get("limit")).toBe("3");
+    expect(first.searchParams.has("startkey")).toBe(false);
+    expect(second.searchParams.get("startkey")).toBe('"c"');
+    expect(second.searchParams.has("skip")).toBe(false);
+  });
+
+  it("getAllDocs passes attachments=true", async () => {
+    clearCaptures();
+    enqueueMock({ ok: true, body: { total_rows: 0, offset: 0, rows: [] } });
+    await client.getAllDocs("mydb", { include_docs: true, attachments: true });
+    const url = new URL(lastReq().url);
+    expect(url.searchParams.get("attachments")).toBe("true");
+  });
+
+  it("getSecurity GETs /{db}/_security", async () => {
+    clearCaptures();
+    enqueueMock({ ok: true, body: { members: { roles: ["staff"] } } });
+    const security = await client.getSecurity("mydb");
+    expect(lastReq().url).toBe(`${BASE}/mydb/_security`);
+    expect(security.members?.roles).toEqual(["staff"]);
+  });
+
+  it("putSecurity PUTs the security object", async () => {
+    clearCaptures();
+    enqueueMock({ ok: true, body: { ok: true } });
+    await client.putSecurity("mydb", { admins: { names: ["ann"] } });
+    expect(lastReq().url).toBe(`${BASE}/mydb/_security`);
+    expect(lastReq().options.method).toBe("PUT");
+    expect(JSON.parse(lastReq().options.body as string)).toEqual({
+      admins: { names: ["ann"] },
+    });
+  });
+
   // ── bulkDocs ──────────────────────────────────────────────────────────────
 
   it("bulkDocs sends POST to /_bulk_docs with docs array", async () => {
@@ -306,6 +387,50 @@ describe("CouchClient (unit)", () => {
     expect(url.searchParams.get("key")).toBe('"hello"');
   });
 
+  it("paginateView continues from the next row's key and doc id", async () => {
+    clearCaptures();
+    const row = (id: string, key: number) => ({ id, key, value: null });
+    enqueueMock({
+      ok: true,
+      body: { rows: [row("a", 1), row("b", 1), row("c", 2)] },
+    });
+    enqueueMock({ ok: true, body: { rows: [row("c", 2)] } });
+
+    const pages: string[][] = [];
+    for await (const rows of client.paginateView("mydb", "ddoc", "view", {
+      pageSize: 2,
+      skip: 5,
+    })) {
+      pages.push(rows.map((r) => r.id));
+    }
+
+    expect(pages).toEqual([["a", "b"], ["c"]]);
+    const first = new URL(capturedRequests[0]?.url ?? "");
+    const second = new URL(capturedRequests[1]?.url ?? "");
+    expect(first.searchParams.get("limit")).toBe("3");
+    expect(first.searchParams.get("skip")).toBe("5");
+    expect(second.searchParams.get("startkey")).toBe("2");
+    expect(second.searchParams.get("startkey_docid")).toBe("c");
+    expect(second.searchParams.has("skip")).toBe(false);
+  });
+
+  it("paginateView stops at limit", async () => {
+    clearCaptures();
+    const row = (id: string) => ({ id, key: id, value: null });
+    enqueueMock({ ok: true, body: { rows: [row("a"), row("b"), row("c")] } });
+
+    const ids: string[] = [];
+    for await (const rows of client.paginateView("mydb", "ddoc", "view", {
+      pageSize: 5,
+      limit: 2,
+    })) {
+      ids.push(...rows.map((r) => r.id));
+    }
+
+    expect(ids).toEqual(["a", "b"]);
+    expect(capturedRequests).toHaveLength(1);
+  });
+
   // ── mangoQuery ────────────────────────────────────────────────────────────
 
   it("mangoQuery sends POST to /<db>/_find", async () => {
@@ -321,6 +446,31 @@ describe("CouchClient (unit)", () => {
     expect(body.selector).toEqual({ type: "user" });
   });
 
+  it("paginateMango follows bookmarks until a short page", async () => {
+    clearCaptures();
+    enqueueMock({
+      ok: true,
+      body: { docs: [{ _id: "a" }, { _id: "b" }], bookmark: "bm1" },
+    });
+    enqueueMock({ ok: true, body: { docs: [{ _id: "c" }], bookmark: "bm2" } });
+
+    const pages: string[][] = [];
+    for await (const docs of client.paginateMango(
+      "mydb",
+      { selector: {}, skip: 1 },
+      2,
+    )) {
+      pages.push(docs.map((d) => d._id));
+    }
+
+    expect(pages).toEqual([["a", "b"], ["c"]]);
+    expect(capturedRequests).toHaveLength(2);
+    const first = JSON.parse(capturedRequests[0]?.options.body as string);
+    const second = JSON.parse(capturedRequests[1]?.options.body as string);
+    expect(first).toEqual({ selector: {}, skip: 1, limit: 2 });
+    expect(second).toEqual({ selector: {}, bookmark: "bm1", limit: 2 });
+  });
+
   // ── createIndex ───────────────────────────────────────────────────────────
 
   it("createIndex sends POST to /<db>/_index", async () => {
@@ -502,6 +652,157 @@ describe("CouchClient (unit)", () => {
     expect(body.keys).toEqual(["mydb", "_users"]);
   });
 
+  // ── changes ──────────────────────────────────────────────────────────────
+
+  it("changes hits /<db>/_changes with query params", async () => {
+    clearCaptures();
+    enqueueMock({ ok: true, body: { results: [], last_seq: "5-abc" } });
+    await client.changes("mydb", {
+      since: "3-xyz",
+      include_docs: true,
+      style: "all_docs",
+      limit: 10,
+    });
+    const url = new URL(lastReq().url);
+    expect(url.pathname).toBe("/mydb/_changes");
+    expect(url.searchParams.get("since")).toBe("3-xyz");
+    expect(url.searchParams.get("include_docs")).toBe("true");
+    expect(url.searchParams.get("style")).toBe("all_docs");
+    expect(url.searchParams.get("limit")).toBe("10");
+  });
+
+  it("changes with selector sends POST with filter=_selector", async () => {
+    clearCaptures();
+    enqueueMock({ ok: true, body: { results: [], last_seq: 0 } });
+    await client.changes("mydb", { selector: { type: "user" } });
+    const req = lastReq();
+    expect(new URL(req.url).searchParams.get("filter")).toBe("_selector");
+    expect(req.options.method).toBe("POST");
+    const body = JSON.parse(req.options.body as string) as {
+      selector: unknown;
+    };
+    expect(body.selector).toEqual({ type: "user" });
+  });
+
+  it("changes with doc_ids sends POST with filter=_doc_ids", async () => {
+    clearCaptures();
+    enqueueMock({ ok: true, body: { results: [], last_seq: 0 } });
+    await client.changes("mydb", { doc_ids: ["a", "b"] });
+    const req = lastReq();
+    expect(new URL(req.url).searchParams.get("filter")).toBe("_doc_ids");
+    const body = JSON.parse(req.options.body as string) as {
+      doc_ids: string[];
+    };
+    expect(body.doc_ids).toEqual(["a", "b"]);
+  });
+
+  it("streamChanges parses a continuous feed and skips heartbeats", async () => {
+    clearCaptures();
+    enqueueMock({
+      ok: true,
+      text:
+        '{"seq":"1-a","id":"doc1","changes":[{"rev":"1-x"}]}\n' +
+        "\n" +
+        '{"seq":"2-b","id":"doc2","changes":[{"rev":"1-y"}],"deleted":true}\n' +
+        '{"last_seq":"2-b","pending":0}\n',
+    });
+    const feed = client.streamChanges("mydb", {
+      since: "now",
+      heartbeat: 1000,
+    });
+    const ids: string[] = [];
+    let result = await feed.next();
+    while (!result.done) {
+      ids.push(result.value.id);
+      result = await feed.next();
+    }
+    expect(ids).toEqual(["doc1", "doc2"]);
+    expect(result.value).toBe("2-b");
+    const url = new URL(lastReq().url);
+    expect(url.searchParams.get("feed")).toBe("continuous");
+    expect(url.searchParams.get("heartbeat")).toBe("1000");
+  });
+
+  it("streamChanges parses an eventsource feed", async () => {
+    clearCaptures();
+    enqueueMock({
+      ok: true,
+      text:
+        'data: {"seq":"1-a","id":"doc1","changes":[{"rev":"1-x"}]}\n' +
+        "id: 1-a\n\n" +
+        "event: heartbeat\ndata: \n\n",
+    });
+    const ids: string[] = [];
+    for await (const change of client.streamChanges("mydb", {
+      feed: "eventsource",
+    })) {
+      ids.push(change.id);
+    }
+    expect(ids).toEqual(["doc1"]);
+    expect(new URL(lastReq().url).searchParams.get("feed")).toBe("eventsource");
+  });
+
+  // ── attachments ──────────────────────────────────────────────────────────
+
+  it("putAttachment sends PUT with the given content type and rev", async () => {
+    clearCaptures();
+    enqueueMock({ ok: true, body: { ok: true, id: "doc1", rev: "2-abc" } });
+    await client.putAttachment(
+      "mydb",
+      "doc1",
+      "photos/cat.png",
+      new Uint8Array([1, 2, 3]),
+      "image/png",
+      "1-abc",
+    );
+    const req = lastReq();
+    expect(req.url).toBe(`${BASE}/mydb/doc1/photos/cat.png?rev=1-abc`);
+    expect(req.options.method).toBe("PUT");
+    const headers = new Headers(req.options.headers);
+    expect(headers.get("Content-Type")).toBe("image/png");
+  });
+
+  it("getAttachment returns the raw response", async () => {
+    clearCaptures();
+    enqueueMock({ ok: true, text: "hello" });
+    const response = await client.getAttachment("mydb", "doc 1", "a.txt");
+    expect(lastReq().url).toBe(`${BASE}/mydb/doc%201/a.txt`);
+    expect(await response.text()).toBe("hello");
+  });
+
+  it("deleteAttachment sends DELETE with rev param", async () => {
+    clearCaptures();
+    enqueueMock({ ok: true, body: { ok: true, id: "doc1", rev: "3-abc" } });
+    await client.deleteAttachment("mydb", "doc1", "a.txt", "2-abc");
+    const req = lastReq();
+    expect(req.url).toBe(`${BASE}/mydb/doc1/a.txt?rev=2-abc`);
+    expect(req.options.method).toBe("DELETE");
+  });
+
+  it("listAttachments maps _attachments stubs", async () => {
+    clearCaptures();
+    enqueueMock({
+      ok: true,
+      body: {
+        _id: "doc1",
+        _rev: "2-abc",
+        _attachments: {
+          "a.txt": {
+            content_type: "text/plain",
+            length: 5,
+            digest: "md5-x",
+            revpos: 2,
+            stub: true,
+          },
+        },
+      },
+    });
+    const list = await client.listAttachments("mydb", "doc1");
+    expect(list).toHaveLength(1);
+    expect(list[0]?.name).toBe("a.txt");
+    expect(list[0]?.content_type).toBe("text/plain");
+  });
+
   // ── Error handling ────────────────────────────────────────────────────────
 
   it("throws with CouchDB reason message on error response", async () => {
@@ -540,4 +841,316 @@ describe("CouchClient (unit)", () => {
       "not_found",
     );
   });
+
+  it("throws a CouchError carrying status, error code and request context", async () => {
+    clearCaptures();
+    enqueueMock({
+      ok: false,
+      status: 409,
+      body: { error: "conflict", reason: "Document update conflict." },
+    });
+    const error = await client
+      .putDocument("mydb", { _id: "x" })
+      .catch((e: unknown) => e);
+    expect(error).toBeInstanceOf(CouchError);
+    const couchError = error as CouchError;
+    expect(couchError.status).toBe(409);
+    expect(couchError.error).toBe("conflict");
+    expect(couchError.reason).toBe("Document update conflict.");
+    expect(couchError.method).toBe("PUT");
+    expect(couchError.path).toBe("/mydb/x");
+  });
+
+  // ── Retries & timeouts ────────────────────────────────────────────────────
+
+  describe("retries", () => {
+    let retrying: CouchClient;
+
+    beforeAll(() => {
+      retrying = new CouchClient(BASE, { maxRetries: 2, retryDelay: 1 });
+    });
+
+    it("retries a GET on 503 and returns the eventual response", async () => {
+      clearCaptures();
+      enqueueMock({ ok: false, status: 503, body: { error: "unavailable" } });
+      enqueueMock({ ok: true, body: ["a", "b"] });
+      expect(await retrying.listDatabases()).toEqual(["a", "b"]);
+      expect(capturedRequests).toHaveLength(2);
+    });
+
+    it("gives up after maxRetries and throws the last error", async () => {
+      clearCaptures();
+      for (let i = 0; i < 3; i++) {
+        enqueueMock({ ok: false, status: 502, body: { error: "bad_gateway" } });
+      }
+      await expect(retrying.listDatabases()).rejects.toThrow("bad_gateway");
+      expect(capturedRequests).toHaveLength(3);
+    });
+
+    it("does not retry statuses outside retryStatuses", async () => {
+      clearCaptures();
+      enqueueMock({ ok: false, status: 500, body: { error: "boom" } });
+      await expect(retrying.listDatabases()).rejects.toThrow("boom");
+      expect(capturedRequests).toHaveLength(1);
+    });
+
+    it("retries a connection reset on idempotent requests", async () => {
+      clearCaptures();
+      enqueueMock({ ok: false, throws: networkError("ECONNRESET") });
+      enqueueMock({ ok: true, body: { db_name: "mydb" } });
+      const info = await retrying.getDatabaseInfo("mydb");
+      expect(info.db_name).toBe("mydb");
+      expect(capturedRequests).toHaveLength(2);
+    });
+
+    it("fails fast when the connection is refused", async () => {
+      clearCaptures();
+      enqueueMock({ ok: false, throws: networkError("ECONNREFUSED") });
+      await expect(retrying.listDatabases()).rejects.toThrow("ECONNREFUSED");
+      expect(capturedRequests).toHaveLength(1);
+    });
+
+    it("does not resend _bulk_docs after a 503", async () => {
+      clearCaptures();
+      enqueueMock({ ok: false, status: 503, body: { error: "unavailable" } });
+      await expect(retrying.bulkDocs("mydb", [{ _id: "a" }])).rejects.toThrow(
+        "unavailable",
+      );
+      expect(capturedRequests).toHaveLength(1);
+    });
+
+    it("resends _bulk_docs with new_edits=false", async () => {
+      clearCaptures();
+      enqueueMock({ ok: false, throws: networkError("ECONNRESET") });
+      enqueueMock({ ok: true, body: [] });
+      await retrying.bulkDocs("mydb", [{ _id: "a", _rev: "1-x" }], {
+        new_edits: false,
+      });
+      expect(capturedRequests).toHaveLength(2);
+    });
+
+    it("resends any request on 429, honouring Retry-After", async () => {
+      clearCaptures();
+      enqueueMock({
+        ok: false,
+        status: 429,
+        body: { error: "too_many_requests" },
+        headers: { "Retry-After": "0" },
+      });
+      enqueueMock({ ok: true, body: { ok: true, id: "new", rev: "1-a" } });
+      const result = await retrying.createDocument("mydb", { name: "x" });
+      expect(result.id).toBe("new");
+      expect(capturedRequests).toHaveLength(2);
+    });
+
+    it("gives up after maxRetries even when Retry-After keeps coming", async () => {
+      clearCaptures();
+      const throttled = {
+        ok: false,
+        status: 429,
+        body: { error: "too_many_requests" },
+        headers: { "Retry-After": "0" },
+      };
+      for (let i = 0; i < 5; i++) enqueueMock(throttled);
+      await expect(retrying.listDatabases()).rejects.toThrow(
+        "too_many_requests",
+      );
+      expect(capturedRequests).toHaveLength(3);
+      mockQueue.length = 0;
+    });
+
+    it("retries read-only POSTs such as _find", async () => {
+      clearCaptures();
+      enqueueMock({ ok: false, status: 504, body: { error: "timeout" } });
+      enqueueMock({ ok: true, body: { docs: [] } });
+      await retrying.mangoQuery("mydb", { selector: {} });
+      expect(capturedRequests).toHaveLength(2);
+    });
+
+    it("never retries when maxRetries is 0", async () => {
+      clearCaptures();
+      const once = new CouchClient(BASE, { maxRetries: 0 });
+      enqueueMock({ ok: false, status: 503, body: { error: "unavailable" } });
+      await expect(once.listDatabases()).rejects.toThrow("unavailable");
+      expect(capturedRequests).toHaveLength(1);
+    });
+  });
+
+  describe("timeouts", () => {
+    it("aborts a request that exceeds the timeout", async () => {
+      clearCaptures();
+      const impatient = new CouchClient(BASE, { timeout: 10, maxRetries: 0 });
+      enqueueMock({ ok: true, body: [], delayMs: 1000 });
+      const error = await impatient.listDatabases().catch((e: unknown) => e);
+      expect(error).toBeInstanceOf(Error);
+      expect((error as Error).name).toBe("TimeoutError");
+      expect((error as Error).message).toContain("GET /_all_dbs");
+    });
+
+    it("retries a timed-out GET", async () => {
+      clearCaptures();
+      const impatient = new CouchClient(BASE, {
+        timeout: 10,
+        maxRetries: 1,
+        retryDelay: 1,
+      });
+      enqueueMock({ ok: true, body: [], delayMs: 1000 });
+      enqueueMock({ ok: true, body: ["late"] });
+      expect(await impatient.listDatabases()).toEqual(["late"]);
+      expect(capturedRequests).toHaveLength(2);
+    });
+
+    it("does not retry a timed-out view query unless asked to", async () => {
+      clearCaptures();
+      const impatient = new CouchClient(BASE, {
+        timeout: 10,
+        maxRetries: 1,
+        retryDelay: 1,
+      });
+      enqueueMock({ ok: true, body: { rows: [] }, delayMs: 1000 });
+      const error = await impatient
+        .queryView("mydb", "app", "by_name")
+        .catch((e: unknown) => e);
+      expect((error as Error).name).toBe("TimeoutError");
+      expect(capturedRequests).toHaveLength(1);
+
+      clearCaptures();
+      const patient = new CouchClient(BASE, {
+        timeout: 10,
+        maxRetries: 1,
+        retryDelay: 1,
+        retryQueryTimeouts: true,
+      });
+      enqueueMock({ ok: true, body: { rows: [] }, delayMs: 1000 });
+      enqueueMock({ ok: true, body: { total_rows: 0, rows: [] } });
+      expect(await patient.queryView("mydb", "app", "by_name")).toEqual({
+        total_rows: 0,
+        rows: [],
+      });
+      expect(capturedRequests).toHaveLength(2);
+    });
+
+    it("does not time out long-lived changes feeds", async () => {
+      clearCaptures();
+      const impatient = new CouchClient(BASE, { timeout: 10, maxRetries: 0 });
+      enqueueMock({
+        ok: true,
+        body: { results: [], last_seq: "1-a" },
+        delayMs: 30,
+      });
+      const result = await impatient.changes("mydb", { feed: "longpoll" });
+      expect(result.last_seq).toBe("1-a");
+    });
+  });
+
+  // ── Authentication ────────────────────────────────────────────────────────
+
+  describe("auth", () => {
+    const header = (i: number, name: string) =>
+      new Headers(capturedRequests[i]?.options.headers).get(name);
+
+    it("sends a bearer token for jwt auth", async () => {
+      clearCaptures();
+      const jwt = new CouchClient(BASE, {
+        auth: { type: "jwt", token: "abc" },
+      });
+      enqueueMock({ ok: true, body: [] });
+      await jwt.listDatabases();
+      expect(header(0, "Authorization")).toBe("Bearer abc");
+    });
+
+    it("prefers explicit basic auth over URL credentials", async () => {
+      clearCaptures();
+      const basic = new CouchClient(BASE_WITH_CREDS, {
+        auth: { type: "basic", username: "bob", password: "pw" },
+      });
+      enqueueMock({ ok: true, body: [] });
+      await basic.listDatabases();
+      expect(header(0, "Authorization")).toBe(`Basic ${btoa("bob:pw")}`);
+    });
+
+    describe("session", () => {
+      const loginOk = (cookie: string) => ({
+        ok: true,
+        body: { ok: true, name: "bob", roles: [] },
+        headers: {
+          "Set-Cookie": `AuthSession=${cookie}; Version=1; Path=/; Max-Age=600; HttpOnly`,
+        },
+      });
+      let session: CouchClient;
+
+      beforeAll(() => {
+        session = new CouchClient(BASE, {
+          auth: { type: "session", username: "bob", password: "pw" },
+          maxRetries: 0,
+        });
+      });
+
+      it("logs in once and sends the AuthSession cookie", async () => {
+        clearCaptures();
+        enqueueMock(loginOk("c1"));
+        enqueueMock({ ok: true, body: [] });
+        enqueueMock({ ok: true, body: [] });
+        await session.listDatabases();
+        await session.listDatabases();
+
+        expect(capturedRequests).toHaveLength(3);
+        expect(capturedRequests[0]?.url).toBe(`${BASE}/_session`);
+        expect(JSON.parse(capturedRequests[0]?.options.body as string)).toEqual(
+          { name: "bob", password: "pw" },
+        );
+        expect(header(0, "Cookie")).toBeNull();
+        expect(header(0, "Authorization")).toBeNull();
+        expect(header(1, "Cookie")).toBe("AuthSession=c1");
+        expect(header(2, "Cookie")).toBe("AuthSession=c1");
+      });
+
+      it("picks up a cookie the server refreshes mid-session", async () => {
+        clearCaptures();
+        enqueueMock({
+          ok: true,
+          body: [],
+          headers: { "Set-Cookie": "AuthSession=c2; Max-Age=600" },
+        });
+        enqueueMock({ ok: true, body: [] });
+        await session.listDatabases();
+        await session.listDatabases();
+        expect(header(1, "Cookie")).toBe("AuthSession=c2");
+      });
+
+      it("logs in again when the cookie is rejected", async () => {
+        clearCaptures();
+        enqueueMock({
+          ok: false,
+          status: 401,
+          body: { error: "unauthorized" },
+        });
+        enqueueMock(loginOk("c3"));
+        enqueueMock({ ok: true, body: ["db"] });
+        expect(await session.listDatabases()).toEqual(["db"]);
+        expect(capturedRequests[1]?.url).toBe(`${BASE}/_session`);
+        expect(header(2, "Cookie")).toBe("AuthSession=c3");
+      });
+
+      it("surfaces a failed login as a CouchError", async () => {
+        clearCaptures();
+        const bad = new CouchClient(BASE, {
+          auth: { type: "session", username: "bob", password: "nope" },
+          maxRetries: 0,
+        });
+        enqueueMock({
+          ok: false,
+          status: 401,
+          body: {
+            error: "unauthorized",
+            reason: "Name or password is incorrect.",
+          },
+        });
+        const error = await bad.listDatabases().catch((e: unknown) => e);
+        expect(error).toBeInstanceOf(CouchError);
+        expect((error as CouchError).path).toBe("/_session");
+        expect(capturedRequests).toHaveLength(1);
+      });
+    });
+  });
 });
@@ -0,0 +1,80 @@
+import { describe, expect, it } from "bun:test";
+import { flatten, parseCsv, writeTable } from "../src/lib/csv";
+
+async function* pagesOf(...pages: object[][]): AsyncGenerator<object[]> {
+  for (const page of pages) yield page;
+}
+
+async function render(
+  pages: AsyncIterable<object[]>,
+  options: { columns?: string[]; delimiter?: string } = {},
+): Promise<string> {
+  let out = "";
+  await writeTable(pages, {
+    ...options,
+    write: (chunk) => {
+      out += chunk;
+    },
+  });
+  return out;
+}
+
+describe("parseCsv", () => {
+  it("should handle quotes, escaped quotes and embedded newlines", () => {
+    const text = 'name,note\r\n"Doe, Jane","said ""hi""\nthen left"\r\nBob,\n';
+    expect(parseCsv(text)).toEqual([
+      ["name", "note"],
+      ["Doe, Jane", 'said "hi"\nthen left'],
+      ["Bob", ""],
+    ]);
+  });
+
+  it("should skip blank lines and a leading BOM", () => {
+    expect(parseCsv("﻿a;b\n\n1;2", ";")).toEqual([
+      ["a", "b"],
+      ["1", "2"],
+    ]);
+  });
+
+  it("should reject an unterminated quoted field", () => {
+    expect(() => parseCsv('a\n"open')).toThrow("Unterminated");
+  });
+});
+
+describe("flatten", () => {
+  it("should use dotted keys for nested objects and keep arrays whole", () => {
+    expect(flatten({ a: { b: { c: 1 }, d: [1, 2] }, e: {}, f: null })).toEqual({
+      "a.b.c": 1,
+      "a.d": [1, 2],
+      e: {},
+      f: null,
+    });
+  });
+});
+
+describe("writeTable", () => {
+  it("should collect columns across pages in first-seen order", async () => {
+    const out = await render(
+      pagesOf([{ _id: "a", address: { city: "Paris" } }], [{ _id: "b", n: 2 }]),
+    );
+    expect(out).toBe("_id,address.city,n\r\na,Paris,\r\nb,,2\r\n");
+  });
+
+  it("should write only the chosen columns, in order", async () => {
+    const out = await render(
+      pagesOf([{ _id: "a", tags: ["x"], address: { city: "Paris" } }]),
+      { columns: ["address.city", "tags", "_id", "missing"] },
+    );
+    expect(out).toBe('address.city,tags,_id,missing\r\nParis,"[""x""]",a,\r\n');
+  });
+
+  it("should quote delimiters, quotes and newlines", async () => {
+    const out = await render(
+      pagesOf([{ a: "x\ty", b: 'say "hi"', c: "1,2" }]),
+      {
+        delimiter: "\t",
+      },
+    );
+    expect(out).toBe('a\tb\tc\r\n"x\ty"\t"say ""hi"""\t1,2\r\n');
+  });
+});
@@ -0,0 +1,87 @@
+import { describe, expect, it } from "bun:test";
+import {
+  deepEqual,
+  diffJson,
+  diffLines,
+  divergentFields,
+} from "../src/lib/diff";
+
+const before = {
+  name: "Ada",
+  tags: ["x"],
+  address: { city: "Lyon", zip: "69001" },
+  meta: { a: 1 },
+};
+const after = {
+  name: "Ada Lovelace",
+  tags: ["x", "y"],
+  address: { city: "Paris", zip: "69001" },
+  meta: { a: 1 },
+  email: "ada@example.com",
+};
+
+describe("deepEqual", () => {
+  it("should compare structure, not identity or key order", () => {
+    expect(deepEqual({ a: [1, { b: 2 }] }, { a: [1, { b: 2 }] })).toBe(true);
+    expect(deepEqual({ a: 1, b: 2 }, { b: 2, a: 1 })).toBe(true);
+    expect(deepEqual([1], { 0: 1 })).toBe(false);
+    expect(deepEqual({ a: undefined }, { b: undefined })).toBe(false);
+  });
+});
+
+describe("diffJson", () => {
+  it("should list changes by JSON Pointer", () => {
+    expect(diffJson(before, after)).toEqual([
+      { path: "/name", op: "replace", from: "Ada", to: "Ada Lovelace" },
+      { path: "/tags/1", op: "add", to: "y" },
+      { path: "/address/city", op: "replace", from: "Lyon", to: "Paris" },
+      { path: "/email", op: "add", to: "ada@example.com" },
+    ]);
+    expect(diffJson({ a: { b: 1 } }, { a: [1] })).toEqual([
+      { path: "/a", op: "replace", from: { b: 1 }, to: [1] },
+    ]);
+    expect(diffJson(before, structuredClone(before))).toEqual([]);
+  });
+});
+
+describe("diffLines", () => {
+  it("should render a structural diff with unchanged values folded", () => {
+    const text = diffLines(before, after).map(
+      (line) =>
+        `${line.sign} ${"  ".repeat(line.depth)}${line.key === undefined ? "" : `${line.key}: `}${line.text}${line.comma ? "," : ""}`,
+    );
+    expect(text).toEqual([
+      "  {",
+      '-   name: "Ada",',
+      '+   name: "Ada Lovelace",',
+      "    tags: [",
+      '      "x",',
+      '+     "y"',
+      "    ],",
+      "    address: {",
+      '-     city: "Lyon",',
+      '+     city: "Paris",',
+      '      zip: "69001"',
+      "    },",
+      "    meta: {…},",
+      '+   email: "ada@example.com"',
+      "  }",
+    ]);
+  });
+});
+
+describe("divergentFields", () => {
+  it("should list differing fields across revisions, nested objects by field", () => {
+    const third = { ...before, name: "Ada L.", email: "ada@example.com" };
+    expect(divergentFields([before, after, third])).toEqual([
+      { path: "/name", values: ["Ada", "Ada Lovelace", "Ada L."] },
+      { path: "/tags", values: [["x"], ["x", "y"], ["x"]] },
+      { path: "/address/city", values: ["Lyon", "Paris", "Lyon"] },
+      {
+        path: "/email",
+        values: [undefined, "ada@example.com", "ada@example.com"],
+      },
+    ]);
+    expect(divergentFields([before, structuredClone(before)])).toEqual([]);
+  });
+});
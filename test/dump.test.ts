@@ -0,0 +1,334 @@
+import { describe, expect, it } from "bun:test";
+import {
+  type AllDocsRow,
+  type BulkDocsResult,
+  CouchError,
+  type Document,
+} from "../src/lib/couch-client";
+import {
+  type DumpEntry,
+  type DumpHeader,
+  type LoadFailure,
+  createDump,
+  loadDump,
+  readDump,
+} from "../src/lib/dump";
+
+function fakeClient(docs: Document[], pageSize = 2) {
+  const requests: Array<{ attachments?: boolean }> = [];
+  return {
+    requests,
+    client: {
+      getDatabaseInfo: async (db: string) => ({
+        db_name: db,
+        doc_count: docs.length,
+        doc_del_count: 0,
+        update_seq: "9-abc",
+      }),
+      getSecurity: async () => ({ members: { roles: ["staff"] } }),
+      async *paginateAllDocs(
+        _db: string,
+        options: { attachments?: boolean } = {},
+      ): AsyncGenerator<AllDocsRow[]> {
+        requests.push(options);
+        for (let i = 0; i < docs.length; i += pageSize) {
+          yield docs.slice(i, i + pageSize).map((doc) => ({
+            id: doc._id,
+            key: doc._id,
+            value: { rev: doc._rev ?? "" },
+            doc,
+          }));
+        }
+      },
+    },
+  };
+}
+
+async function readLines(stream: ReadableStream<Uint8Array>, gzip = true) {
+  const bytes = new Uint8Array(await new Response(stream).arrayBuffer());
+  const text = new TextDecoder().decode(gzip ? Bun.gunzipSync(bytes) : bytes);
+  return text
+    .trim()
+    .split("\n")
+    .map((line) => JSON.parse(line));
+}
+
+describe("createDump", () => {
+  const docs: Document[] = [
+    { _id: "_design/app", _rev: "1-d", views: {} },
+    { _id: "a", _rev: "2-a", n: 1 },
+    {
+      _id: "b",
+      _rev: "1-b",
+      _attachments: { "x.txt": { stub: true, length: 3 } },
+    },
+  ];
+
+  it("writes a header with _security, then every doc with its _rev", async () => {
+    const { client } = fakeClient(docs);
+    const lines = await readLines(await createDump(client, "mydb"));
+
+    const header = lines[0] as DumpHeader;
+    expect(header.sillon_dump).toBe(1);
+    expect(header.db).toBe("mydb");
+    expect(header.doc_count).toBe(3);
+    expect(header.update_seq).toBe("9-abc");
+    expect(header.security).toEqual({ members: { roles: ["staff"] } });
+
+    expect(lines.slice(1).map((d) => `${d._id}@${d._rev}`)).toEqual([
+      "_design/app@1-d",
+      "a@2-a",
+      "b@1-b",
+    ]);
+  });
+
+  it("drops attachment stubs unless attachments are requested", async () => {
+    const { client } = fakeClient(docs);
+    const lines = await readLines(await createDump(client, "mydb"));
+    expect(lines[3]._attachments).toBeUndefined();
+
+    const withAtt = fakeClient(docs);
+    const full = await readLines(
+      await createDump(withAtt.client, "mydb", { attachments: true }),
+    );
+    expect(full[3]._attachments).toBeDefined();
+    expect(withAtt.requests[0]?.attachments).toBe(true);
+  });
+
+  it("can write plain NDJSON and reports progress per page", async () => {
+    const { client } = fakeClient(docs);
+    const progress: number[] = [];
+    const stream = await createDump(client, "mydb", {
+      gzip: false,
+      onProgress: ({ docs }) => progress.push(docs),
+    });
+    const lines = await readLines(stream, false);
+    expect(lines).toHaveLength(4);
+    expect(progress).toEqual([2, 3]);
+  });
+});
+
+function streamOf(data: string | Uint8Array): ReadableStream<Uint8Array> {
+  return new Response(data).body as ReadableStream<Uint8Array>;
+}
+
+async function collect(entries: AsyncIterable<DumpEntry>) {
+  const out: DumpEntry[] = [];
+  for await (const entry of entries) out.push(entry);
+  return out;
+}
+
+async function* docEntries(n: number): AsyncGenerator<DumpEntry> {
+  for (let i = 0; i < n; i++) yield { type: "doc", doc: { _id: `d${i}` } };
+}
+
+describe("readDump", () => {
+  it("reads back a gzipped dump, header first", async () => {
+    const { client } = fakeClient([{ _id: "a", _rev: "1-a" }]);
+    const entries = await collect(readDump(await createDump(client, "mydb")));
+    expect(entries.map((e) => e.type)).toEqual(["header", "doc"]);
+  });
+
+  it("reads plain NDJSON without a header, skipping blank lines", async () => {
+    const entries = await collect(
+      readDump(streamOf('{"_id":"a"}\n\n{"_id":"b"}')),
+    );
+    expect(entries).toEqual([
+      { type: "doc", doc: { _id: "a" } },
+      { type: "doc", doc: { _id: "b" } },
+    ]);
+  });
+
+  it("reads a JSON array of docs", async () => {
+    const entries = await collect(
+      readDump(streamOf('  [{"_id":"a"},\n{"_id":"b"}]')),
+    );
+    expect(entries.map((e) => e.type === "doc" && e.doc._id)).toEqual([
+      "a",
+      "b",
+    ]);
+  });
+
+  it("points at the line with invalid JSON", async () => {
+    await expect(
+      collect(readDump(streamOf('{"_id":"a"}\n{oops}\n'))),
+    ).rejects.toThrow("line 2");
+  });
+});
+
+describe("loadDump", () => {
+  it("sends docs in batches and honours the concurrency limit", async () => {
+    const batches: number[] = [];
+    let active = 0;
+    let peak = 0;
+    const client = {
+      bulkDocs: async (_db: string, docs: Document[]) => {
+        active++;
+        peak = Math.max(peak, active);
+        batches.push(docs.length);
+        await Bun.sleep(5);
+        active--;
+        return [] as BulkDocsResult[];
+      },
+    };
+
+    const result = await loadDump(client, "mydb", docEntries(25), {
+      batchSize: 10,
+      concurrency: 2,
+    });
+    expect(batches).toEqual([10, 10, 5]);
+    expect(peak).toBe(2);
+    expect(result).toEqual({ read: 25, written: 25, failed: 0 });
+  });
+
+  it("passes new_edits=false through to bulkDocs", async () => {
+    let seen: { new_edits?: boolean } | undefined;
+    const client = {
+      bulkDocs: async (
+        _db: string,
+        _docs: Document[],
+        options?: { new_edits?: boolean },
+      ) => {
+        seen = options;
+        return [] as BulkDocsResult[];
+      },
+    };
+    await loadDump(client, "mydb", docEntries(1), { newEdits: false });
+    expect(seen?.new_edits).toBe(false);
+  });
+
+  describe("into an empty database", () => {
+    const docs = [
+      { _id: "a", _rev: "2-a", n: 1 },
+      { _id: "b", _rev: "1-b", n: 2 },
+    ];
+
+    function emptyDb() {
+      const written: Array<{ doc: Document; newEdits: boolean }> = [];
+      const client = {
+        // A _rev is a conflict here unless it is replayed as given
+        bulkDocs: async (
+          _db: string,
+          batch: Document[],
+          options?: { new_edits?: boolean },
+        ): Promise<BulkDocsResult[]> => {
+          const newEdits = options?.new_edits !== false;
+          return batch.flatMap<BulkDocsResult>((doc) => {
+            if (newEdits && doc._rev) {
+              return [{ id: doc._id, error: "conflict" }];
+            }
+            written.push({ doc, newEdits });
+            return newEdits ? [{ id: doc._id, ok: true, rev: "1-new" }] : [];
+          });
+        },
+      };
+      return { client, written };
+    }
+
+    it("replays the revs of a dump made with attachments", async () => {
+      const { client: source } = fakeClient(docs);
+      const { client, written } = emptyDb();
+      const dump = readDump(
+        await createDump(source, "mydb", { attachments: true }),
+      );
+      const result = await loadDump(client, "copy", dump);
+      expect(result).toMatchObject({ read: 2, written: 2, failed: 0 });
+      expect(written).toEqual(docs.map((doc) => ({ doc, newEdits: false })));
+    });
+
+    it("writes new revisions for a dump without attachments", async () => {
+      const { client: source } = fakeClient(docs);
+      const { client, written } = emptyDb();
+      const dump = readDump(await createDump(source, "mydb"));
+      const result = await loadDump(client, "copy", dump);
+      expect(result).toMatchObject({ read: 2, written: 2, failed: 0 });
+      expect(written).toEqual(
+        docs.map(({ _rev, ...doc }) => ({ doc, newEdits: true })),
+      );
+    });
+
+    it("leaves headerless NDJSON and explicit --new-edits alone", async () => {
+      const { client } = emptyDb();
+      async function* plainEntries(): AsyncGenerator<DumpEntry> {
+        for (const doc of docs) yield { type: "doc", doc };
+      }
+      const plain = await loadDump(client, "copy", plainEntries());
+      expect(plain).toMatchObject({ written: 0, failed: 2 });
+
+      const { client: source } = fakeClient(docs);
+      const dump = readDump(await createDump(source, "mydb"));
+      const forced = await loadDump(client, "copy", dump, { newEdits: true });
+      expect(forced).toMatchObject({ written: 0, failed: 2 });
+    });
+  });
+
+  it("reports per-document rejections", async () => {
+    const failures: LoadFailure[] = [];
+    const client = {
+      bulkDocs: async (_db: string, docs: Document[]) =>
+        docs.map((d) =>
+          d._id === "d1"
+            ? {
+                id: d._id,
+                error: "conflict",
+                reason: "Document update conflict.",
+              }
+            : { id: d._id, ok: true, rev: "1-x" },
+        ),
+    };
+    const result = await loadDump(client, "mydb", docEntries(3), {
+      onFailure: (f) => void failures.push(f),
+    });
+    expect(result).toEqual({ read: 3, written: 2, failed: 1 });
+    expect(failures).toEqual([
+      {
+        id: "d1",
+        rev: undefined,
+        error: "conflict",
+        reason: "Document update conflict.",
+      },
+    ]);
+  });
+
+  it("reports every doc of a batch whose request failed, then carries on", async () => {
+    const failures: LoadFailure[] = [];
+    let calls = 0;
+    const client = {
+      bulkDocs: async () => {
+        calls++;
+        if (calls === 1) {
+          throw new CouchError({
+            status: 413,
+            error: "too_large",
+            reason: "Request entity too large",
+            method: "POST",
+            path: "/mydb/_bulk_docs",
+          });
+        }
+        return [] as BulkDocsResult[];
+      },
+    };
+    const result = await loadDump(client, "mydb", docEntries(4), {
+      batchSize: 2,
+      concurrency: 1,
+      onFailure: (f) => void failures.push(f),
+    });
+    expect(result).toEqual({ read: 4, written: 2, failed: 2 });
+    expect(failures.map((f) => `${f.id}:${f.error}`)).toEqual([
+      "d0:too_large",
+      "d1:too_large",
+    ]);
+  });
+
+  it("returns the dump header", async () => {
+    const { client: source } = fakeClient([{ _id: "a", _rev: "1-a" }]);
+    const client = { bulkDocs: async () => [] as BulkDocsResult[] };
+    const result = await loadDump(
+      client,
+      "copy",
+      readDump(await createDump(source, "mydb")),
+    );
+    expect(result.header?.db).toBe("mydb");
+    expect(result.header?.security).toEqual({ members: { roles: ["staff"] } });
+  });
+});
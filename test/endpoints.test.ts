@@ -0,0 +1,100 @@
+import { describe, expect, it } from "bun:test";
+import type { ConfigManager, ConnectionConfig } from "../src/lib/config";
+import {
+  parseConnectionRef,
+  redactEndpoint,
+  replicationEndpoint,
+  resolveEndpoint,
+} from "../src/lib/endpoints";
+
+const connections: Record<string, ConnectionConfig> = {
+  prod: {
+    name: "prod",
+    url: "https://couch.example.com/",
+    options: { auth: { type: "basic", username: "admin", password: "s3cret" } },
+  },
+  cloud: {
+    name: "cloud",
+    url: "https://cloud.example.com",
+    options: { auth: { type: "jwt", token: "tok" } },
+  },
+  local: { name: "local", url: "http://localhost:5984" },
+};
+
+const config = {
+  getConnection: async (name: string) => connections[name] ?? null,
+} as unknown as ConfigManager;
+
+describe("parseConnectionRef", () => {
+  it("should split conn:db and leave URLs and plain names alone", () => {
+    expect(parseConnectionRef("prod:orders")).toEqual({
+      connection: "prod",
+      db: "orders",
+    });
+    expect(parseConnectionRef("local:team/orders")).toEqual({
+      connection: "local",
+      db: "team/orders",
+    });
+    expect(parseConnectionRef("http://h:5984/orders")).toBeUndefined();
+    expect(parseConnectionRef("orders")).toBeUndefined();
+  });
+});
+
+describe("replicationEndpoint", () => {
+  it("should move credentials out of the URL", () => {
+    expect(replicationEndpoint("http://ada:pw@h:5984/db")).toEqual({
+      url: "http://h:5984/db",
+      auth: { basic: { username: "ada", password: "pw" } },
+    });
+    expect(
+      replicationEndpoint("http://h:5984/db", { type: "jwt", token: "t" }),
+    ).toEqual({
+      url: "http://h:5984/db",
+      headers: { Authorization: "Bearer t" },
+    });
+    expect(replicationEndpoint("http://h:5984/db")).toEqual({
+      url: "http://h:5984/db",
+    });
+  });
+});
+
+describe("resolveEndpoint", () => {
+  it("should expand references through the saved connection", async () => {
+    expect(await resolveEndpoint(config, "prod:orders")).toEqual({
+      url: "https://couch.example.com/orders",
+      auth: { basic: { username: "admin", password: "s3cret" } },
+    });
+    expect(await resolveEndpoint(config, "cloud:a/b")).toEqual({
+      url: "https://cloud.example.com/a%2Fb",
+      headers: { Authorization: "Bearer tok" },
+    });
+    expect(await resolveEndpoint(config, "local:orders")).toEqual({
+      url: "http://localhost:5984/orders",
+    });
+    expect(await resolveEndpoint(config, "http://h/orders")).toBe(
+      "http://h/orders",
+    );
+    await expect(resolveEndpoint(config, "nope:orders")).rejects.toThrow(
+      'Unknown connection "nope"',
+    );
+  });
+});
+
+describe("redactEndpoint", () => {
+  it("should mask passwords and header values", () => {
+    expect(
+      redactEndpoint({
+        url: "http://h/db",
+        auth: { basic: { username: "admin", password: "s3cret" } },
+        headers: { Authorization: "Bearer tok" },
+      }),
+    ).toEqual({
+      url: "http://h/db",
+      auth: { basic: { username: "admin", password: "***" } },
+      headers: { Authorization: "***" },
+    });
+    expect(redactEndpoint("http://admin:s3cret@h/db")).toBe(
+      "http://admin:***@h/db",
+    );
+  });
+});
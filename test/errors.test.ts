@@ -0,0 +1,54 @@
+import { describe, expect, it } from "bun:test";
+import { CouchError } from "../src/lib/couch-client";
+import {
+  ExitCode,
+  ExitSignal,
+  exitCodeFor,
+  hintFor,
+  reportError,
+} from "../src/lib/errors";
+
+function couchError(status: number, error?: string, reason?: string) {
+  return new CouchError({ status, error, reason, method: "GET", path: "/db" });
+}
+
+describe("error reporting", () => {
+  it("maps HTTP status classes to distinct exit codes", () => {
+    expect(exitCodeFor(couchError(401))).toBe(ExitCode.Unauthorized);
+    expect(exitCodeFor(couchError(403))).toBe(ExitCode.Unauthorized);
+    expect(exitCodeFor(couchError(404))).toBe(ExitCode.NotFound);
+    expect(exitCodeFor(couchError(409))).toBe(ExitCode.Conflict);
+    expect(exitCodeFor(couchError(412))).toBe(ExitCode.Conflict);
+    expect(exitCodeFor(couchError(400))).toBe(ExitCode.BadRequest);
+    expect(exitCodeFor(couchError(503))).toBe(ExitCode.Server);
+  });
+
+  it("treats connection failures as network errors", () => {
+    const refused = Object.assign(new Error("Unable to connect"), {
+      code: "ConnectionRefused",
+    });
+    expect(exitCodeFor(refused)).toBe(ExitCode.Network);
+    expect(hintFor(refused)).toContain("could not reach CouchDB");
+  });
+
+  it("falls back to the general exit code for other errors", () => {
+    expect(exitCodeFor(new Error("boom"))).toBe(ExitCode.General);
+    expect(hintFor(new Error("boom"))).toBeUndefined();
+  });
+
+  it("gives actionable hints per failure class", () => {
+    expect(hintFor(couchError(409, "conflict"))).toContain("refetch");
+    expect(
+      hintFor(couchError(404, "not_found", "Database does not exist.")),
+    ).toContain("sillon db create");
+    expect(hintFor(couchError(404, "not_found", "missing"))).toContain(
+      "document not found",
+    );
+    expect(hintFor(couchError(401, "unauthorized"))).toContain("credentials");
+  });
+
+  it("passes an ExitSignal through without reporting it", () => {
+    const signal = new ExitSignal(ExitCode.Interrupted);
+    expect(() => reportError(signal)).toThrow(signal);
+  });
+});
@@ -0,0 +1,142 @@
+import { describe, expect, it } from "bun:test";
+import type { AllDocsResult, Document } from "../src/lib/couch-client";
+import {
+  coerce,
+  detectFormat,
+  readRecords,
+  toDocument,
+  withExistingRevs,
+} from "../src/lib/import";
+
+function streamOf(text: string | Uint8Array): ReadableStream<Uint8Array> {
+  return new Response(text).body as ReadableStream<Uint8Array>;
+}
+
+async function collect<T>(items: AsyncIterable<T>): Promise<T[]> {
+  const out: T[] = [];
+  for await (const item of items) out.push(item);
+  return out;
+}
+
+describe("readRecords", () => {
+  it("should key CSV rows by the header", async () => {
+    const records = await collect(
+      readRecords(streamOf("email,age\na@x.io,30\nb@x.io\n"), "csv"),
+    );
+    expect(records).toEqual([
+      { email: "a@x.io", age: "30" },
+      { email: "b@x.io" },
+    ]);
+  });
+
+  it("should read a .csv.gz file as gzipped CSV", async () => {
+    expect(detectFormat("data.csv.gz")).toBe("csv");
+    const gzipped = Bun.gzipSync(new TextEncoder().encode("id,n\na,1\n"));
+    const records = await collect(readRecords(streamOf(gzipped), "csv"));
+    expect(records).toEqual([{ id: "a", n: "1" }]);
+  });
+
+  it("should read JSONL objects", async () => {
+    const records = await collect(
+      readRecords(streamOf('{"a":1}\n{"a":2}\n'), "jsonl"),
+    );
+    expect(records).toEqual([{ a: 1 }, { a: 2 }]);
+  });
+
+  it("should reject rows with more fields than the header", async () => {
+    const records = readRecords(streamOf("a\n1,2\n"), "csv");
+    await expect(collect(records)).rejects.toThrow("Record 1 has 2 fields");
+  });
+});
+
+describe("toDocument", () => {
+  it("should map columns, coerce types, nest paths and render the _id", () => {
+    const doc = toDocument(
+      {
+        "E-mail": "ada@example.com",
+        City: "London",
+        Age: "36",
+        Active: "yes",
+        Joined: "1843-07-10",
+        Internal: "x",
+      },
+      {
+        idTemplate: "user:{email}",
+        mapping: { "E-mail": "email", City: "address.city", Internal: "" },
+        types: { Age: "number", Active: "boolean", Joined: "date" },
+      },
+      1,
+    );
+    expect(doc).toEqual({
+      _id: "user:ada@example.com",
+      email: "ada@example.com",
+      address: { city: "London" },
+      Age: 36,
+      Active: true,
+      Joined: "1843-07-10T00:00:00.000Z",
+    });
+  });
+
+  it("should infer numbers and booleans but keep leading zeros", () => {
+    const doc = toDocument(
+      { n: "4.5", flag: "false", zip: "02139", empty: "" },
+      { infer: true },
+      1,
+    );
+    expect(doc as Record<string, unknown>).toEqual({
+      n: 4.5,
+      flag: false,
+      zip: "02139",
+      empty: null,
+    });
+  });
+
+  it("should name the record when conversion fails", () => {
+    expect(() =>
+      toDocument({ age: "old" }, { types: { age: "number" } }, 7),
+    ).toThrow('Record 7: "old" is not a number');
+    expect(() => toDocument({}, { idTemplate: "user:{email}" }, 2)).toThrow(
+      "Record 2: No value for {email}",
+    );
+  });
+
+  it("should coerce JSON strings and pass empty values through as null", () => {
+    expect(coerce('{"a":[1]}', "json")).toEqual({ a: [1] });
+    expect(coerce("", "number")).toBeNull();
+    expect(coerce(12, "string")).toBe("12");
+  });
+});
+
+describe("withExistingRevs", () => {
+  it("should attach current revs in one lookup per batch", async () => {
+    const lookups: string[][] = [];
+    const client = {
+      getAllDocs: async (_db: string, options: { keys?: string[] } = {}) => {
+        lookups.push(options.keys ?? []);
+        return {
+          total_rows: 3,
+          offset: 0,
+          rows: [
+            { id: "a", key: "a", value: { rev: "1-a" } },
+            { id: "b", key: "b", value: { rev: "2-b", deleted: true } },
+            { key: "c", error: "not_found" },
+          ],
+        } as unknown as AllDocsResult;
+      },
+    };
+
+    async function* docs(): AsyncGenerator<Document> {
+      yield { _id: "a", n: 1 };
+      yield { _id: "b", n: 2 };
+      yield { _id: "c", n: 3 };
+    }
+
+    const out = await collect(withExistingRevs(client, "db", docs(), 3));
+    expect(lookups).toEqual([["a", "b", "c"]]);
+    expect(out).toEqual([
+      { _id: "a", _rev: "1-a", n: 1 },
+      { _id: "b", n: 2 },
+      { _id: "c", n: 3 },
+    ]);
+  });
+});
@@ -0,0 +1,50 @@
+import { describe, expect, it } from "bun:test";
+import { containerPaths, jsonLines } from "../src/lib/json-view";
+
+const doc = {
+  _id: "user:1",
+  "a/b": 1,
+  tags: ["x", "y"],
+  address: { city: "Lyon", zip: null },
+  empty: {},
+};
+
+function render(folded: string[] = []): string {
+  return jsonLines(doc, new Set(folded))
+    .map(
+      (line) =>
+        `${"  ".repeat(line.depth)}${line.key === undefined ? "" : `${JSON.stringify(line.key)}: `}${line.text}${line.comma ? "," : ""}`,
+    )
+    .join("\n");
+}
+
+describe("jsonLines", () => {
+  it("should lay out values like JSON.stringify", () => {
+    expect(render()).toBe(JSON.stringify(doc, null, 2));
+  });
+
+  it("should collapse folded containers", () => {
+    expect(render(["/tags", "/address"])).toBe(
+      [
+        "{",
+        '  "_id": "user:1",',
+        '  "a/b": 1,',
+        '  "tags": […],',
+        '  "address": {…},',
+        '  "empty": {}',
+        "}",
+      ].join("\n"),
+    );
+    const tags = jsonLines(doc, new Set(["/tags"])).find(
+      (line) => line.path === "/tags",
+    );
+    expect(tags?.container).toEqual({ folded: true, size: 2, array: true });
+  });
+
+  it("should use escaped JSON Pointer paths", () => {
+    const paths = jsonLines(doc).map((line) => line.path);
+    expect(paths).toContain("/a~1b");
+    expect(paths).toContain("/tags/1");
+    expect(containerPaths(doc)).toEqual(["/tags", "/address"]);
+  });
+});
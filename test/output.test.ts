@@ -0,0 +1,120 @@
+import { afterEach, describe, expect, it } from "bun:test";
+import { stripVTControlCharacters } from "node:util";
+import {
+  configureOutput,
+  formatData,
+  formatStreamItem,
+  outputFormat,
+  renderTable,
+  toYaml,
+} from "../src/lib/output";
+
+// Strip picocolors' escapes so assertions don't depend on the terminal
+function plain(lines: string[]): string[] {
+  return lines.map((line) => stripVTControlCharacters(line));
+}
+
+describe("outputFormat", () => {
+  afterEach(() => configureOutput());
+
+  it("should prefer --json, then -o, then the config setting", () => {
+    configureOutput("yaml", "csv");
+    expect(outputFormat({ json: true })).toBe("json");
+    expect(outputFormat()).toBe("yaml");
+
+    configureOutput(undefined, "csv");
+    expect(outputFormat()).toBe("csv");
+  });
+
+  it("should reject an unknown -o but ignore a bad config value", () => {
+    expect(() => configureOutput("xml")).toThrow('Unknown output format "xml"');
+    configureOutput(undefined, "xml");
+    expect(outputFormat()).toBe(process.stdout.isTTY ? "table" : "json");
+  });
+
+  it("should compile --query before any command runs", () => {
+    expect(() => configureOutput(undefined, undefined, "rows[")).toThrow(
+      "Invalid query at position 6",
+    );
+  });
+});
+
+describe("toYaml", () => {
+  it("should emit nested maps and lists, quoting ambiguous strings", () => {
+    const yaml = toYaml({
+      name: "users",
+      tags: ["a", "b"],
+      empty: [],
+      nested: { on: "yes", n: 3, note: "a: b" },
+      rows: [{ id: "x", ok: true }],
+    });
+    expect(yaml).toBe(
+      [
+        "name: users",
+        "tags:",
+        "  - a",
+        "  - b",
+        "empty: []",
+        "nested:",
+        '  "on": "yes"',
+        '  "n": 3',
+        '  note: "a: b"',
+        "rows:",
+        "  - id: x",
+        "    ok: true",
+      ].join("\n"),
+    );
+  });
+});
+
+describe("formatData", () => {
+  it("should print row formats from the given rows", () => {
+    const data = { total_rows: 2, rows: [{ id: "a" }, { id: "b", n: 1 }] };
+    expect(formatData(data, "ndjson", data.rows)).toBe(
+      '{"id":"a"}\n{"id":"b","n":1}',
+    );
+    expect(formatData(data, "csv", data.rows)).toBe("id,n\r\na,\r\nb,1");
+  });
+
+  it("should wrap bare values in a value column", () => {
+    expect(formatData(["_users", "app"], "tsv")).toBe("value\r\n_users\r\napp");
+  });
+});
+
+describe("formatStreamItem", () => {
+  afterEach(() => configureOutput());
+
+  it("should print each item as one JSON line", () => {
+    configureOutput("yaml");
+    expect(formatStreamItem({ id: "a", seq: 1 })).toBe('{"id":"a","seq":1}');
+  });
+
+  it("should run --query on every item", () => {
+    configureOutput("json", undefined, "id");
+    expect(formatStreamItem({ id: "a", seq: 1 })).toBe('"a"');
+    configureOutput("table", undefined, "id");
+    expect(formatStreamItem({ id: "a", seq: 1 })).toBe("a");
+    expect(formatStreamItem({ id: "b", seq: 2 }, { json: true })).toBe('"b"');
+  });
+});
+
+describe("renderTable", () => {
+  it("should align columns and cut cells at their max width", () => {
+    const lines = renderTable(
+      [
+        { id: "a", rev: "1-abcdefghijkl", size: 5 },
+        { id: "longer", rev: "2-x", size: 120 },
+      ],
+      [
+        { header: "ID", value: (r) => r.id },
+        { header: "SIZE", value: (r) => r.size, align: "right" },
+        { header: "REV", value: (r) => r.rev, max: 8 },
+      ],
+    );
+    expect(plain(lines)).toEqual([
+      "  ID      SIZE  REV",
+      "  a          5  1-abcde…",
+      "  longer   120  2-x",
+    ]);
+  });
+});
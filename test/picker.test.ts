@@ -0,0 +1,59 @@
+import { describe, expect, it } from "bun:test";
+import { fuzzyMatch, parseKeys, rank } from "../src/lib/picker";
+
+function candidates(...labels: string[]) {
+  return labels.map((label, index) => ({ item: label, index, label }));
+}
+
+describe("fuzzyMatch", () => {
+  it("should match characters in order and report their positions", () => {
+    expect(fuzzyMatch("usr", "users")?.positions).toEqual([0, 1, 3]);
+    expect(fuzzyMatch("sru", "users")).toBeUndefined();
+    expect(fuzzyMatch("", "users")).toEqual({ score: 0, positions: [] });
+  });
+
+  it("should score the tightest window", () => {
+    // "ab" matches both a…b and the adjacent "ab" near the end
+    expect(fuzzyMatch("ab", "a-x-ab")?.positions).toEqual([4, 5]);
+  });
+
+  it("should be case-insensitive unless the pattern has uppercase", () => {
+    expect(fuzzyMatch("ord", "Orders")).toBeDefined();
+    expect(fuzzyMatch("Ord", "orders")).toBeUndefined();
+  });
+});
+
+describe("rank", () => {
+  it("should prefer word starts and consecutive runs", () => {
+    const ranked = rank(
+      candidates("product:mug", "user:ada", "a_user_doc", "xuxsxexr"),
+      "user",
+    );
+    expect(ranked.map((r) => r.label)).toEqual([
+      "user:ada",
+      "a_user_doc",
+      "xuxsxexr",
+    ]);
+  });
+
+  it("should keep the source order without a pattern", () => {
+    const ranked = rank(candidates("b", "a", "c"), "");
+    expect(ranked.map((r) => r.label)).toEqual(["b", "a", "c"]);
+  });
+});
+
+describe("parseKeys", () => {
+  it("should split text, control keys and escape sequences", () => {
+    expect(parseKeys("ab\x1b[A\x1b[6~\r")).toEqual([
+      { name: "text", text: "ab" },
+      { name: "up" },
+      { name: "pagedown" },
+      { name: "enter" },
+    ]);
+    expect(parseKeys("\x05\x7f\x1b")).toEqual([
+      { name: "ctrl-e" },
+      { name: "backspace" },
+      { name: "escape" },
+    ]);
+  });
+});
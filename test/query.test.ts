@@ -0,0 +1,79 @@
+import { describe, expect, it } from "bun:test";
+import { compileQuery } from "../src/lib/query";
+
+const info = {
+  db_name: "users",
+  sizes: { active: 1024, external: 512, file: 4096 },
+  "purge-seq": 0,
+};
+
+const list = {
+  total_rows: 3,
+  rows: [
+    { id: "a", value: { rev: "1-a" }, doc: { age: 30, tags: ["x"] } },
+    { id: "b", value: { rev: "2-b" }, doc: { age: 41, tags: ["y", "z"] } },
+    { id: "c", value: { rev: "1-c" }, doc: { tags: [] } },
+  ],
+};
+
+function run(expression: string, data: unknown): unknown {
+  return compileQuery(expression)(data);
+}
+
+describe("compileQuery", () => {
+  it("should follow field paths, quoted keys and indexes", () => {
+    expect(run("sizes.active", info)).toBe(1024);
+    expect(run('"purge-seq"', info)).toBe(0);
+    expect(run("sizes.missing", info)).toBeNull();
+    expect(run("rows[0].id", list)).toBe("a");
+    expect(run("rows[-1].id", list)).toBe("c");
+    expect(run("rows[:2].id", list)).toEqual(["a", "b"]);
+    expect(run("rows[::-1].id", list)).toEqual(["c", "b", "a"]);
+  });
+
+  it("should project, flatten and drop missing values", () => {
+    expect(run("rows[*].id", list)).toEqual(["a", "b", "c"]);
+    expect(run("rows[*].doc.age", list)).toEqual([30, 41]);
+    expect(run("rows[].doc.tags[]", list)).toEqual(["x", "y", "z"]);
+    expect(run("sizes.*", info)).toEqual([1024, 512, 4096]);
+  });
+
+  it("should filter with comparisons and boolean operators", () => {
+    expect(run("rows[?doc.age > `35`].id", list)).toEqual(["b"]);
+    expect(run("rows[?doc.age >= 30 && value.rev != '2-b'].id", list)).toEqual([
+      "a",
+    ]);
+    expect(run("rows[?!doc.age].id", list)).toEqual(["c"]);
+    expect(run("missing || db_name", info)).toBe("users");
+  });
+
+  it("should build lists and objects and pipe into functions", () => {
+    expect(run("rows[0].[id, value.rev]", list)).toEqual(["a", "1-a"]);
+    expect(run("rows[*].{id: id, rev: value.rev}", list)).toEqual([
+      { id: "a", rev: "1-a" },
+      { id: "b", rev: "2-b" },
+      { id: "c", rev: "1-c" },
+    ]);
+    expect(run("length(rows)", list)).toBe(3);
+    expect(run("rows[*].doc.age | sum(@)", list)).toBe(71);
+    expect(run("sort(keys(sizes))", info)).toEqual([
+      "active",
+      "external",
+      "file",
+    ]);
+    expect(run("join(',', rows[*].id)", list)).toBe("a,b,c");
+  });
+
+  it("should report syntax errors with their position", () => {
+    expect(() => compileQuery("rows[*")).toThrow(
+      'Invalid query at position 7: expected "]"',
+    );
+    expect(() => compileQuery("sizes..active")).toThrow(
+      'Invalid query at position 7: unexpected "."',
+    );
+    expect(() => compileQuery("nope(@)")).toThrow("unknown function nope()");
+    expect(() => run("length(sizes.active)", info)).toThrow(
+      "length() expects string or array or object, got number",
+    );
+  });
+});
@@ -0,0 +1,97 @@
+import { describe, expect, it } from "bun:test";
+import type { CouchClient, OpenRev, RevInfo } from "../src/lib/couch-client";
+import {
+  getRevisionHistory,
+  lastLiveRevision,
+  revPos,
+  sortLeaves,
+} from "../src/lib/revisions";
+
+describe("sortLeaves", () => {
+  it("should put the winner first: live, then longest, then highest hash", () => {
+    const leaves = [
+      { _rev: "4-aaa", _deleted: true },
+      { _rev: "2-fff" },
+      { _rev: "3-abc" },
+      { _rev: "3-abd" },
+    ];
+    expect(sortLeaves(leaves).map((l) => l._rev)).toEqual([
+      "3-abd",
+      "3-abc",
+      "2-fff",
+      "4-aaa",
+    ]);
+    expect(revPos("12-abc")).toBe(12);
+  });
+});
+
+describe("getRevisionHistory", () => {
+  it("should merge the revs_info of every leaf, newest first", async () => {
+    const revsInfo: Record<string, RevInfo[]> = {
+      "3-b": [
+        { rev: "3-b", status: "available" },
+        { rev: "2-a", status: "available" },
+        { rev: "1-a", status: "missing" },
+      ],
+      "3-a": [
+        { rev: "3-a", status: "deleted" },
+        { rev: "2-a", status: "available" },
+        { rev: "1-a", status: "missing" },
+      ],
+    };
+    const client = {
+      getOpenRevs: async (): Promise<OpenRev[]> => [
+        { ok: { _id: "d", _rev: "3-a", _deleted: true } },
+        { ok: { _id: "d", _rev: "3-b" } },
+      ],
+      getDocument: async (
+        _db: string,
+        id: string,
+        options: { rev: string },
+      ) => ({
+        _id: id,
+        _rev: options.rev,
+        _revs_info: revsInfo[options.rev],
+      }),
+    } as unknown as CouchClient;
+
+    expect(await getRevisionHistory(client, "db", "d")).toEqual([
+      { rev: "3-b", status: "available", leaf: true, winner: true },
+      { rev: "3-a", status: "deleted", leaf: true, winner: false },
+      { rev: "2-a", status: "available", leaf: false, winner: false },
+      { rev: "1-a", status: "missing", leaf: false, winner: false },
+    ]);
+  });
+});
+
+describe("lastLiveRevision", () => {
+  it("should walk back from the tombstone to the newest surviving body", async () => {
+    const requested: unknown[] = [];
+    const client = {
+      getOpenRevs: async (_db: string, _id: string, revs: unknown) => {
+        requested.push(revs);
+        if (revs === "all") {
+          return [
+            {
+              ok: {
+                _id: "d",
+                _rev: "4-d",
+                _deleted: true,
+                _revisions: { start: 4, ids: ["d", "c", "b", "a"] },
+              },
+            },
+          ];
+        }
+        return [
+          { missing: "3-c" },
+          { ok: { _id: "d", _rev: "2-b", name: "kept" } },
+          { ok: { _id: "d", _rev: "1-a" } },
+        ];
+      },
+    } as unknown as CouchClient;
+
+    const doc = await lastLiveRevision(client, "db", "d");
+    expect(doc).toEqual({ _id: "d", _rev: "2-b", name: "kept" });
+    expect(requested).toEqual(["all", ["3-c", "2-b", "1-a"]]);
+  });
+});
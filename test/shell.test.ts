@@ -0,0 +1,76 @@
+import { afterEach, beforeEach, describe, expect, it } from "bun:test";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
+const CLI = join(import.meta.dir, "..", "src", "index.ts");
+
+describe("sillon shell", () => {
+  let home: string;
+
+  beforeEach(async () => {
+    home = await mkdtemp(join(tmpdir(), "sillon-shell-"));
+  });
+
+  afterEach(async () => {
+    await rm(home, { recursive: true, force: true });
+  });
+
+  // Nothing listens on the default port; the commands tested there fail
+  // before connecting
+  function spawnShell(url = "http://127.0.0.1:1") {
+    return Bun.spawn(["bun", CLI, "shell"], {
+      env: { ...process.env, HOME: home, COUCHDB_URL: url, NO_COLOR: "1" },
+      stdin: "pipe",
+      stdout: "pipe",
+      stderr: "pipe",
+    });
+  }
+
+  async function outputOf(proc: ReturnType<typeof spawnShell>) {
+    const [out, err] = await Promise.all([
+      new Response(proc.stdout).text(),
+      new Response(proc.stderr).text(),
+    ]);
+    await proc.exited;
+    return out + err;
+  }
+
+  /** Pipe `lines` into `sillon shell` and collect everything it printed. */
+  async function shell(lines: string[]): Promise<string> {
+    const proc = spawnShell();
+    proc.stdin.write(`${lines.join("\n")}\n`);
+    proc.stdin.end();
+    return outputOf(proc);
+  }
+
+  it("should split `changes exec` on the -- typed in the shell", async () => {
+    const output = await shell(["changes exec -- echo hi"]);
+    expect(output).toContain("No database specified");
+    expect(output).not.toContain('Handling changes in "echo"');
+  });
+
+  it("should abort the running command on Ctrl-C and keep going", async () => {
+    // A server that never answers, so `db list` runs until interrupted
+    const server = Bun.serve({ port: 0, fetch: () => new Promise(() => {}) });
+    try {
+      const proc = spawnShell(`http://127.0.0.1:${server.port}`);
+      const output = outputOf(proc);
+      for (let i = 0; i < 2; i++) {
+        proc.stdin.write("db list\n");
+        proc.stdin.flush();
+        await Bun.sleep(500);
+        proc.kill("SIGINT");
+        await Bun.sleep(100);
+      }
+      proc.stdin.write("exit\n");
+      proc.stdin.end();
+
+      expect((await output).match(/Interrupted/g)).toHaveLength(2);
+      expect(proc.signalCode).toBeNull();
+      expect(proc.exitCode).toBe(0);
+    } finally {
+      server.stop(true);
+    }
+  });
+});